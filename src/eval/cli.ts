@@ -0,0 +1,139 @@
+import 'dotenv/config';
+import { mkdirSync, readFileSync, writeFileSync } from 'fs';
+import path from 'path';
+import { parseArgs } from 'util';
+import { poolRegistry } from '../mastra/lib/db-pool';
+import { toolModelConfig } from '../mastra/lib/model-registry';
+import { loadEvalDataset } from './dataset';
+import { ModelRecordings, registerRecordedProvider } from './recorded-model';
+import { diffRuns, formatDiffReport, formatRunReport } from './report';
+import { runEvaluation } from './runner';
+import type { EvalRun } from './runner';
+
+const USAGE = `Usage:
+  npm run eval -- run --dataset <file.yaml> [--label <name>] [--model <provider/model>] [--record]
+                      [--seed] [--data-seed <n>] [--connection <url>] [--recordings <file.json>]
+                      [--only <id or tag>,...] [--out <dir>]
+  npm run eval -- diff <base.json> <candidate.json> [--out <report.md>] [--fail-on-regression]
+
+run   generates SQL for every case against EVAL_DATABASE_URL (or --connection) and writes <out>/<label>.json
+      and <label>.md. --seed first recreates the dataset from --data-seed (default 1). Model responses are
+      replayed from the recordings file; --record calls the model and records its responses instead.
+diff  compares two run files and lists metric changes, regressions and fixes.`;
+
+const DEFAULT_OUT_DIR = 'evals/runs';
+const DEFAULT_RECORDINGS_DIR = 'evals/recordings';
+
+async function run(args: string[]) {
+  const { values } = parseArgs({
+    args,
+    options: {
+      dataset: { type: 'string' },
+      label: { type: 'string' },
+      model: { type: 'string' },
+      record: { type: 'boolean', default: false },
+      seed: { type: 'boolean', default: false },
+      'data-seed': { type: 'string' },
+      connection: { type: 'string' },
+      recordings: { type: 'string' },
+      only: { type: 'string' },
+      out: { type: 'string', default: DEFAULT_OUT_DIR },
+    },
+  });
+  if (!values.dataset) {
+    throw new Error('--dataset is required');
+  }
+  // Never NEWS_DATABASE_URL: --seed drops and recreates the seeded tables
+  const connectionString = values.connection ?? process.env.EVAL_DATABASE_URL;
+  if (!connectionString) {
+    throw new Error('Set EVAL_DATABASE_URL or pass --connection with a local database for the evaluation');
+  }
+
+  const dataSeed = values['data-seed'] === undefined ? undefined : Number(values['data-seed']);
+  if (dataSeed !== undefined && !Number.isInteger(dataSeed)) {
+    throw new Error('--data-seed must be an integer');
+  }
+
+  const dataset = loadEvalDataset(values.dataset);
+  const model = values.model ?? toolModelConfig('SQL_GENERATION').primary;
+  const recordings = new ModelRecordings(
+    path.resolve(values.recordings ?? path.join(DEFAULT_RECORDINGS_DIR, `${dataset.name}.json`)),
+    values.record ? 'record' : 'replay',
+  );
+  registerRecordedProvider(recordings);
+  // Every generation goes through the recorded model; a fallback would silently reach the network on a replay miss
+  process.env.SQL_GENERATION_MODEL = `recorded/${model}`;
+  delete process.env.SQL_GENERATION_FALLBACK_MODEL;
+  delete process.env.FALLBACK_MODEL;
+  console.log(
+    `📋 ${dataset.cases.length} cases from ${dataset.source}, model ${model} (${recordings.mode}, ${recordings.size} recorded responses)`,
+  );
+
+  const label = values.label ?? `${dataset.name}-${new Date().toISOString().replace(/[:.]/g, '-')}`;
+  try {
+    const result = await runEvaluation(dataset, {
+      connectionString,
+      label,
+      model,
+      seed: values.seed,
+      dataSeed,
+      only: values.only?.split(',').map(value => value.trim()),
+    });
+
+    mkdirSync(values.out, { recursive: true });
+    const runPath = path.join(values.out, `${label}.json`);
+    const report = formatRunReport(result);
+    writeFileSync(runPath, `${JSON.stringify(result, null, 2)}\n`);
+    writeFileSync(path.join(values.out, `${label}.md`), report);
+    console.log(`\n${report}`);
+    console.log(`💾 Saved run to ${runPath}`);
+  } finally {
+    recordings.save();
+  }
+}
+
+function diff(args: string[]) {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      out: { type: 'string' },
+      'fail-on-regression': { type: 'boolean', default: false },
+    },
+  });
+  if (positionals.length !== 2) {
+    throw new Error('diff needs a base and a candidate run file');
+  }
+
+  const [base, candidate] = positionals.map(file => JSON.parse(readFileSync(file, 'utf8')) as EvalRun);
+  const result = diffRuns(base, candidate);
+  const report = formatDiffReport(result);
+  if (values.out) {
+    writeFileSync(values.out, report);
+  }
+  console.log(report);
+  if (values['fail-on-regression'] && result.regressions.length > 0) {
+    process.exitCode = 1;
+  }
+}
+
+async function main() {
+  const [command, ...args] = process.argv.slice(2);
+  try {
+    if (command === 'run') {
+      await run(args);
+    } else if (command === 'diff') {
+      diff(args);
+    } else {
+      console.log(USAGE);
+      process.exitCode = command ? 1 : 0;
+    }
+  } catch (error) {
+    console.error(`❌ ${error instanceof Error ? error.message : String(error)}`);
+    process.exitCode = 1;
+  } finally {
+    await poolRegistry.closeAll();
+  }
+}
+
+main();
@@ -0,0 +1,87 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import { parse } from 'yaml';
+import { z } from 'zod';
+import { seedProfiles } from '../mastra/tools/database-seeding-tool';
+import type { SeedProfile } from '../mastra/tools/database-seeding-tool';
+
+// Shape of a golden dataset file; keys are snake_case like policy.yaml
+const evalCaseSchema = z
+  .object({
+    id: z.string().min(1),
+    question: z.string().min(1),
+    // Reference query run against the same database; its result is the expected result set
+    expected_sql: z.string().optional(),
+    // Literal expected rows, for answers that do not depend on seeded random data
+    expected_rows: z.array(z.record(z.unknown())).optional(),
+    // Compare row order too (only when the question asks for an ordering)
+    ordered: z.boolean().default(false),
+    // Upper bound on returned rows, e.g. for "top 5" questions
+    max_rows: z.number().int().positive().optional(),
+    tags: z.array(z.string()).default([]),
+  })
+  .refine(value => value.expected_sql !== undefined || value.expected_rows !== undefined, {
+    message: 'Each case needs expected_sql or expected_rows',
+  });
+
+const evalDatasetSchema = z.object({
+  name: z.string().min(1),
+  description: z.string().optional(),
+  // Seeding profile that creates the dataset's tables with --seed
+  profile: z.enum(seedProfiles).default('business'),
+  cases: z.array(evalCaseSchema).min(1),
+});
+
+export interface EvalCase {
+  id: string;
+  question: string;
+  expectedSql?: string;
+  expectedRows?: Record<string, unknown>[];
+  ordered: boolean;
+  maxRows?: number;
+  tags: string[];
+}
+
+export interface EvalDataset {
+  name: string;
+  description?: string;
+  profile: SeedProfile;
+  source: string;
+  cases: EvalCase[];
+}
+
+export function parseEvalDataset(content: string, source = 'inline'): EvalDataset {
+  const parsed = evalDatasetSchema.safeParse(parse(content) ?? {});
+  if (!parsed.success) {
+    throw new Error(`Invalid evaluation dataset in ${source}: ${parsed.error.message}`);
+  }
+
+  const ids = new Set<string>();
+  parsed.data.cases.forEach(evalCase => {
+    if (ids.has(evalCase.id)) {
+      throw new Error(`Invalid evaluation dataset in ${source}: duplicate case id "${evalCase.id}"`);
+    }
+    ids.add(evalCase.id);
+  });
+
+  return {
+    name: parsed.data.name,
+    description: parsed.data.description,
+    profile: parsed.data.profile,
+    source,
+    cases: parsed.data.cases.map(evalCase => ({
+      id: evalCase.id,
+      question: evalCase.question,
+      expectedSql: evalCase.expected_sql,
+      expectedRows: evalCase.expected_rows,
+      ordered: evalCase.ordered,
+      maxRows: evalCase.max_rows,
+      tags: evalCase.tags,
+    })),
+  };
+}
+
+export function loadEvalDataset(datasetPath: string): EvalDataset {
+  const resolved = path.resolve(process.cwd(), datasetPath);
+  return parseEvalDataset(readFileSync(resolved, 'utf8'), resolved);
+}
@@ -0,0 +1,112 @@
+import { createHash } from 'crypto';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import path from 'path';
+import { wrapLanguageModel } from 'ai';
+import type { LanguageModel } from 'ai';
+import { registerModelProvider, resolveModel } from '../mastra/lib/model-registry';
+
+// Records model responses to a JSON file and replays them, so an evaluation can run offline and give the
+// same answers every time. Registered as the `recorded` provider: `recorded/openai/gpt-4o` wraps
+// `openai/gpt-4o`.
+
+export const recordingModes = ['replay', 'record'] as const;
+export type RecordingMode = (typeof recordingModes)[number];
+
+type LanguageModelV2 = Exclude<LanguageModel, string>;
+type GenerateResult = Awaited<ReturnType<LanguageModelV2['doGenerate']>>;
+
+interface Recording {
+  model: string;
+  recordedAt: string;
+  result: Pick<GenerateResult, 'content' | 'finishReason' | 'usage' | 'providerMetadata' | 'warnings'>;
+}
+
+export class ModelRecordings {
+  private recordings: Record<string, Recording>;
+  private dirty = false;
+
+  constructor(
+    readonly filePath: string,
+    readonly mode: RecordingMode,
+  ) {
+    this.recordings = existsSync(filePath) ? JSON.parse(readFileSync(filePath, 'utf8')) : {};
+  }
+
+  get size() {
+    return Object.keys(this.recordings).length;
+  }
+
+  // The whole prompt is the key, so any change to the system prompt, schema description or examples misses
+  static keyFor(params: unknown) {
+    return createHash('sha256').update(JSON.stringify(params)).digest('hex');
+  }
+
+  get(key: string) {
+    return this.recordings[key];
+  }
+
+  set(key: string, recording: Recording) {
+    this.recordings[key] = recording;
+    this.dirty = true;
+  }
+
+  save() {
+    if (!this.dirty) {
+      return;
+    }
+    mkdirSync(path.dirname(this.filePath), { recursive: true });
+    writeFileSync(this.filePath, `${JSON.stringify(this.recordings, null, 2)}\n`);
+    this.dirty = false;
+  }
+}
+
+export function recordedModel(modelString: string, recordings: ModelRecordings): LanguageModelV2 {
+  const model = resolveModel(modelString);
+  if (typeof model === 'string') {
+    throw new Error(`Cannot record model "${modelString}"`);
+  }
+
+  return wrapLanguageModel({
+    model,
+    middleware: {
+      wrapGenerate: async ({ doGenerate, params }) => {
+        const key = ModelRecordings.keyFor({
+          prompt: params.prompt,
+          responseFormat: params.responseFormat,
+          temperature: params.temperature,
+        });
+
+        if (recordings.mode === 'replay') {
+          const recording = recordings.get(key);
+          if (!recording) {
+            throw new Error(
+              `No recorded response for this prompt in ${recordings.filePath}; run the evaluation with --record`,
+            );
+          }
+          return { ...recording.result, response: { modelId: recording.model } };
+        }
+
+        const result = await doGenerate();
+        recordings.set(key, {
+          model: modelString,
+          recordedAt: new Date().toISOString(),
+          result: {
+            content: result.content,
+            finishReason: result.finishReason,
+            usage: result.usage,
+            providerMetadata: result.providerMetadata,
+            warnings: result.warnings,
+          },
+        });
+        return result;
+      },
+      wrapStream: async () => {
+        throw new Error('Recorded models only support generate calls');
+      },
+    },
+  });
+}
+
+export function registerRecordedProvider(recordings: ModelRecordings) {
+  registerModelProvider('recorded', modelId => recordedModel(modelId, recordings));
+}
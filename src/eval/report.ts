@@ -0,0 +1,177 @@
+import type { EvalCaseResult, EvalRun, EvalSummary } from './runner';
+
+// Markdown reports for one run and for the difference between two runs of the same dataset
+
+export interface CaseChange {
+  id: string;
+  question: string;
+  before?: EvalCaseResult;
+  after?: EvalCaseResult;
+  // What changed, e.g. "pass → fail", "latency 1200ms → 3400ms"
+  changes: string[];
+}
+
+export interface RunDiff {
+  base: Pick<EvalRun, 'label' | 'model' | 'startedAt'>;
+  candidate: Pick<EvalRun, 'label' | 'model' | 'startedAt'>;
+  summary: { metric: string; before: number; after: number }[];
+  regressions: CaseChange[];
+  fixes: CaseChange[];
+  // Cases with the same status but a different query, policy or LIMIT result
+  otherChanges: CaseChange[];
+  // Case ids only present in one of the runs
+  added: string[];
+  removed: string[];
+}
+
+// A latency change smaller than this is noise
+const LATENCY_CHANGE_RATIO = 0.5;
+
+const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+const summaryMetrics = (summary: EvalSummary) => [
+  { metric: 'Execution accuracy', value: summary.executionAccuracy, format: percent },
+  { metric: 'Policy violation rate', value: summary.policyViolationRate, format: percent },
+  { metric: 'LIMIT compliance', value: summary.limitComplianceRate, format: percent },
+  { metric: 'Errors', value: summary.errors, format: String },
+  { metric: 'Latency p50 (ms)', value: summary.latencyMs.p50, format: String },
+  { metric: 'Latency p95 (ms)', value: summary.latencyMs.p95, format: String },
+];
+
+const caseChanges = (before: EvalCaseResult, after: EvalCaseResult) => {
+  const changes: string[] = [];
+  if (before.status !== after.status) {
+    changes.push(`${before.status} → ${after.status}${after.mismatchReason ? ` (${after.mismatchReason})` : ''}`);
+  }
+  if (before.policyViolations !== after.policyViolations) {
+    changes.push(`policy violations ${before.policyViolations} → ${after.policyViolations}`);
+  }
+  if (before.limitCompliant !== after.limitCompliant) {
+    changes.push(`LIMIT ${before.limitCompliant ? 'compliant' : 'violated'} → ${after.limitCompliant ? 'compliant' : 'violated'}`);
+  }
+  if (before.attempts !== after.attempts) {
+    changes.push(`attempts ${before.attempts} → ${after.attempts}`);
+  }
+  const slower = Math.max(before.latencyMs, after.latencyMs);
+  if (slower > 0 && Math.abs(after.latencyMs - before.latencyMs) / slower > LATENCY_CHANGE_RATIO) {
+    changes.push(`latency ${before.latencyMs}ms → ${after.latencyMs}ms`);
+  }
+  if ((before.generatedSql ?? '').trim() !== (after.generatedSql ?? '').trim()) {
+    changes.push('different SQL');
+  }
+  return changes;
+};
+
+export function diffRuns(base: EvalRun, candidate: EvalRun): RunDiff {
+  if (base.dataset !== candidate.dataset) {
+    throw new Error(`Runs use different datasets ("${base.dataset}" and "${candidate.dataset}")`);
+  }
+
+  const baseCases = new Map(base.cases.map(result => [result.id, result]));
+  const candidateCases = new Map(candidate.cases.map(result => [result.id, result]));
+  const diff: RunDiff = {
+    base: { label: base.label, model: base.model, startedAt: base.startedAt },
+    candidate: { label: candidate.label, model: candidate.model, startedAt: candidate.startedAt },
+    summary: summaryMetrics(base.summary).map((metric, index) => ({
+      metric: metric.metric,
+      before: metric.value,
+      after: summaryMetrics(candidate.summary)[index].value,
+    })),
+    regressions: [],
+    fixes: [],
+    otherChanges: [],
+    added: candidate.cases.filter(result => !baseCases.has(result.id)).map(result => result.id),
+    removed: base.cases.filter(result => !candidateCases.has(result.id)).map(result => result.id),
+  };
+
+  candidate.cases.forEach(after => {
+    const before = baseCases.get(after.id);
+    if (!before) {
+      return;
+    }
+    const changes = caseChanges(before, after);
+    if (changes.length === 0) {
+      return;
+    }
+    const change = { id: after.id, question: after.question, before, after, changes };
+    if (before.status === 'pass' && after.status !== 'pass') {
+      diff.regressions.push(change);
+    } else if (before.status !== 'pass' && after.status === 'pass') {
+      diff.fixes.push(change);
+    } else {
+      diff.otherChanges.push(change);
+    }
+  });
+  return diff;
+}
+
+export function formatRunReport(run: EvalRun): string {
+  const lines = [
+    `# Evaluation: ${run.label}`,
+    '',
+    `Dataset **${run.dataset}**, model \`${run.model}\`, ${run.startedAt}`,
+    '',
+    '| Metric | Value |',
+    '| --- | --- |',
+    ...summaryMetrics(run.summary).map(metric => `| ${metric.metric} | ${metric.format(metric.value)} |`),
+    `| Passed | ${run.summary.passed}/${run.summary.total} |`,
+  ];
+
+  const failures = run.cases.filter(result => result.status !== 'pass');
+  if (failures.length > 0) {
+    lines.push('', '## Failures', '');
+    failures.forEach(result => {
+      lines.push(`- **${result.id}** (${result.status}): ${result.error ?? result.mismatchReason ?? 'different result'}`);
+      if (result.generatedSql) {
+        lines.push('', '  ```sql', ...result.generatedSql.trim().split('\n').map(line => `  ${line}`), '  ```');
+      }
+    });
+  }
+  return `${lines.join('\n')}\n`;
+}
+
+const formatChange = (change: CaseChange) => `- **${change.id}**: ${change.changes.join('; ')}`;
+
+export function formatDiffReport(diff: RunDiff): string {
+  const isPercent = (metric: string) => !metric.startsWith('Latency') && metric !== 'Errors';
+  const formatValue = (metric: string, value: number) => (isPercent(metric) ? percent(value) : String(value));
+  const formatDelta = (metric: string, before: number, after: number) => {
+    const delta = after - before;
+    if (delta === 0) {
+      return '–';
+    }
+    return `${delta > 0 ? '+' : ''}${isPercent(metric) ? `${(delta * 100).toFixed(1)} pts` : delta}`;
+  };
+
+  const lines = [
+    `# Evaluation diff: ${diff.base.label} → ${diff.candidate.label}`,
+    '',
+    `Base \`${diff.base.model}\` (${diff.base.startedAt}), candidate \`${diff.candidate.model}\` (${diff.candidate.startedAt})`,
+    '',
+    '| Metric | Base | Candidate | Change |',
+    '| --- | --- | --- | --- |',
+    ...diff.summary.map(
+      ({ metric, before, after }) =>
+        `| ${metric} | ${formatValue(metric, before)} | ${formatValue(metric, after)} | ${formatDelta(metric, before, after)} |`,
+    ),
+  ];
+
+  const section = (title: string, changes: CaseChange[]) => {
+    if (changes.length > 0) {
+      lines.push('', `## ${title} (${changes.length})`, '', ...changes.map(formatChange));
+    }
+  };
+  section('Regressions', diff.regressions);
+  section('Fixes', diff.fixes);
+  section('Other changes', diff.otherChanges);
+  if (diff.added.length > 0 || diff.removed.length > 0) {
+    lines.push('', '## Case set', '');
+    if (diff.added.length > 0) {
+      lines.push(`- Only in candidate: ${diff.added.join(', ')}`);
+    }
+    if (diff.removed.length > 0) {
+      lines.push(`- Only in base: ${diff.removed.join(', ')}`);
+    }
+  }
+  return `${lines.join('\n')}\n`;
+}
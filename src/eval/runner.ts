@@ -0,0 +1,227 @@
+import { RuntimeContext } from '@mastra/core/runtime-context';
+import { poolRegistry } from '../mastra/lib/db-pool';
+import { querySingleStatement, withReadOnlyTransaction } from '../mastra/lib/read-only-query';
+import { databaseIntrospectionTool } from '../mastra/tools/database-introspection-tool';
+import { databaseSeedingTool } from '../mastra/tools/database-seeding-tool';
+import { sqlGenerationTool } from '../mastra/tools/sql-generation-tool';
+import type { EvalCase, EvalDataset } from './dataset';
+import { checkLimits, compareResultSets } from './scoring';
+
+export interface EvalCaseResult {
+  id: string;
+  question: string;
+  tags: string[];
+  // pass: the generated query returns the expected result set
+  status: 'pass' | 'fail' | 'error';
+  generatedSql?: string;
+  executionMatch: boolean;
+  mismatchReason?: string;
+  // Attempts rejected by the access policy, plus rules the guard applied to the accepted one
+  policyViolations: number;
+  limitCompliant: boolean;
+  limitViolations: string[];
+  attempts: number;
+  // Time spent in SQL generation, repairs included
+  latencyMs: number;
+  rowCount?: number;
+  error?: string;
+}
+
+export interface EvalSummary {
+  total: number;
+  passed: number;
+  failed: number;
+  errors: number;
+  // Share of cases, 0-1
+  executionAccuracy: number;
+  policyViolationRate: number;
+  limitComplianceRate: number;
+  latencyMs: { mean: number; p50: number; p95: number };
+}
+
+export interface EvalRun {
+  label: string;
+  dataset: string;
+  datasetSource: string;
+  model: string;
+  startedAt: string;
+  finishedAt: string;
+  // Seed of the seeded dataset, when the run seeded the database
+  dataSeed?: number;
+  summary: EvalSummary;
+  cases: EvalCaseResult[];
+}
+
+export interface EvalOptions {
+  connectionString: string;
+  label: string;
+  model: string;
+  // Run databaseSeedingTool first, with dataSeed (default 1) so every run sees the same data
+  seed?: boolean;
+  dataSeed?: number;
+  // Only run cases with one of these ids or tags
+  only?: string[];
+}
+
+// The parts of the sql-generation and database-seeding results the runner reads; the tools declare no output schema
+interface GeneratedQuery {
+  sql: string;
+  attempts?: { status: string; appliedRules?: string[] }[];
+}
+
+interface SeedingResult {
+  success?: boolean;
+  message?: string;
+  confirmationToken?: string;
+}
+
+const DEFAULT_DATA_SEED = 1;
+
+const percentile = (sorted: number[], p: number) =>
+  sorted.length === 0 ? 0 : sorted[Math.min(sorted.length - 1, Math.ceil((p / 100) * sorted.length) - 1)];
+
+export function summarizeCases(cases: EvalCaseResult[]): EvalSummary {
+  const share = (count: number) => (cases.length === 0 ? 0 : count / cases.length);
+  const latencies = cases.map(result => result.latencyMs).sort((a, b) => a - b);
+  return {
+    total: cases.length,
+    passed: cases.filter(result => result.status === 'pass').length,
+    failed: cases.filter(result => result.status === 'fail').length,
+    errors: cases.filter(result => result.status === 'error').length,
+    executionAccuracy: share(cases.filter(result => result.executionMatch).length),
+    policyViolationRate: share(cases.filter(result => result.policyViolations > 0).length),
+    limitComplianceRate: share(cases.filter(result => result.limitCompliant).length),
+    latencyMs: {
+      mean: latencies.length === 0 ? 0 : Math.round(latencies.reduce((sum, value) => sum + value, 0) / latencies.length),
+      p50: percentile(latencies, 50),
+      p95: percentile(latencies, 95),
+    },
+  };
+}
+
+const runReadOnly = (connectionString: string, sql: string) =>
+  poolRegistry.withClient(connectionString, client =>
+    withReadOnlyTransaction(client, async client => (await querySingleStatement(client, sql)).rows),
+  );
+
+async function runCase(evalCase: EvalCase, databaseSchema: any, connectionString: string): Promise<EvalCaseResult> {
+  const base = { id: evalCase.id, question: evalCase.question, tags: evalCase.tags };
+  const startedAt = Date.now();
+  let generated: GeneratedQuery;
+  try {
+    generated = (await sqlGenerationTool.execute!({
+      context: { naturalLanguageQuery: evalCase.question, databaseSchema, connectionString },
+      runtimeContext: new RuntimeContext(),
+    })) as GeneratedQuery;
+  } catch (error) {
+    return {
+      ...base,
+      status: 'error',
+      executionMatch: false,
+      policyViolations: 0,
+      limitCompliant: false,
+      limitViolations: [],
+      attempts: 0,
+      latencyMs: Date.now() - startedAt,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+  const latencyMs = Date.now() - startedAt;
+
+  const attempts = generated.attempts ?? [];
+  const accepted = attempts[attempts.length - 1];
+  const policyViolations =
+    attempts.filter(attempt => attempt.status === 'policy_violation').length + (accepted?.appliedRules?.length ?? 0);
+  const scored = { ...base, generatedSql: generated.sql, policyViolations, attempts: attempts.length, latencyMs };
+
+  try {
+    const actualRows = await runReadOnly(connectionString, generated.sql);
+    const expectedRows = evalCase.expectedRows ?? (await runReadOnly(connectionString, evalCase.expectedSql!));
+    const comparison = compareResultSets(actualRows, expectedRows, evalCase.ordered);
+    const limits = checkLimits(generated.sql, actualRows.length, {
+      maxRows: evalCase.maxRows,
+      appliedRules: accepted?.appliedRules,
+    });
+    return {
+      ...scored,
+      status: comparison.match ? 'pass' : 'fail',
+      executionMatch: comparison.match,
+      mismatchReason: comparison.reason,
+      limitCompliant: limits.compliant,
+      limitViolations: limits.violations,
+      rowCount: actualRows.length,
+    };
+  } catch (error) {
+    return {
+      ...scored,
+      status: 'error',
+      executionMatch: false,
+      limitCompliant: false,
+      limitViolations: [],
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+/**
+ * Runs every case of a dataset through sqlGenerationTool against one database and scores the results.
+ * Cases run one at a time so latencies are comparable between runs.
+ */
+export async function runEvaluation(dataset: EvalDataset, options: EvalOptions): Promise<EvalRun> {
+  const startedAt = new Date().toISOString();
+  const runtimeContext = new RuntimeContext();
+  const dataSeed = options.seed ? (options.dataSeed ?? DEFAULT_DATA_SEED) : undefined;
+
+  if (dataSeed !== undefined) {
+    console.log(`🌱 Seeding the evaluation database (${dataset.profile} profile) with seed ${dataSeed}...`);
+    // Golden queries name unqualified tables, so the evaluation database is seeded in public and replaced on
+    // every run; --seed is the confirmation
+    const context = {
+      connectionString: options.connectionString,
+      profile: dataset.profile,
+      schema: 'public',
+      force: true,
+      seed: dataSeed,
+    };
+    const plan = (await databaseSeedingTool.execute!({ context, runtimeContext })) as SeedingResult;
+    const seeded = (await databaseSeedingTool.execute!({
+      context: { ...context, confirmationToken: plan.confirmationToken },
+      runtimeContext,
+    })) as SeedingResult;
+    if (!seeded.success) {
+      throw new Error(`Could not seed the evaluation database: ${seeded.message}`);
+    }
+  }
+
+  // Row counts would put data statistics into the prompt, which changes recorded prompts between seeds
+  const databaseSchema = await databaseIntrospectionTool.execute!({
+    context: { connectionString: options.connectionString, rowCountMode: 'none', forceRefresh: true },
+    runtimeContext,
+  });
+
+  const cases = dataset.cases.filter(
+    evalCase =>
+      !options.only?.length ||
+      options.only.includes(evalCase.id) ||
+      evalCase.tags.some(tag => options.only!.includes(tag)),
+  );
+  const results: EvalCaseResult[] = [];
+  for (const [index, evalCase] of cases.entries()) {
+    console.log(`🧪 [${index + 1}/${cases.length}] ${evalCase.id}: ${evalCase.question}`);
+    const result = await runCase(evalCase, databaseSchema, options.connectionString);
+    console.log(`   ${result.status === 'pass' ? '✅' : result.status === 'fail' ? '❌' : '💥'} ${result.status}`);
+    results.push(result);
+  }
+
+  return {
+    label: options.label,
+    dataset: dataset.name,
+    datasetSource: dataset.source,
+    model: options.model,
+    startedAt,
+    finishedAt: new Date().toISOString(),
+    dataSeed,
+    summary: summarizeCases(results),
+    cases: results,
+  };
+}
@@ -0,0 +1,98 @@
+import { guardSQL } from '../mastra/lib/sql-guard';
+
+// Result-set comparison and policy checks for one evaluation case
+
+export interface ResultSetComparison {
+  match: boolean;
+  // Why the sets differ, for the report
+  reason?: string;
+}
+
+const NUMERIC_TEXT = /^-?\d+(\.\d+)?$/;
+
+// bigint and numeric arrive as strings and YAML numbers as numbers; both compare as numbers rounded to 6 places
+const normalizeValue = (value: unknown): unknown => {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (typeof value === 'number' || (typeof value === 'string' && NUMERIC_TEXT.test(value))) {
+    return Math.round(Number(value) * 1e6) / 1e6;
+  }
+  if (typeof value === 'object') {
+    return JSON.stringify(value);
+  }
+  return value;
+};
+
+const rowSignature = (values: unknown[]) => JSON.stringify(values);
+
+// Column names are ignored (aliases differ between correct queries); values are compared by position
+const toTuples = (rows: Record<string, unknown>[]) => rows.map(row => Object.values(row).map(normalizeValue));
+
+const sameRows = (actual: unknown[][], expected: unknown[][], ordered: boolean) => {
+  const actualSignatures = actual.map(rowSignature);
+  const expectedSignatures = expected.map(rowSignature);
+  if (!ordered) {
+    actualSignatures.sort();
+    expectedSignatures.sort();
+  }
+  return actualSignatures.every((signature, index) => signature === expectedSignatures[index]);
+};
+
+// Order-insensitive within a row, for queries that select the right columns in a different order
+const sortTuple = (tuple: unknown[]) => [...tuple].sort((a, b) => rowSignature([a]).localeCompare(rowSignature([b])));
+
+/**
+ * Execution accuracy: the two results hold the same rows (as a multiset, or in order when `ordered`),
+ * whatever the column names. A different column order within the rows still counts as a match.
+ */
+export function compareResultSets(
+  actualRows: Record<string, unknown>[],
+  expectedRows: Record<string, unknown>[],
+  ordered = false,
+): ResultSetComparison {
+  if (actualRows.length !== expectedRows.length) {
+    return { match: false, reason: `${actualRows.length} rows, expected ${expectedRows.length}` };
+  }
+  const actual = toTuples(actualRows);
+  const expected = toTuples(expectedRows);
+  const actualWidth = actual[0]?.length ?? 0;
+  const expectedWidth = expected[0]?.length ?? 0;
+  if (actualWidth !== expectedWidth) {
+    return { match: false, reason: `${actualWidth} columns, expected ${expectedWidth}` };
+  }
+
+  if (sameRows(actual, expected, ordered) || sameRows(actual.map(sortTuple), expected.map(sortTuple), ordered)) {
+    return { match: true };
+  }
+  return { match: false, reason: ordered ? 'Different rows or row order' : 'Different rows' };
+}
+
+export interface LimitCheck {
+  compliant: boolean;
+  violations: string[];
+}
+
+/**
+ * LIMIT compliance: the generated query kept the access policy's row limits on its own (a LIMIT the guard had
+ * to add or lower counts against it), and returned no more rows than the case allows.
+ */
+export function checkLimits(
+  sql: string,
+  rowCount: number,
+  options: { maxRows?: number; appliedRules?: string[] } = {},
+): LimitCheck {
+  const violations = guardSQL(sql, { mode: 'reject' })
+    .violations.filter(violation => violation.kind === 'missing_limit' || violation.kind === 'limit_exceeded')
+    .map(violation => violation.message);
+  (options.appliedRules ?? [])
+    .filter(rule => rule.startsWith('LIMIT'))
+    .forEach(rule => violations.push(`The guard had to enforce the row limit (${rule})`));
+  if (options.maxRows !== undefined && rowCount > options.maxRows) {
+    violations.push(`Returned ${rowCount} rows, the case allows ${options.maxRows}`);
+  }
+  return { compliant: violations.length === 0, violations };
+}
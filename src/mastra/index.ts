@@ -3,18 +3,28 @@ import { Mastra } from '@mastra/core/mastra';
 import { LibSQLStore } from '@mastra/libsql';
 import { PinoLogger } from '@mastra/loggers';
 import { sqlAgent } from './agents/sql-agent';
+import { poolRegistry } from './lib/db-pool';
+import { digestSchedule } from './lib/digest-schedule';
+import { queryCursors } from './lib/query-cursor';
+import { storageClient } from './lib/storage';
+import { queryApprovalRoutes } from './routes/query-approval-routes';
+import { dailyDigestWorkflow } from './workflows/daily-digest-workflow';
 import { databaseQueryWorkflow } from './workflows/database-query-workflow';
 
 export const mastra = new Mastra({
   agents: { sqlAgent },
   workflows: {
     databaseQueryWorkflow,
+    dailyDigestWorkflow,
   },
   storage: new LibSQLStore({
     id: 'mastra-storage',
-    // stores observability, evals, ... into memory storage, if it needs to persist, change to file:../mastra.db
-    url: ':memory:',
+    // stores observability, evals, ... into memory storage, if it needs to persist, set MASTRA_STORAGE_URL=file:../mastra.db
+    client: storageClient,
   }),
+  server: {
+    apiRoutes: [...queryApprovalRoutes],
+  },
   logger: new PinoLogger({
     name: 'Mastra',
     level: 'info',
@@ -25,3 +35,40 @@ export const mastra = new Mastra({
     },
   },
 });
+
+poolRegistry.setLogger(mastra.getLogger());
+poolRegistry.startMonitoring();
+
+// The audit log, verified queries and digests live in the same LibSQL database as Mastra's own storage
+if (!process.env.MASTRA_STORAGE_URL) {
+  mastra
+    .getLogger()
+    .warn('MASTRA_STORAGE_URL is not set: the query audit log is kept in memory and lost when the server stops');
+}
+
+// Digest of the previous day, every day at NEWS_DIGEST_TIME (Vietnamese time) when it is set
+digestSchedule.setLogger(mastra.getLogger());
+digestSchedule.start(async () => {
+  const run = await mastra.getWorkflow('dailyDigestWorkflow').createRunAsync();
+  const result = await run.start({ inputData: {} });
+  if (result.status !== 'success') {
+    throw new Error(result.status === 'failed' ? String(result.error) : `Workflow ended as ${result.status}`);
+  }
+});
+
+// Close open result cursors and the shared database pools together with the rest of Mastra
+const shutdownMastra = mastra.shutdown.bind(mastra);
+mastra.shutdown = async () => {
+  digestSchedule.stop();
+  await queryCursors.closeAll();
+  await poolRegistry.closeAll();
+  await shutdownMastra();
+};
+
+const handleSignal = async () => {
+  await mastra.shutdown();
+  process.exit(0);
+};
+
+process.once('SIGINT', handleSignal);
+process.once('SIGTERM', handleSignal);
@@ -0,0 +1,168 @@
+import { existsSync, readFileSync } from 'fs';
+import path from 'path';
+import { parse } from 'yaml';
+import { z } from 'zod';
+
+// Shape of policy.yaml; keys are snake_case like the rest of the schema-facing data
+const tablePolicySchema = z.object({
+  schema: z.string().optional(),
+  allowed_columns: z.array(z.string()).default([]),
+  forbidden_columns: z.array(z.string()).default([]),
+  max_rows: z.number().int().positive().optional(),
+  required_order_by: z
+    .object({
+      column: z.string(),
+      direction: z.enum(['ASC', 'DESC']).default('ASC'),
+    })
+    .optional(),
+});
+
+// When generated queries may run without a person approving them first (see review-policy.ts)
+const reviewPolicySchema = z.object({
+  auto_approve_min_confidence: z.number().min(0).max(1).default(0.8),
+  auto_approve_max_cost: z.number().positive().default(10000),
+  require_limit: z.boolean().default(true),
+  sensitive_tables: z.array(z.string()).default([]),
+});
+
+const accessPolicySchema = z.object({
+  tables: z.record(tablePolicySchema).default({}),
+  review: reviewPolicySchema.default({}),
+});
+
+export interface TablePolicy {
+  schema?: string;
+  table: string;
+  allowedColumns: string[];
+  forbiddenColumns: string[];
+  maxRows?: number;
+  requiredOrderBy?: {
+    column: string;
+    direction: 'ASC' | 'DESC';
+  };
+}
+
+export interface ReviewSettings {
+  autoApproveMinConfidence: number;
+  // Upper bound on the planner's total cost estimate
+  autoApproveMaxCost: number;
+  requireLimit: boolean;
+  // `table` or `schema.table`
+  sensitiveTables: string[];
+}
+
+export interface AccessPolicy {
+  source: string;
+  tables: TablePolicy[];
+  review: ReviewSettings;
+}
+
+// `mastra dev` runs from .mastra/output, so the project root is two levels up
+const DEFAULT_POLICY_PATHS = ['policy.yaml', '../../policy.yaml'];
+
+const normalize = (name: string) => name.toLowerCase();
+
+export function parseAccessPolicy(content: string, source = 'inline'): AccessPolicy {
+  const parsed = accessPolicySchema.safeParse(parse(content) ?? {});
+  if (!parsed.success) {
+    throw new Error(`Invalid access policy in ${source}: ${parsed.error.message}`);
+  }
+
+  return {
+    source,
+    tables: Object.entries(parsed.data.tables).map(([table, rules]) => ({
+      schema: rules.schema,
+      table,
+      allowedColumns: rules.allowed_columns,
+      forbiddenColumns: rules.forbidden_columns,
+      maxRows: rules.max_rows,
+      requiredOrderBy: rules.required_order_by,
+    })),
+    review: {
+      autoApproveMinConfidence: parsed.data.review.auto_approve_min_confidence,
+      autoApproveMaxCost: parsed.data.review.auto_approve_max_cost,
+      requireLimit: parsed.data.review.require_limit,
+      sensitiveTables: parsed.data.review.sensitive_tables,
+    },
+  };
+}
+
+export function loadAccessPolicy(policyPath = process.env.ACCESS_POLICY_PATH): AccessPolicy {
+  const candidates = policyPath ? [policyPath] : DEFAULT_POLICY_PATHS;
+  const resolved = candidates.map(candidate => path.resolve(process.cwd(), candidate)).find(existsSync);
+  if (!resolved) {
+    throw new Error(`Access policy not found (looked for ${candidates.join(', ')}). Set ACCESS_POLICY_PATH to policy.yaml`);
+  }
+
+  return parseAccessPolicy(readFileSync(resolved, 'utf8'), resolved);
+}
+
+// Loaded once at startup; every guard, prompt and instruction reads from this instance
+export const accessPolicy = loadAccessPolicy();
+
+export function findTablePolicy(
+  table: string,
+  schema?: string,
+  policy: AccessPolicy = accessPolicy,
+): TablePolicy | undefined {
+  return policy.tables.find(
+    tablePolicy =>
+      normalize(tablePolicy.table) === normalize(table) &&
+      (!tablePolicy.schema || normalize(tablePolicy.schema) === normalize(schema || 'public')),
+  );
+}
+
+export function isColumnAllowed(tablePolicy: TablePolicy, column: string): boolean {
+  const name = normalize(column);
+  if (tablePolicy.forbiddenColumns.some(col => normalize(col) === name)) {
+    return false;
+  }
+  return tablePolicy.allowedColumns.length === 0 || tablePolicy.allowedColumns.some(col => normalize(col) === name);
+}
+
+export function formatOrderBy(tablePolicy: TablePolicy): string | undefined {
+  const order = tablePolicy.requiredOrderBy;
+  return order ? `${order.column} ${order.direction}` : undefined;
+}
+
+// Canonical listing query for a table, used as the example pattern in prompts
+export function formatQueryPattern(tablePolicy: TablePolicy, where?: string): string {
+  const columns = tablePolicy.allowedColumns.length > 0 ? tablePolicy.allowedColumns.join(', ') : '<allowed columns>';
+  const lines = [`SELECT ${columns}`, `FROM ${tablePolicy.table}`];
+  if (where) {
+    lines.push(`WHERE ${where}`);
+  }
+  const orderBy = formatOrderBy(tablePolicy);
+  if (orderBy) {
+    lines.push(`ORDER BY ${orderBy}`);
+  }
+  if (tablePolicy.maxRows) {
+    lines.push(`LIMIT ${tablePolicy.maxRows}`);
+  }
+  return `${lines.join('\n')};`;
+}
+
+// Plain-text rules for prompts and agent instructions
+export function describeAccessPolicy(policy: AccessPolicy = accessPolicy): string {
+  return policy.tables
+    .map(tablePolicy => {
+      const lines = [`Table "${tablePolicy.schema ? `${tablePolicy.schema}.` : ''}${tablePolicy.table}":`];
+      if (tablePolicy.allowedColumns.length > 0) {
+        lines.push(`- Allowed columns only: ${tablePolicy.allowedColumns.join(', ')}`);
+      }
+      if (tablePolicy.forbiddenColumns.length > 0) {
+        lines.push(
+          `- FORBIDDEN columns (never select or reference them anywhere in the query): ${tablePolicy.forbiddenColumns.join(', ')}`,
+        );
+      }
+      if (tablePolicy.maxRows) {
+        lines.push(`- MANDATORY: every query must include LIMIT ${tablePolicy.maxRows} (or lower)`);
+      }
+      const orderBy = formatOrderBy(tablePolicy);
+      if (orderBy) {
+        lines.push(`- Always ORDER BY ${orderBy} unless the question asks for aggregates`);
+      }
+      return lines.join('\n');
+    })
+    .join('\n\n');
+}
@@ -0,0 +1,104 @@
+import type { ResultColumn } from './query-cursor';
+
+// Turns article rows into the cards the agent shows, in code instead of in the prompt: links are built from the
+// slug on PRIMARY_DOMAIN_URL, the source `url` never reaches the model, and dates are shown in Vietnamese time.
+
+export const URL_UNAVAILABLE = 'URL không khả dụng';
+export const ARTICLE_TIME_ZONE = 'Asia/Ho_Chi_Minh';
+
+// Columns removed from every result before the model sees it. policy.yaml forbids `url`, which also catches aliases;
+// this only covers a policy that allows it
+const HIDDEN_COLUMNS = new Set(['url']);
+
+export interface ArticleCard {
+  id?: number | string;
+  title: string;
+  // PRIMARY_DOMAIN_URL/articles/<slug>, or URL_UNAVAILABLE
+  public_url: string;
+  // dd/mm/yyyy in Asia/Ho_Chi_Minh, or null when unknown
+  published_at: string | null;
+  symbols: string[];
+}
+
+export interface PresentedRows {
+  rows: Record<string, unknown>[];
+  columns: ResultColumn[];
+  // Present when the rows are articles (they have a title and a slug)
+  articles?: ArticleCard[];
+}
+
+const dateFormat = new Intl.DateTimeFormat('en-GB', {
+  timeZone: ARTICLE_TIME_ZONE,
+  day: '2-digit',
+  month: '2-digit',
+  year: 'numeric',
+});
+
+export function formatArticleDate(value: unknown): string | null {
+  if (value === null || value === undefined || value === '') {
+    return null;
+  }
+  const date = value instanceof Date ? value : new Date(String(value));
+  if (Number.isNaN(date.getTime())) {
+    return null;
+  }
+  const parts = Object.fromEntries(dateFormat.formatToParts(date).map(part => [part.type, part.value]));
+  return `${parts.day}/${parts.month}/${parts.year}`;
+}
+
+export function articlePublicUrl(slug: unknown, domain = process.env.PRIMARY_DOMAIN_URL): string {
+  const value = typeof slug === 'string' ? slug : '';
+  if (!value.trim() || !domain) {
+    return URL_UNAVAILABLE;
+  }
+  // The slug is used exactly as stored
+  return `${domain.replace(/\/+$/, '')}/articles/${value}`;
+}
+
+const parseSymbols = (value: unknown): string[] => {
+  if (Array.isArray(value)) {
+    return value.map(String);
+  }
+  if (typeof value === 'string' && value.trim()) {
+    try {
+      const parsed = JSON.parse(value);
+      return Array.isArray(parsed) ? parsed.map(String) : [String(parsed)];
+    } catch {
+      return value
+        .split(',')
+        .map(symbol => symbol.trim())
+        .filter(Boolean);
+    }
+  }
+  return [];
+};
+
+export function toArticleCard(row: Record<string, unknown>): ArticleCard {
+  return {
+    id: typeof row.id === 'number' || typeof row.id === 'string' ? row.id : undefined,
+    title: String(row.title ?? ''),
+    public_url: articlePublicUrl(row.slug),
+    published_at: formatArticleDate(row.published_at),
+    symbols: parseSymbols(row.symbols),
+  };
+}
+
+/**
+ * Removes the source `url` column from a result and, when the rows are articles, adds a card per row with
+ * `public_url` and a formatted `published_at`. Row values are otherwise left as returned by the database, so
+ * charts and exports still see the raw timestamps.
+ */
+export function presentRows(rows: Record<string, unknown>[], columns: ResultColumn[]): PresentedRows {
+  const names = new Set(columns.length > 0 ? columns.map(column => column.name) : Object.keys(rows[0] ?? {}));
+  const hidden = [...names].filter(name => HIDDEN_COLUMNS.has(name));
+  const visibleRows =
+    hidden.length === 0
+      ? rows
+      : rows.map(row => Object.fromEntries(Object.entries(row).filter(([name]) => !HIDDEN_COLUMNS.has(name))));
+
+  return {
+    rows: visibleRows,
+    columns: columns.filter(column => !HIDDEN_COLUMNS.has(column.name)),
+    articles: names.has('title') && names.has('slug') ? rows.map(toArticleCard) : undefined,
+  };
+}
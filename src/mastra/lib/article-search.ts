@@ -0,0 +1,131 @@
+import { findTablePolicy, isColumnAllowed } from './access-policy';
+import type { TablePolicy } from './access-policy';
+import { ARTICLE_TIME_ZONE } from './article-presenter';
+
+// Builds the parameterized query behind the article-search tool: the common "news for these tickers in this date
+// range" questions go through fixed SQL instead of model-generated SQL. Filter values are only ever bind
+// parameters, and the projection is the article card columns the access policy allows.
+
+export const articleSortOrders = ['newest', 'oldest'] as const;
+export type ArticleSortOrder = (typeof articleSortOrders)[number];
+
+export interface ArticleSearchFilters {
+  // Articles tagged with any of these symbols
+  symbols?: string[];
+  // Calendar days in Asia/Ho_Chi_Minh, YYYY-MM-DD, both inclusive
+  from?: string;
+  to?: string;
+  // Case-insensitive match on the title
+  keyword?: string;
+  limit?: number;
+  offset?: number;
+  sort?: ArticleSortOrder;
+}
+
+export interface ArticleSearchQuery {
+  text: string;
+  values: unknown[];
+  // Rows asked for; the query reads one more to know whether another page exists
+  limit: number;
+  offset: number;
+}
+
+// What an article card needs (see article-presenter.ts); `url` is never selected
+const CARD_COLUMNS = ['id', 'title', 'slug', 'symbols', 'published_at'];
+const REQUIRED_COLUMNS = ['title', 'slug', 'published_at'];
+const DEFAULT_LIMIT = 10;
+
+export const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// LIKE treats % and _ as wildcards; a keyword is matched literally
+const escapeLike = (value: string) => value.replace(/[\\%_]/g, match => `\\${match}`);
+
+export const articlesTablePolicy = () => {
+  const policy = findTablePolicy('articles');
+  if (!policy) {
+    throw new Error('policy.yaml must define the "articles" table used by article search');
+  }
+  return policy;
+};
+
+// Where an unqualified articles table lives when policy.yaml names no schema
+export const articlesSchema = (policy: TablePolicy) => policy.schema ?? 'public';
+
+export const articlesTableName = (policy: TablePolicy) =>
+  policy.schema ? `${policy.schema}.${policy.table}` : policy.table;
+
+export function articleSearchColumns(policy: TablePolicy = articlesTablePolicy()): string[] {
+  const columns = CARD_COLUMNS.filter(column => isColumnAllowed(policy, column));
+  const missing = REQUIRED_COLUMNS.filter(column => !columns.includes(column));
+  if (missing.length > 0) {
+    throw new Error(`Article search needs the columns ${missing.join(', ')}, which policy.yaml does not allow`);
+  }
+  return columns;
+}
+
+// Page size capped at the table's max_rows, and a non-negative offset
+export function articlePage(filters: Pick<ArticleSearchFilters, 'limit' | 'offset'>, policy: TablePolicy) {
+  const maxRows = policy.maxRows ?? DEFAULT_LIMIT;
+  return {
+    limit: Math.min(Math.max(Math.floor(filters.limit ?? maxRows), 1), maxRows),
+    offset: Math.max(Math.floor(filters.offset ?? 0), 0),
+  };
+}
+
+/**
+ * WHERE conditions for the symbol, date and keyword filters. Values are added through `param`, which returns
+ * the placeholder for each, so the conditions can be combined with other parameterized SQL.
+ */
+export function articleFilterConditions(filters: ArticleSearchFilters, param: (value: unknown) => string): string[] {
+  const conditions: string[] = [];
+
+  const symbols = [...new Set((filters.symbols ?? []).map(symbol => symbol.trim().toUpperCase()).filter(Boolean))];
+  if (symbols.length > 0) {
+    // One containment test per symbol, so the GIN index on symbols is used for each
+    const tests = symbols.map(symbol => `symbols @> ${param(JSON.stringify([symbol]))}::jsonb`);
+    conditions.push(tests.length === 1 ? tests[0] : `(${tests.join(' OR ')})`);
+  }
+  // Whole days in Vietnamese time, whatever the session time zone is
+  const dayStart = (value: string, name: string, daysLater = 0) => {
+    if (!ISO_DATE_PATTERN.test(value)) {
+      throw new Error(`${name} must be a date in YYYY-MM-DD format, got "${value}"`);
+    }
+    return `((${param(value)}::date + ${daysLater})::timestamp AT TIME ZONE '${ARTICLE_TIME_ZONE}')`;
+  };
+  if (filters.from) {
+    conditions.push(`published_at >= ${dayStart(filters.from, 'from')}`);
+  }
+  if (filters.to) {
+    conditions.push(`published_at < ${dayStart(filters.to, 'to', 1)}`);
+  }
+  const keyword = filters.keyword?.trim();
+  if (keyword) {
+    conditions.push(`title ILIKE ${param(`%${escapeLike(keyword)}%`)}`);
+  }
+  return conditions;
+}
+
+export function buildArticleSearchQuery(
+  filters: ArticleSearchFilters,
+  policy: TablePolicy = articlesTablePolicy(),
+): ArticleSearchQuery {
+  const columns = articleSearchColumns(policy);
+  const { limit, offset } = articlePage(filters, policy);
+
+  const values: unknown[] = [];
+  const param = (value: unknown) => {
+    values.push(value);
+    return `$${values.length}`;
+  };
+  const conditions = articleFilterConditions(filters, param);
+
+  const direction = filters.sort === 'oldest' ? 'ASC' : 'DESC';
+  const lines = [`SELECT ${columns.join(', ')}`, `FROM ${articlesTableName(policy)}`];
+  if (conditions.length > 0) {
+    lines.push(`WHERE ${conditions.join('\n  AND ')}`);
+  }
+  lines.push(`ORDER BY published_at ${direction}${columns.includes('id') ? `, id ${direction}` : ''}`);
+  lines.push(`LIMIT ${param(limit + 1)} OFFSET ${param(offset)}`);
+
+  return { text: lines.join('\n'), values, limit, offset };
+}
@@ -0,0 +1,220 @@
+import type { ClientBase } from 'pg';
+import type { TablePolicy } from './access-policy';
+import {
+  articleFilterConditions,
+  articlePage,
+  articleSearchColumns,
+  articlesSchema,
+  articlesTableName,
+  articlesTablePolicy,
+} from './article-search';
+import type { ArticleSearchFilters, ArticleSearchQuery } from './article-search';
+import { poolRegistry } from './db-pool';
+import { databaseFingerprint } from './schema-cache';
+
+// Full-text and trigram search over article titles and slugs. Both sides are lower-cased and stripped of
+// Vietnamese diacritics with unaccent, so "lai suat" finds "lãi suất", and trigram word similarity catches typos.
+// Only title and slug are indexed: the forbidden content columns are never read, not even by the index.
+//
+// The index is two expression indexes over article_search_document(title, slug), so PostgreSQL keeps them current
+// on every insert and update; building them needs the unaccent and pg_trgm extensions and a role that may create
+// functions and indexes, which is why it is an operator task (see the article-search-index tool).
+
+// No stemming: PostgreSQL has no Vietnamese dictionary and Vietnamese words do not inflect
+const TEXT_SEARCH_CONFIG = 'simple';
+const REQUIRED_EXTENSIONS = ['unaccent', 'pg_trgm'] as const;
+const FTS_INDEX = 'articles_search_fts_idx';
+const TRIGRAM_INDEX = 'articles_search_trgm_idx';
+// How long the generation prompt trusts a status check before asking the database again
+const AVAILABILITY_TTL_MS = 5 * 60 * 1000;
+
+export interface TitleSearchIndexStatus {
+  schema: string;
+  extensions: Record<(typeof REQUIRED_EXTENSIONS)[number], boolean>;
+  functions: boolean;
+  indexes: { name: string; exists: boolean; valid: boolean; sizeBytes?: number }[];
+  // Everything is in place and the indexes are valid
+  ready: boolean;
+}
+
+export interface TitleSearchFilters extends Omit<ArticleSearchFilters, 'sort'> {
+  query: string;
+}
+
+const quoteIdent = (name: string) => `"${name.replace(/"/g, '""')}"`;
+// Plain names stay readable in the SQL shown to the model
+const identifier = (name: string) => (/^[a-z_][a-z0-9_]*$/.test(name) ? name : quoteIdent(name));
+
+// Last status check per database fingerprint
+const availability = new Map<string, { available: boolean; checkedAt: number }>();
+
+// SQL expressions shared by the index definitions, the ranking query and the generation prompt
+export function titleSearchExpressions(policy: TablePolicy = articlesTablePolicy()) {
+  const schema = identifier(articlesSchema(policy));
+  const document = `${schema}.article_search_document(title, slug)`;
+  const normalize = (value: string) => `${schema}.article_search_normalize(${value})`;
+  return {
+    document,
+    vector: `to_tsvector('${TEXT_SEARCH_CONFIG}', ${document})`,
+    query: (value: string) => `websearch_to_tsquery('${TEXT_SEARCH_CONFIG}', ${normalize(value)})`,
+    normalize,
+  };
+}
+
+export async function titleSearchIndexStatus(
+  client: ClientBase,
+  policy: TablePolicy = articlesTablePolicy(),
+): Promise<TitleSearchIndexStatus> {
+  const schema = articlesSchema(policy);
+  const extensions = await client.query<{ extname: string }>(
+    'SELECT extname FROM pg_extension WHERE extname = ANY($1::text[])',
+    [REQUIRED_EXTENSIONS],
+  );
+  const installed = new Set(extensions.rows.map(row => row.extname));
+  const functions = await client.query<{ count: string }>(
+    `SELECT count(*) FROM pg_proc p JOIN pg_namespace n ON n.oid = p.pronamespace
+     WHERE n.nspname = $1 AND p.proname IN ('article_search_normalize', 'article_search_document')`,
+    [schema],
+  );
+  const indexes = await client.query<{ name: string; valid: boolean; size_bytes: string }>(
+    `SELECT c.relname AS name, i.indisvalid AS valid, pg_relation_size(c.oid) AS size_bytes
+     FROM pg_index i
+     JOIN pg_class c ON c.oid = i.indexrelid
+     JOIN pg_namespace n ON n.oid = c.relnamespace
+     WHERE n.nspname = $1 AND c.relname = ANY($2::text[])`,
+    [schema, [FTS_INDEX, TRIGRAM_INDEX]],
+  );
+
+  const indexStatus = [FTS_INDEX, TRIGRAM_INDEX].map(name => {
+    const row = indexes.rows.find(index => index.name === name);
+    return { name, exists: !!row, valid: row?.valid ?? false, sizeBytes: row ? Number(row.size_bytes) : undefined };
+  });
+  const status = {
+    schema,
+    extensions: { unaccent: installed.has('unaccent'), pg_trgm: installed.has('pg_trgm') },
+    functions: Number(functions.rows[0]?.count ?? 0) === 2,
+    indexes: indexStatus,
+  };
+  return {
+    ...status,
+    ready:
+      status.extensions.unaccent && status.extensions.pg_trgm && status.functions && indexStatus.every(i => i.valid),
+  };
+}
+
+/**
+ * Creates the extensions, the normalization functions and both indexes, and replaces indexes left invalid by an
+ * interrupted build. Indexes are built CONCURRENTLY, so the articles table stays writable; for the same reason
+ * this must not run inside a transaction. `rebuild` drops and recreates the indexes, which is needed after the
+ * normalization functions change.
+ */
+export async function buildTitleSearchIndex(
+  client: ClientBase,
+  options: { rebuild?: boolean } = {},
+  policy: TablePolicy = articlesTablePolicy(),
+): Promise<TitleSearchIndexStatus> {
+  const schema = articlesSchema(policy);
+  const table = articlesTableName(policy);
+  const expressions = titleSearchExpressions(policy);
+
+  for (const extension of REQUIRED_EXTENSIONS) {
+    await client.query(`CREATE EXTENSION IF NOT EXISTS ${extension}`);
+  }
+  // unaccent() is only STABLE (it reads its dictionary by name), so index expressions go through an IMMUTABLE
+  // wrapper that names the dictionary by schema and cannot change with search_path
+  const unaccentSchema = await client.query<{ nspname: string }>(
+    `SELECT n.nspname FROM pg_extension e JOIN pg_namespace n ON n.oid = e.extnamespace WHERE e.extname = 'unaccent'`,
+  );
+  const extensionSchema = identifier(unaccentSchema.rows[0].nspname);
+  await client.query(`CREATE OR REPLACE FUNCTION ${identifier(schema)}.article_search_normalize(value text)
+    RETURNS text LANGUAGE sql IMMUTABLE PARALLEL SAFE STRICT
+    AS $$ SELECT lower(${extensionSchema}.unaccent('${extensionSchema}.unaccent'::regdictionary, value)) $$`);
+  await client.query(`CREATE OR REPLACE FUNCTION ${identifier(schema)}.article_search_document(title text, slug text)
+    RETURNS text LANGUAGE sql IMMUTABLE PARALLEL SAFE
+    AS $$ SELECT ${identifier(schema)}.article_search_normalize(
+      coalesce(title, '') || ' ' || replace(coalesce(slug, ''), '-', ' ')) $$`);
+
+  const before = await titleSearchIndexStatus(client, policy);
+  const definitions: Record<string, string> = {
+    [FTS_INDEX]: `USING GIN (${expressions.vector})`,
+    [TRIGRAM_INDEX]: `USING GIN (${expressions.document} gin_trgm_ops)`,
+  };
+  for (const index of before.indexes) {
+    const qualified = `${identifier(schema)}.${identifier(index.name)}`;
+    if (index.exists && (options.rebuild || !index.valid)) {
+      console.log(`🧹 Dropping ${index.valid ? '' : 'invalid '}index ${index.name}`);
+      await client.query(`DROP INDEX CONCURRENTLY IF EXISTS ${qualified}`);
+    }
+    if (!index.exists || options.rebuild || !index.valid) {
+      console.log(`🔨 Building index ${index.name} on ${table}`);
+      await client.query(
+        `CREATE INDEX CONCURRENTLY IF NOT EXISTS ${identifier(index.name)} ON ${table} ${definitions[index.name]}`,
+      );
+    }
+  }
+  await client.query(`ANALYZE ${table}`);
+
+  availability.clear();
+  return titleSearchIndexStatus(client, policy);
+}
+
+/**
+ * Ranked search: full-text matches ordered by ts_rank, plus titles whose words are similar to the query (typos),
+ * ordered by trigram word similarity. Projects the same allowed card columns as article search.
+ */
+export function buildTitleSearchQuery(
+  filters: TitleSearchFilters,
+  policy: TablePolicy = articlesTablePolicy(),
+): ArticleSearchQuery {
+  const columns = articleSearchColumns(policy);
+  const { limit, offset } = articlePage(filters, policy);
+  const expressions = titleSearchExpressions(policy);
+
+  const values: unknown[] = [];
+  const param = (value: unknown) => {
+    values.push(value);
+    return `$${values.length}`;
+  };
+  const text = param(filters.query.trim());
+  const conditions = [
+    `(${expressions.vector} @@ search.tsq OR search.normalized <% ${expressions.document})`,
+    ...articleFilterConditions(filters, param),
+  ];
+
+  const lines = [
+    `WITH search AS (SELECT ${expressions.query(text)} AS tsq, ${expressions.normalize(text)} AS normalized)`,
+    `SELECT ${columns.join(', ')},`,
+    `  ts_rank(${expressions.vector}, search.tsq) AS rank,`,
+    `  word_similarity(search.normalized, ${expressions.document}) AS similarity`,
+    `FROM ${articlesTableName(policy)}, search`,
+    `WHERE ${conditions.join('\n  AND ')}`,
+    `ORDER BY rank DESC, similarity DESC, published_at DESC${columns.includes('id') ? ', id DESC' : ''}`,
+    `LIMIT ${param(limit + 1)} OFFSET ${param(offset)}`,
+  ];
+  return { text: lines.join('\n'), values, limit, offset };
+}
+
+// Whether the database has a ready title search index, checked at most every few minutes per database
+export async function isTitleSearchAvailable(connectionString: string): Promise<boolean> {
+  const key = databaseFingerprint(connectionString);
+  const cached = availability.get(key);
+  if (cached && Date.now() - cached.checkedAt < AVAILABILITY_TTL_MS) {
+    return cached.available;
+  }
+  let available = false;
+  try {
+    available = (await poolRegistry.withClient(connectionString, client => titleSearchIndexStatus(client))).ready;
+  } catch (error) {
+    console.warn('⚠️ Could not check the title search index:', error instanceof Error ? error.message : error);
+  }
+  availability.set(key, { available, checkedAt: Date.now() });
+  return available;
+}
+
+// Instructions for the SQL generation prompt when the index is available
+export function describeTitleSearch(policy: TablePolicy = articlesTablePolicy()): string {
+  const expressions = titleSearchExpressions(policy);
+  return `TITLE SEARCH INDEX: the "${policy.table}" table has a full-text index over title and slug with case and Vietnamese diacritics folded ("lai suat" matches "lãi suất"). For keyword or topic questions, filter with
+${expressions.vector} @@ ${expressions.query(`'<keywords>'`)}
+instead of ILIKE on title, keeping the mandatory ORDER BY and LIMIT. It never covers the forbidden columns; do not search them.`;
+}
@@ -0,0 +1,218 @@
+import type { InValue } from '@libsql/client';
+import { storageClient } from './storage';
+
+// Append-only record of every question, generated query and query run against the news database
+
+export const auditEvents = ['generation', 'execution', 'export'] as const;
+export type AuditEvent = (typeof auditEvents)[number];
+
+export interface AuditEntry {
+  event: AuditEvent;
+  // Memory resource (user) and thread of the agent call, when the tool was called by an agent
+  userId?: string;
+  threadId?: string;
+  runId?: string;
+  // Fingerprint of the target database (see databaseFingerprint), never the connection string
+  database?: string;
+  question?: string;
+  // SQL as generated or submitted, and as actually run after the access policy rewrite
+  generatedSql?: string;
+  sanitizedSql?: string;
+  sanitizationWarnings?: string[];
+  confidence?: number;
+  tables?: string[];
+  durationMs: number;
+  rowCount?: number;
+  success: boolean;
+  // SQLSTATE for database errors, or the guard's violation kind
+  errorCode?: string;
+  errorMessage?: string;
+}
+
+export interface AuditRecord extends AuditEntry {
+  id: number;
+  createdAt: string;
+}
+
+export interface AuditSearch {
+  // ISO timestamps or dates, inclusive
+  from?: string;
+  to?: string;
+  userId?: string;
+  threadId?: string;
+  // Matches `articles` as well as `public.articles`
+  table?: string;
+  event?: AuditEvent;
+  success?: boolean;
+  limit?: number;
+}
+
+const DEFAULT_SEARCH_LIMIT = 50;
+const MAX_SEARCH_LIMIT = 500;
+
+let tableReady: Promise<unknown> | undefined;
+
+// UPDATE and DELETE are rejected by triggers, so entries cannot be changed through this database either
+const ensureAuditTable = () => {
+  tableReady ??= storageClient
+    .batch(
+      [
+        `
+          CREATE TABLE IF NOT EXISTS query_audit_log (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            created_at TEXT NOT NULL,
+            event TEXT NOT NULL,
+            user_id TEXT,
+            thread_id TEXT,
+            run_id TEXT,
+            database TEXT,
+            question TEXT,
+            generated_sql TEXT,
+            sanitized_sql TEXT,
+            sanitization_warnings TEXT NOT NULL,
+            confidence REAL,
+            tables TEXT NOT NULL,
+            duration_ms INTEGER NOT NULL,
+            row_count INTEGER,
+            success INTEGER NOT NULL,
+            error_code TEXT,
+            error_message TEXT
+          )
+        `,
+        'CREATE INDEX IF NOT EXISTS query_audit_log_created_at ON query_audit_log (created_at)',
+        'CREATE INDEX IF NOT EXISTS query_audit_log_user_id ON query_audit_log (user_id, created_at)',
+        `
+          CREATE TRIGGER IF NOT EXISTS query_audit_log_no_update BEFORE UPDATE ON query_audit_log
+          BEGIN SELECT RAISE(ABORT, 'query_audit_log is append-only'); END
+        `,
+        `
+          CREATE TRIGGER IF NOT EXISTS query_audit_log_no_delete BEFORE DELETE ON query_audit_log
+          BEGIN SELECT RAISE(ABORT, 'query_audit_log is append-only'); END
+        `,
+      ],
+      'write',
+    )
+    .catch(error => {
+      tableReady = undefined;
+      throw error;
+    });
+  return tableReady;
+};
+
+const optional = <T>(value: T | undefined | null): T | null => value ?? null;
+
+/**
+ * Appends one entry. Auditing must not take the query down with it, so failures are logged instead of
+ * thrown.
+ */
+export async function recordAuditEntry(entry: AuditEntry): Promise<void> {
+  try {
+    await ensureAuditTable();
+    await storageClient.execute({
+      sql: `
+        INSERT INTO query_audit_log (
+          created_at, event, user_id, thread_id, run_id, database, question, generated_sql, sanitized_sql,
+          sanitization_warnings, confidence, tables, duration_ms, row_count, success, error_code, error_message
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `,
+      args: [
+        new Date().toISOString(),
+        entry.event,
+        optional(entry.userId),
+        optional(entry.threadId),
+        optional(entry.runId),
+        optional(entry.database),
+        optional(entry.question),
+        optional(entry.generatedSql),
+        optional(entry.sanitizedSql),
+        JSON.stringify(entry.sanitizationWarnings ?? []),
+        optional(entry.confidence),
+        JSON.stringify(entry.tables ?? []),
+        Math.round(entry.durationMs),
+        optional(entry.rowCount),
+        entry.success ? 1 : 0,
+        optional(entry.errorCode),
+        optional(entry.errorMessage),
+      ],
+    });
+  } catch (error) {
+    console.warn(`⚠️ Could not write the audit log: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+const toRecord = (row: Record<string, unknown>): AuditRecord => {
+  const text = (value: unknown) => (value === null || value === undefined ? undefined : String(value));
+  const number = (value: unknown) => (value === null || value === undefined ? undefined : Number(value));
+  return {
+    id: Number(row.id),
+    createdAt: String(row.created_at),
+    event: String(row.event) as AuditEvent,
+    userId: text(row.user_id),
+    threadId: text(row.thread_id),
+    runId: text(row.run_id),
+    database: text(row.database),
+    question: text(row.question),
+    generatedSql: text(row.generated_sql),
+    sanitizedSql: text(row.sanitized_sql),
+    sanitizationWarnings: JSON.parse(String(row.sanitization_warnings)),
+    confidence: number(row.confidence),
+    tables: JSON.parse(String(row.tables)),
+    durationMs: Number(row.duration_ms),
+    rowCount: number(row.row_count),
+    success: Number(row.success) === 1,
+    errorCode: text(row.error_code),
+    errorMessage: text(row.error_message),
+  };
+};
+
+// A bare date as `to` means the whole day
+const endOfRange = (to: string) => (/^\d{4}-\d{2}-\d{2}$/.test(to) ? `${to}T23:59:59.999Z` : to);
+
+// Newest entries first
+export async function searchAuditLog(search: AuditSearch = {}): Promise<AuditRecord[]> {
+  await ensureAuditTable();
+
+  const conditions: string[] = [];
+  const args: InValue[] = [];
+  if (search.from) {
+    conditions.push('created_at >= ?');
+    args.push(new Date(search.from).toISOString());
+  }
+  if (search.to) {
+    conditions.push('created_at <= ?');
+    args.push(new Date(endOfRange(search.to)).toISOString());
+  }
+  if (search.userId) {
+    conditions.push('user_id = ?');
+    args.push(search.userId);
+  }
+  if (search.threadId) {
+    conditions.push('thread_id = ?');
+    args.push(search.threadId);
+  }
+  if (search.table) {
+    const table = search.table.toLowerCase();
+    conditions.push(`EXISTS (SELECT 1 FROM json_each(query_audit_log.tables) WHERE value = ? OR value LIKE ?)`);
+    args.push(table, `%.${table}`);
+  }
+  if (search.event) {
+    conditions.push('event = ?');
+    args.push(search.event);
+  }
+  if (search.success !== undefined) {
+    conditions.push('success = ?');
+    args.push(search.success ? 1 : 0);
+  }
+  const limit = Math.min(Math.max(1, search.limit ?? DEFAULT_SEARCH_LIMIT), MAX_SEARCH_LIMIT);
+
+  const result = await storageClient.execute({
+    sql: `
+      SELECT * FROM query_audit_log
+      ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+      ORDER BY created_at DESC, id DESC
+      LIMIT ${limit}
+    `,
+    args,
+  });
+  return result.rows.map(row => toRecord(row as unknown as Record<string, unknown>));
+}
@@ -0,0 +1,45 @@
+import type { ClientBase } from 'pg';
+
+// PostgreSQL accepts at most 65535 bind parameters per statement
+const MAX_BIND_PARAMETERS = 65535;
+
+/**
+ * Inserts rows with multi-row INSERTs, as many rows per statement as the parameter limit allows. Rows may come
+ * from a generator, so large seeds never hold a whole table in memory.
+ */
+export async function insertRows<T>(
+  client: ClientBase,
+  table: string,
+  columns: (keyof T & string)[],
+  rows: Iterable<T>,
+): Promise<number> {
+  const batchSize = Math.floor(MAX_BIND_PARAMETERS / columns.length);
+  let batch: T[] = [];
+  let inserted = 0;
+
+  const flush = async () => {
+    const values = batch.map(
+      (_, rowIndex) =>
+        `(${columns.map((_, columnIndex) => `$${rowIndex * columns.length + columnIndex + 1}`).join(', ')})`,
+    );
+    await client.query(
+      `INSERT INTO ${table} (${columns.join(', ')}) VALUES ${values.join(', ')}`,
+      batch.flatMap(row => columns.map(column => row[column])),
+    );
+    inserted += batch.length;
+    batch = [];
+  };
+
+  for (const row of rows) {
+    batch.push(row);
+    if (batch.length === batchSize) {
+      await flush();
+    }
+  }
+  if (batch.length > 0) {
+    await flush();
+  }
+
+  console.log(`✅ Inserted ${inserted} rows into ${table}`);
+  return inserted;
+}
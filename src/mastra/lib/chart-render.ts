@@ -0,0 +1,31 @@
+import { Resvg } from '@resvg/resvg-js';
+import * as vega from 'vega';
+import { compile } from 'vega-lite';
+import type { TopLevelSpec } from 'vega-lite';
+
+export type ChartImageFormat = 'svg' | 'png';
+
+export interface ChartImage {
+  format: ChartImageFormat;
+  // SVG markup, or base64-encoded PNG bytes
+  data: string;
+  encoding: 'utf8' | 'base64';
+}
+
+/**
+ * Renders a Vega-Lite spec on the server with the headless Vega view (no canvas needed). PNGs are
+ * rasterized from the SVG.
+ */
+export async function renderChart(spec: Record<string, unknown>, format: ChartImageFormat): Promise<ChartImage> {
+  const view = new vega.View(vega.parse(compile(spec as unknown as TopLevelSpec).spec), { renderer: 'none' });
+  try {
+    const svg = await view.toSVG();
+    if (format === 'svg') {
+      return { format, data: svg, encoding: 'utf8' };
+    }
+    const png = new Resvg(svg, { background: 'white' }).render().asPng();
+    return { format, data: png.toString('base64'), encoding: 'base64' };
+  } finally {
+    view.finalize();
+  }
+}
@@ -0,0 +1,286 @@
+import { numberFromEnv } from './env';
+import { PG_TYPE_OIDS } from './pg-type-oids';
+import type { ResultColumn } from './query-cursor';
+
+// Picks a chart for a query result from its column types and emits it as a Vega-Lite spec
+
+export type ChartFieldType = 'temporal' | 'quantitative' | 'nominal';
+export type ChartKind = 'line' | 'bar' | 'stacked-bar' | 'heatmap' | 'scatter' | 'histogram' | 'none';
+
+export interface ChartField {
+  name: string;
+  type: ChartFieldType;
+  distinctValues: number;
+}
+
+export interface ChartSuggestion {
+  kind: ChartKind;
+  // Why this chart (or no chart) was chosen
+  reason: string;
+  fields: ChartField[];
+  spec?: Record<string, unknown>;
+  // Only the first CHART_MAX_POINTS rows are embedded in the spec
+  truncated?: boolean;
+}
+
+export interface ChartOptions {
+  title?: string;
+  maxPoints?: number;
+}
+
+const VEGA_LITE_SCHEMA = 'https://vega.github.io/schema/vega-lite/v6.json';
+const DEFAULT_MAX_POINTS = 5000;
+// More categories than this make a color legend or a stacked bar unreadable
+const MAX_COLOR_CATEGORIES = 10;
+// Bars with more categories than this are drawn horizontally so labels stay readable
+const MAX_VERTICAL_BARS = 12;
+const WIDTH = 640;
+const HEIGHT = 320;
+
+const QUANTITATIVE_OIDS = new Set<number>([
+  PG_TYPE_OIDS.int2,
+  PG_TYPE_OIDS.int4,
+  PG_TYPE_OIDS.int8,
+  PG_TYPE_OIDS.float4,
+  PG_TYPE_OIDS.float8,
+  PG_TYPE_OIDS.numeric,
+]);
+const TEMPORAL_OIDS = new Set<number>([PG_TYPE_OIDS.date, PG_TYPE_OIDS.timestamp, PG_TYPE_OIDS.timestamptz]);
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}([ T]\d{2}:\d{2}(:\d{2}(\.\d+)?)?([+-]\d{2}(:?\d{2})?|Z)?)?$/;
+
+const maxPointsFromEnv = () => numberFromEnv('CHART_MAX_POINTS', DEFAULT_MAX_POINTS);
+
+// Identifiers are numbers but plotting them on an axis means nothing
+const isIdentifier = (name: string) => /^id$|_id$/i.test(name);
+
+const inferFromValues = (values: unknown[]): ChartFieldType => {
+  const present = values.filter(value => value !== null && value !== undefined);
+  if (present.length === 0) {
+    return 'nominal';
+  }
+  if (present.every(value => value instanceof Date || (typeof value === 'string' && ISO_DATE.test(value)))) {
+    return 'temporal';
+  }
+  if (present.every(value => typeof value === 'number')) {
+    return 'quantitative';
+  }
+  return 'nominal';
+};
+
+/**
+ * Classifies result columns as temporal, quantitative or nominal. PostgreSQL type OIDs from sql-execution
+ * decide when present (bigint and numeric arrive as strings); otherwise the values are inspected.
+ */
+export function classifyFields(rows: Record<string, unknown>[], columns?: ResultColumn[]): ChartField[] {
+  const names = columns?.map(column => column.name) ?? Object.keys(rows[0] ?? {});
+  return names.map(name => {
+    const values = rows.map(row => row[name]);
+    const dataTypeID = columns?.find(column => column.name === name)?.dataTypeID;
+
+    let type: ChartFieldType;
+    if (dataTypeID !== undefined && TEMPORAL_OIDS.has(dataTypeID)) {
+      type = 'temporal';
+    } else if (dataTypeID !== undefined && QUANTITATIVE_OIDS.has(dataTypeID)) {
+      type = 'quantitative';
+    } else if (dataTypeID !== undefined) {
+      type = 'nominal';
+    } else {
+      type = inferFromValues(values);
+    }
+    if (type === 'quantitative' && isIdentifier(name)) {
+      type = 'nominal';
+    }
+
+    return { name, type, distinctValues: new Set(values.map(value => String(value))).size };
+  });
+}
+
+// Values as Vega-Lite expects them: numbers for quantitative fields, ISO strings for temporal ones
+const chartValues = (rows: Record<string, unknown>[], fields: ChartField[]) =>
+  rows.map(row =>
+    Object.fromEntries(
+      fields.map(field => {
+        const value = row[field.name];
+        if (value === null || value === undefined) {
+          return [field.name, null];
+        }
+        if (field.type === 'quantitative') {
+          return [field.name, Number(value)];
+        }
+        if (field.type === 'temporal') {
+          return [field.name, value instanceof Date ? value.toISOString() : String(value)];
+        }
+        return [field.name, typeof value === 'object' ? JSON.stringify(value) : value];
+      }),
+    ),
+  );
+
+const encodingFor = (field: ChartField, extra: Record<string, unknown> = {}) => ({
+  field: field.name,
+  type: field.type,
+  ...extra,
+});
+
+/**
+ * Suggests a chart for a query result:
+ * - time column + measures: line chart, one line per small category or per measure
+ * - category + measure: bar chart, stacked or heatmap with a second category
+ * - two measures: scatter plot; one measure: histogram; categories only: count per category
+ */
+export function suggestChart(
+  rows: Record<string, unknown>[],
+  columns?: ResultColumn[],
+  options: ChartOptions = {},
+): ChartSuggestion {
+  const fields = classifyFields(rows, columns);
+  if (rows.length === 0) {
+    return { kind: 'none', reason: 'The result has no rows', fields };
+  }
+
+  const temporal = fields.filter(field => field.type === 'temporal');
+  const quantitative = fields.filter(field => field.type === 'quantitative');
+  const nominal = fields.filter(field => field.type === 'nominal');
+  const smallNominal = nominal.filter(field => field.distinctValues <= MAX_COLOR_CATEGORIES);
+
+  const maxPoints = options.maxPoints ?? maxPointsFromEnv();
+  const truncated = rows.length > maxPoints;
+  const base = (used: ChartField[]) => ({
+    $schema: VEGA_LITE_SCHEMA,
+    ...(options.title ? { title: options.title } : {}),
+    width: WIDTH,
+    height: HEIGHT,
+    data: { values: chartValues(rows.slice(0, maxPoints), used) },
+  });
+  const result = (kind: ChartKind, reason: string, used: ChartField[], spec: Record<string, unknown>) => ({
+    kind,
+    reason,
+    fields,
+    spec: { ...base(used), ...spec },
+    ...(truncated ? { truncated } : {}),
+  });
+
+  if (temporal.length > 0 && quantitative.length > 0) {
+    const [x] = temporal;
+    const tooltip = [x, ...quantitative, ...smallNominal.slice(0, 1)].map(field => encodingFor(field));
+    if (smallNominal.length > 0) {
+      const [series] = smallNominal;
+      return result(
+        'line',
+        `${quantitative[0].name} over ${x.name}, one line per ${series.name}`,
+        [x, quantitative[0], series],
+        {
+          mark: { type: 'line', point: true },
+          encoding: {
+            x: encodingFor(x),
+            y: encodingFor(quantitative[0]),
+            color: encodingFor(series),
+            tooltip,
+          },
+        },
+      );
+    }
+    if (quantitative.length > 1) {
+      // Several measures share one axis as separate lines
+      return result(
+        'line',
+        `${quantitative.map(field => field.name).join(', ')} over ${x.name}`,
+        [x, ...quantitative],
+        {
+          transform: [{ fold: quantitative.map(field => field.name), as: ['measure', 'value'] }],
+          mark: { type: 'line', point: true },
+          encoding: {
+            x: encodingFor(x),
+            y: { field: 'value', type: 'quantitative' },
+            color: { field: 'measure', type: 'nominal' },
+            tooltip,
+          },
+        },
+      );
+    }
+    return result('line', `${quantitative[0].name} over ${x.name}`, [x, quantitative[0]], {
+      mark: { type: 'line', point: true },
+      encoding: { x: encodingFor(x), y: encodingFor(quantitative[0]), tooltip },
+    });
+  }
+
+  if (nominal.length > 0 && quantitative.length > 0) {
+    const [category] = nominal;
+    const [measure] = quantitative;
+    const second = nominal.slice(1).find(field => field.distinctValues <= MAX_COLOR_CATEGORIES);
+    if (nominal.length > 1 && second) {
+      return result(
+        'stacked-bar',
+        `${measure.name} per ${category.name}, stacked by ${second.name}`,
+        [category, second, measure],
+        {
+          mark: 'bar',
+          encoding: {
+            x: encodingFor(category, { sort: '-y' }),
+            y: encodingFor(measure, { aggregate: 'sum' }),
+            color: encodingFor(second),
+            tooltip: [encodingFor(category), encodingFor(second), encodingFor(measure, { aggregate: 'sum' })],
+          },
+        },
+      );
+    }
+    if (nominal.length > 1) {
+      const [, other] = nominal;
+      return result('heatmap', `${measure.name} per ${category.name} and ${other.name}`, [category, other, measure], {
+        mark: 'rect',
+        encoding: {
+          x: encodingFor(category),
+          y: encodingFor(other),
+          color: encodingFor(measure, { aggregate: 'sum' }),
+          tooltip: [encodingFor(category), encodingFor(other), encodingFor(measure, { aggregate: 'sum' })],
+        },
+      });
+    }
+    const horizontal = category.distinctValues > MAX_VERTICAL_BARS;
+    return result('bar', `${measure.name} per ${category.name}`, [category, measure], {
+      mark: 'bar',
+      encoding: {
+        [horizontal ? 'y' : 'x']: encodingFor(category, { sort: horizontal ? '-x' : '-y' }),
+        // Rows that share a category are added up
+        [horizontal ? 'x' : 'y']: encodingFor(measure, { aggregate: 'sum' }),
+        tooltip: [encodingFor(category), encodingFor(measure, { aggregate: 'sum' })],
+      },
+    });
+  }
+
+  if (quantitative.length > 1) {
+    const [x, y] = quantitative;
+    return result('scatter', `${y.name} against ${x.name}`, [x, y, ...smallNominal.slice(0, 1)], {
+      mark: 'point',
+      encoding: {
+        x: encodingFor(x),
+        y: encodingFor(y),
+        ...(smallNominal.length > 0 ? { color: encodingFor(smallNominal[0]) } : {}),
+        tooltip: [x, y].map(field => encodingFor(field)),
+      },
+    });
+  }
+
+  if (quantitative.length === 1) {
+    const [measure] = quantitative;
+    return result('histogram', `Distribution of ${measure.name}`, [measure], {
+      mark: 'bar',
+      encoding: {
+        x: encodingFor(measure, { bin: true }),
+        y: { aggregate: 'count', type: 'quantitative' },
+      },
+    });
+  }
+
+  if (nominal.length > 0 && nominal[0].distinctValues < rows.length) {
+    const [category] = nominal;
+    return result('bar', `Number of rows per ${category.name}`, [category], {
+      mark: 'bar',
+      encoding: {
+        x: encodingFor(category, { sort: '-y' }),
+        y: { aggregate: 'count', type: 'quantitative' },
+      },
+    });
+  }
+
+  return { kind: 'none', reason: 'No numeric or repeated values to plot', fields };
+}
@@ -0,0 +1,39 @@
+import { DatabaseError } from 'pg';
+import type { Pool, PoolClient } from 'pg';
+import { describe, expect, it, vi } from 'vitest';
+import { PoolRegistry, poolSettingsFromEnv } from './db-pool';
+
+const databaseError = (code: string) => Object.assign(new DatabaseError('failed', 0, 'error'), { code });
+
+// A registry whose pool hands out one fake client, so the release call can be inspected
+const registryWithClient = () => {
+  const client = { release: vi.fn() } as unknown as PoolClient & { release: ReturnType<typeof vi.fn> };
+  const registry = new PoolRegistry(poolSettingsFromEnv());
+  vi.spyOn(registry, 'getPool').mockReturnValue({ connect: async () => client } as unknown as Pool);
+  return { registry, client };
+};
+
+describe('PoolRegistry.withClient', () => {
+  it('returns the client to the pool after an SQL error', async () => {
+    const { registry, client } = registryWithClient();
+    const error = databaseError('42703');
+    await expect(registry.withClient('postgres://db', () => Promise.reject(error))).rejects.toBe(error);
+    expect(client.release).toHaveBeenCalledWith(undefined);
+  });
+
+  it('returns the client to the pool after an error thrown by the caller', async () => {
+    const { registry, client } = registryWithClient();
+    await expect(registry.withClient('postgres://db', () => Promise.reject(new Error('policy')))).rejects.toThrow();
+    expect(client.release).toHaveBeenCalledWith(undefined);
+  });
+
+  it.each([
+    ['a connection exception', databaseError('08006')],
+    ['a server shutdown', databaseError('57P01')],
+    ['a socket error', Object.assign(new Error('read ECONNRESET'), { code: 'ECONNRESET' })],
+  ])('discards the client after %s', async (_name, error) => {
+    const { registry, client } = registryWithClient();
+    await expect(registry.withClient('postgres://db', () => Promise.reject(error))).rejects.toBe(error);
+    expect(client.release).toHaveBeenCalledWith(error);
+  });
+});
@@ -0,0 +1,209 @@
+import { DatabaseError, Pool } from 'pg';
+import type { PoolClient } from 'pg';
+import type { IMastraLogger } from '@mastra/core/logger';
+import type { TracingContext } from '@mastra/core/ai-tracing';
+import { numberFromEnv } from './env';
+
+export interface PoolSettings {
+  max: number;
+  idleTimeoutMillis: number;
+  connectionTimeoutMillis: number;
+  statementTimeoutMillis: number;
+  healthCheckIntervalMillis: number;
+}
+
+export interface PoolMetrics {
+  database: string;
+  total: number;
+  active: number;
+  idle: number;
+  waiting: number;
+  healthy: boolean;
+  lastHealthCheck?: string;
+  lastError?: string;
+}
+
+interface ManagedPool {
+  pool: Pool;
+  database: string;
+  healthy: boolean;
+  lastHealthCheck?: Date;
+  lastError?: string;
+}
+
+type PoolLogger = Pick<IMastraLogger, 'info' | 'warn' | 'error'>;
+
+export const poolSettingsFromEnv = (): PoolSettings => ({
+  max: numberFromEnv('DB_POOL_MAX', 10),
+  idleTimeoutMillis: numberFromEnv('DB_POOL_IDLE_TIMEOUT_MS', 30000), // 30 seconds
+  connectionTimeoutMillis: numberFromEnv('DB_POOL_CONNECTION_TIMEOUT_MS', 30000), // 30 seconds
+  statementTimeoutMillis: numberFromEnv('DB_POOL_STATEMENT_TIMEOUT_MS', 60000), // 1 minute
+  healthCheckIntervalMillis: numberFromEnv('DB_POOL_HEALTH_CHECK_INTERVAL_MS', 60000), // 1 minute
+});
+
+// SQL errors and the tools' own errors leave the connection usable (callers roll back their transactions); only
+// connection exceptions (SQLSTATE 08xxx), server shutdowns (57P0x) and socket errors mean it is gone
+const isConnectionError = (error: unknown) => {
+  if (error instanceof DatabaseError) {
+    return /^(08|57P0)/.test(error.code ?? '');
+  }
+  const code = (error as NodeJS.ErrnoException | undefined)?.code;
+  return typeof code === 'string' && /^E[A-Z]+$/.test(code);
+};
+
+// Connection strings carry credentials, so metrics and logs only show host/database
+const describeDatabase = (connectionString: string) => {
+  try {
+    const url = new URL(connectionString);
+    return `${url.hostname}${url.port ? `:${url.port}` : ''}${url.pathname}`;
+  } catch {
+    return 'postgres';
+  }
+};
+
+/**
+ * Shared pg pools keyed by connection string. Tools borrow a client per call instead of
+ * opening a new connection, and the Mastra instance closes every pool on shutdown.
+ */
+export class PoolRegistry {
+  private readonly pools = new Map<string, ManagedPool>();
+  private logger: PoolLogger = console;
+  private monitor?: NodeJS.Timeout;
+
+  constructor(private readonly settings: PoolSettings = poolSettingsFromEnv()) {}
+
+  setLogger(logger: PoolLogger) {
+    this.logger = logger;
+  }
+
+  getPool(connectionString: string): Pool {
+    return this.getManagedPool(connectionString).pool;
+  }
+
+  // Runs `fn` with a pooled client. The client goes back to the pool after ordinary errors; one whose connection
+  // failed is discarded (pg-pool also drops clients that were closed)
+  async withClient<T>(connectionString: string, fn: (client: PoolClient) => Promise<T>): Promise<T> {
+    const client = await this.getPool(connectionString).connect();
+    try {
+      const result = await fn(client);
+      client.release();
+      return result;
+    } catch (error) {
+      client.release(isConnectionError(error) ? (error as Error) : undefined);
+      throw error;
+    }
+  }
+
+  metrics(): PoolMetrics[] {
+    return Array.from(this.pools.values()).map(managed => this.toMetrics(managed));
+  }
+
+  metricsFor(connectionString: string): PoolMetrics | undefined {
+    const managed = this.pools.get(connectionString);
+    return managed ? this.toMetrics(managed) : undefined;
+  }
+
+  // Attaches the pool state to the current trace span so it shows up next to the tool call
+  reportMetrics(connectionString: string, tracingContext?: TracingContext) {
+    const metrics = this.metricsFor(connectionString);
+    if (metrics) {
+      tracingContext?.currentSpan?.update({ metadata: { dbPool: metrics } });
+    }
+  }
+
+  async checkHealth(): Promise<PoolMetrics[]> {
+    await Promise.all(
+      Array.from(this.pools.values()).map(async managed => {
+        try {
+          await managed.pool.query('SELECT 1');
+          managed.healthy = true;
+          managed.lastError = undefined;
+        } catch (error) {
+          managed.healthy = false;
+          managed.lastError = error instanceof Error ? error.message : String(error);
+          this.logger.error(`Database pool health check failed for ${managed.database}: ${managed.lastError}`);
+        } finally {
+          managed.lastHealthCheck = new Date();
+        }
+      }),
+    );
+    return this.metrics();
+  }
+
+  // Periodic health checks plus a metrics log line per pool; the timer never keeps the process alive
+  startMonitoring() {
+    if (this.monitor) {
+      return;
+    }
+    this.monitor = setInterval(async () => {
+      const metrics = await this.checkHealth();
+      metrics.forEach(poolMetrics => this.logger.info('Database pool metrics', poolMetrics));
+    }, this.settings.healthCheckIntervalMillis);
+    this.monitor.unref();
+  }
+
+  async closeAll() {
+    if (this.monitor) {
+      clearInterval(this.monitor);
+      this.monitor = undefined;
+    }
+    const pools = Array.from(this.pools.values());
+    this.pools.clear();
+    await Promise.all(
+      pools.map(async managed => {
+        try {
+          await managed.pool.end();
+          this.logger.info(`Database pool closed for ${managed.database}`);
+        } catch (error) {
+          this.logger.warn(
+            `Failed to close database pool for ${managed.database}: ${error instanceof Error ? error.message : String(error)}`,
+          );
+        }
+      }),
+    );
+  }
+
+  private getManagedPool(connectionString: string): ManagedPool {
+    const existing = this.pools.get(connectionString);
+    if (existing) {
+      return existing;
+    }
+
+    const pool = new Pool({
+      connectionString,
+      max: this.settings.max,
+      idleTimeoutMillis: this.settings.idleTimeoutMillis,
+      connectionTimeoutMillis: this.settings.connectionTimeoutMillis,
+      // Server-side only: a client-side query_timeout would also cut off statements that raise the limit with
+      // SET LOCAL statement_timeout (seeding, exact introspection row counts)
+      statement_timeout: this.settings.statementTimeoutMillis,
+    });
+    const managed: ManagedPool = { pool, database: describeDatabase(connectionString), healthy: true };
+
+    // Idle clients can error when the server drops them; without a listener that would crash the process
+    pool.on('error', error => {
+      managed.healthy = false;
+      managed.lastError = error.message;
+      this.logger.warn(`Idle database client error for ${managed.database}: ${error.message}`);
+    });
+
+    this.pools.set(connectionString, managed);
+    return managed;
+  }
+
+  private toMetrics(managed: ManagedPool): PoolMetrics {
+    const { pool } = managed;
+    return {
+      database: managed.database,
+      total: pool.totalCount,
+      active: pool.totalCount - pool.idleCount,
+      idle: pool.idleCount,
+      waiting: pool.waitingCount,
+      healthy: managed.healthy,
+      lastHealthCheck: managed.lastHealthCheck?.toISOString(),
+      lastError: managed.lastError,
+    };
+  }
+}
+
+export const poolRegistry = new PoolRegistry();
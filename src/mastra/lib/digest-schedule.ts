@@ -0,0 +1,70 @@
+import type { IMastraLogger } from '@mastra/core/logger';
+
+// Runs the daily digest once a day at NEWS_DIGEST_TIME (HH:MM, Vietnamese time). Mastra has no time-based trigger
+// for workflows, so the server keeps the timer itself; without NEWS_DIGEST_TIME nothing is scheduled.
+
+type DigestTask = () => Promise<unknown>;
+type ScheduleLogger = Pick<IMastraLogger, 'info' | 'error'>;
+
+// Vietnam has kept UTC+7 without daylight saving time since 1975
+const VIETNAM_UTC_OFFSET_MINUTES = 7 * 60;
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+export function parseDigestTime(value: string): { hour: number; minute: number } {
+  const match = TIME_PATTERN.exec(value.trim());
+  if (!match) {
+    throw new Error(`NEWS_DIGEST_TIME must be HH:MM in 24-hour Vietnamese time, got "${value}"`);
+  }
+  return { hour: Number(match[1]), minute: Number(match[2]) };
+}
+
+// Next moment after `now` when the wall clock in Vietnam shows hour:minute
+export function nextDigestRun(time: { hour: number; minute: number }, now = new Date()): Date {
+  const offset = VIETNAM_UTC_OFFSET_MINUTES * 60 * 1000;
+  const local = new Date(now.getTime() + offset);
+  const next = new Date(
+    Date.UTC(local.getUTCFullYear(), local.getUTCMonth(), local.getUTCDate(), time.hour, time.minute) - offset,
+  );
+  if (next.getTime() <= now.getTime()) {
+    next.setUTCDate(next.getUTCDate() + 1);
+  }
+  return next;
+}
+
+export class DigestSchedule {
+  private timer?: NodeJS.Timeout;
+  private logger: ScheduleLogger = console;
+
+  setLogger(logger: ScheduleLogger) {
+    this.logger = logger;
+  }
+
+  start(task: DigestTask, time = process.env.NEWS_DIGEST_TIME) {
+    if (this.timer || !time) {
+      return;
+    }
+    const at = parseDigestTime(time);
+    const schedule = () => {
+      const next = nextDigestRun(at);
+      this.timer = setTimeout(async () => {
+        try {
+          await task();
+        } catch (error) {
+          this.logger.error('Daily news digest failed', { error: error instanceof Error ? error.message : error });
+        }
+        schedule();
+      }, next.getTime() - Date.now());
+      // The schedule alone must not keep the process alive
+      this.timer.unref();
+      this.logger.info('Daily news digest scheduled', { at: next.toISOString() });
+    };
+    schedule();
+  }
+
+  stop() {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+  }
+}
+
+export const digestSchedule = new DigestSchedule();
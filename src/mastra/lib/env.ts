@@ -0,0 +1,5 @@
+// Numeric settings from the environment: a missing, non-numeric, zero or negative value means the default
+export const numberFromEnv = (name: string, fallback: number) => {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+};
@@ -0,0 +1,29 @@
+import type { ClientBase } from 'pg';
+import { accessPolicy } from './access-policy';
+import { describeViolations, guardSQL } from './sql-guard';
+import type { SchemaColumn, SqlGuardResult } from './sql-guard';
+
+// Columns of the tables covered by the access policy, so the guard can resolve references and expand `*`
+export const loadPolicyTableColumns = async (client: ClientBase): Promise<SchemaColumn[]> => {
+  const result = await client.query(
+    `
+      SELECT table_schema, table_name, column_name
+      FROM information_schema.columns
+      WHERE table_name = ANY($1::text[])
+    `,
+    [accessPolicy.tables.map(tablePolicy => tablePolicy.table)],
+  );
+  return result.rows;
+};
+
+/**
+ * Checks a query against the access policy using the live column list, for every path that runs SQL it
+ * did not generate itself. Throws on violations; otherwise returns the (possibly rewritten) SQL to run.
+ */
+export async function guardQuery(client: ClientBase, query: string): Promise<SqlGuardResult> {
+  const guard = guardSQL(query, { schemaColumns: await loadPolicyTableColumns(client) });
+  if (!guard.allowed) {
+    throw new Error(`Query violates the access policy: ${describeViolations(guard.violations)}`);
+  }
+  return guard;
+}
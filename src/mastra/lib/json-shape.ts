@@ -0,0 +1,114 @@
+// Summarizes sampled JSON/JSONB values so the LLM knows which operators and keys apply to a column
+
+export interface JsonKeySummary {
+  key: string;
+  types: string[];
+  // Share of sampled objects that contain the key, 0-1
+  frequency: number;
+}
+
+export interface JsonShapeSummary {
+  sampled_rows: number;
+  value_types: string[];
+  // Present when values are objects
+  keys?: JsonKeySummary[];
+  // Present when values are arrays
+  element_types?: string[];
+  element_keys?: JsonKeySummary[];
+  // A few distinct scalar array elements, e.g. ticker symbols
+  sample_elements?: string[];
+}
+
+const MAX_KEYS = 25;
+const MAX_SAMPLE_ELEMENTS = 8;
+const MAX_SAMPLE_ELEMENT_LENGTH = 40;
+
+export const jsonType = (value: unknown): string => {
+  if (value === null) {
+    return 'null';
+  }
+  if (Array.isArray(value)) {
+    return 'array';
+  }
+  return typeof value === 'object' ? 'object' : typeof value;
+};
+
+const summarizeKeys = (objects: Record<string, unknown>[]): JsonKeySummary[] => {
+  const keys = new Map<string, { types: Set<string>; count: number }>();
+  objects.forEach(object => {
+    Object.entries(object).forEach(([key, value]) => {
+      const entry = keys.get(key) ?? { types: new Set<string>(), count: 0 };
+      entry.types.add(jsonType(value));
+      entry.count += 1;
+      keys.set(key, entry);
+    });
+  });
+
+  return Array.from(keys.entries())
+    .map(([key, entry]) => ({
+      key,
+      types: Array.from(entry.types).sort(),
+      frequency: Math.round((entry.count / objects.length) * 100) / 100,
+    }))
+    .sort((a, b) => b.frequency - a.frequency || a.key.localeCompare(b.key))
+    .slice(0, MAX_KEYS);
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> => jsonType(value) === 'object';
+
+export function summarizeJsonShape(values: unknown[]): JsonShapeSummary {
+  const summary: JsonShapeSummary = {
+    sampled_rows: values.length,
+    value_types: Array.from(new Set(values.map(jsonType))).sort(),
+  };
+
+  const objects = values.filter(isObject);
+  if (objects.length > 0) {
+    summary.keys = summarizeKeys(objects);
+  }
+
+  const elements = values.filter(Array.isArray).flat();
+  if (elements.length > 0) {
+    summary.element_types = Array.from(new Set(elements.map(jsonType))).sort();
+
+    const elementObjects = elements.filter(isObject);
+    if (elementObjects.length > 0) {
+      summary.element_keys = summarizeKeys(elementObjects);
+    }
+
+    const scalars = elements.filter(
+      element => ['string', 'number'].includes(jsonType(element)) && String(element).length <= MAX_SAMPLE_ELEMENT_LENGTH,
+    );
+    if (scalars.length > 0) {
+      summary.sample_elements = Array.from(new Set(scalars.map(String))).slice(0, MAX_SAMPLE_ELEMENTS);
+    }
+  }
+
+  return summary;
+}
+
+// One-line rendering for prompts and schema presentations
+export function describeJsonShape(shape: JsonShapeSummary): string {
+  const formatKeys = (keys: JsonKeySummary[]) =>
+    keys
+      .map(key => {
+        const share = key.frequency < 1 ? `, ${Math.round(key.frequency * 100)}%` : '';
+        return `${key.key} (${key.types.join('|')}${share})`;
+      })
+      .join(', ');
+
+  const parts = [`${shape.value_types.join('|')} values`];
+  if (shape.keys?.length) {
+    parts.push(`keys: ${formatKeys(shape.keys)}`);
+  }
+  if (shape.element_types?.length) {
+    parts.push(`array elements: ${shape.element_types.join('|')}`);
+  }
+  if (shape.element_keys?.length) {
+    parts.push(`element keys: ${formatKeys(shape.element_keys)}`);
+  }
+  if (shape.sample_elements?.length) {
+    parts.push(`e.g. ${shape.sample_elements.map(element => JSON.stringify(element)).join(', ')}`);
+  }
+  return `${parts.join('; ')} (sampled ${shape.sampled_rows} rows)`;
+}
@@ -0,0 +1,90 @@
+import { generateText } from 'ai';
+import type { LanguageModel } from 'ai';
+import { MockLanguageModelV2 } from 'ai/test';
+import { afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { registerModelProvider, resolveModel, withModelFallback } from './model-registry';
+
+// `mock/down-*` models always fail; any other mock model answers with its own id
+const mockModel = (modelId: string) =>
+  new MockLanguageModelV2({
+    modelId,
+    doGenerate: async () => {
+      if (modelId.startsWith('down')) {
+        throw new Error(`${modelId} is unavailable`);
+      }
+      return {
+        content: [{ type: 'text', text: `answer from ${modelId}` }],
+        finishReason: 'stop',
+        usage: { inputTokens: 1, outputTokens: 1, totalTokens: 2 },
+        warnings: [],
+      };
+    },
+  });
+
+const ask = async (model: LanguageModel) => (await generateText({ model, prompt: 'question', maxRetries: 0 })).text;
+
+describe('model registry', () => {
+  beforeAll(() => {
+    registerModelProvider('Mock', mockModel);
+  });
+
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('resolves a registered provider by its lowercase prefix', async () => {
+    expect(await ask(resolveModel('MOCK/primary'))).toBe('answer from primary');
+  });
+
+  it('names the known providers for an unknown one', () => {
+    expect(() => resolveModel('nope/model')).toThrow(/Unknown model provider "nope".*mock/);
+  });
+
+  describe('withModelFallback', () => {
+    it('does not call the fallback when the primary model answers', async () => {
+      const tried: string[] = [];
+      const text = await withModelFallback({ primary: 'mock/primary', fallback: 'mock/backup' }, (model, name) => {
+        tried.push(name);
+        return ask(model);
+      });
+      expect(text).toBe('answer from primary');
+      expect(tried).toEqual(['mock/primary']);
+    });
+
+    it('tries the fallback after the primary model fails', async () => {
+      const tried: string[] = [];
+      const text = await withModelFallback({ primary: 'mock/down-primary', fallback: 'mock/backup' }, (model, name) => {
+        tried.push(name);
+        return ask(model);
+      });
+      expect(text).toBe('answer from backup');
+      expect(tried).toEqual(['mock/down-primary', 'mock/backup']);
+    });
+
+    it('falls back when the primary provider is unknown', async () => {
+      const text = await withModelFallback({ primary: 'nope/model', fallback: 'mock/backup' }, model => ask(model));
+      expect(text).toBe('answer from backup');
+    });
+
+    it('rethrows the error of the last model tried', async () => {
+      await expect(
+        withModelFallback({ primary: 'mock/down-primary', fallback: 'mock/down-backup' }, model => ask(model)),
+      ).rejects.toThrow('down-backup is unavailable');
+    });
+
+    it('rethrows the primary error without a fallback', async () => {
+      const tried: string[] = [];
+      await expect(
+        withModelFallback({ primary: 'mock/down-primary', fallback: 'mock/down-primary' }, (model, name) => {
+          tried.push(name);
+          return ask(model);
+        }),
+      ).rejects.toThrow('down-primary is unavailable');
+      expect(tried).toEqual(['mock/down-primary']);
+    });
+  });
+});
@@ -0,0 +1,92 @@
+import { anthropic } from '@ai-sdk/anthropic';
+import { cerebras } from '@ai-sdk/cerebras';
+import { google } from '@ai-sdk/google';
+import { groq } from '@ai-sdk/groq';
+import { mistral } from '@ai-sdk/mistral';
+import { openai } from '@ai-sdk/openai';
+import { xai } from '@ai-sdk/xai';
+import type { LanguageModel } from 'ai';
+
+// Builds an AI SDK language model for a model id of one provider
+export type ModelProviderFactory = (modelId: string) => LanguageModel;
+
+const DEFAULT_PROVIDER = 'openai';
+const DEFAULT_MODEL = 'openai/gpt-4o';
+
+// API keys come from each provider's usual env var (OPENAI_API_KEY, ANTHROPIC_API_KEY, GOOGLE_GENERATIVE_AI_API_KEY, ...)
+const providers = new Map<string, ModelProviderFactory>([
+  ['openai', modelId => openai(modelId)],
+  ['anthropic', modelId => anthropic(modelId)],
+  ['google', modelId => google(modelId)],
+  ['groq', modelId => groq(modelId)],
+  ['cerebras', modelId => cerebras(modelId)],
+  ['mistral', modelId => mistral(modelId)],
+  ['xai', modelId => xai(modelId)],
+]);
+
+/**
+ * Adds or replaces a provider, e.g. a mock provider returning `MockLanguageModelV2` from `ai/test`
+ * so tools can run without network access (`SQL_GENERATION_MODEL=mock/sql`).
+ */
+export function registerModelProvider(provider: string, factory: ModelProviderFactory) {
+  providers.set(provider.toLowerCase(), factory);
+}
+
+// Splits `provider/model`; a bare model name keeps working and means an OpenAI model
+export function parseModelString(modelString: string): { provider: string; modelId: string } {
+  const separator = modelString.indexOf('/');
+  if (separator === -1) {
+    return { provider: DEFAULT_PROVIDER, modelId: modelString };
+  }
+  return { provider: modelString.slice(0, separator).toLowerCase(), modelId: modelString.slice(separator + 1) };
+}
+
+export function resolveModel(modelString: string): LanguageModel {
+  const { provider, modelId } = parseModelString(modelString);
+  const factory = providers.get(provider);
+  if (!factory) {
+    throw new Error(
+      `Unknown model provider "${provider}" in "${modelString}". Known providers: ${Array.from(providers.keys()).join(', ')}`,
+    );
+  }
+  return factory(modelId);
+}
+
+export interface ToolModelConfig {
+  primary: string;
+  fallback?: string;
+}
+
+/**
+ * Model strings for one tool: `<PREFIX>_MODEL` overrides the agent-wide `MODEL`, and
+ * `<PREFIX>_FALLBACK_MODEL` (or `FALLBACK_MODEL`) is tried when the primary model errors.
+ */
+export function toolModelConfig(envPrefix: string): ToolModelConfig {
+  return {
+    primary: process.env[`${envPrefix}_MODEL`] || process.env.MODEL || DEFAULT_MODEL,
+    fallback: process.env[`${envPrefix}_FALLBACK_MODEL`] || process.env.FALLBACK_MODEL || undefined,
+  };
+}
+
+/**
+ * Runs `call` with the primary model and, if it throws, once more with the fallback model. The error of
+ * the last model tried is rethrown.
+ */
+export async function withModelFallback<T>(
+  config: ToolModelConfig,
+  call: (model: LanguageModel, modelString: string) => Promise<T>,
+): Promise<T> {
+  const modelStrings = [config.primary, ...(config.fallback && config.fallback !== config.primary ? [config.fallback] : [])];
+
+  let lastError: unknown;
+  for (const modelString of modelStrings) {
+    try {
+      return await call(resolveModel(modelString), modelString);
+    } catch (error) {
+      lastError = error;
+      const next = modelString === config.primary && config.fallback ? `, falling back to ${config.fallback}` : '';
+      console.warn(`⚠️ Model ${modelString} failed: ${error instanceof Error ? error.message : String(error)}${next}`);
+    }
+  }
+  throw lastError;
+}
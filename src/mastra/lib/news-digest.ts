@@ -0,0 +1,402 @@
+import type { ClientBase } from 'pg';
+import { isColumnAllowed } from './access-policy';
+import type { TablePolicy } from './access-policy';
+import { ARTICLE_TIME_ZONE, presentRows } from './article-presenter';
+import type { ArticleCard } from './article-presenter';
+import {
+  ISO_DATE_PATTERN,
+  articleFilterConditions,
+  articlesTableName,
+  articlesTablePolicy,
+  buildArticleSearchQuery,
+} from './article-search';
+import type { ArticleSearchQuery } from './article-search';
+import { storageClient } from './storage';
+import { findSector, findTicker, sectorSymbols, tickerReference } from './ticker-reference';
+
+// News digests: article counts over a window of days in Vietnamese time, by day, by sector (through the ticker
+// reference) and by symbol, compared with the window of the same length right before it to find trending tickers.
+// Everything is counted in PostgreSQL with fixed, parameterized SQL; only symbols, published_at and the card columns
+// are read. Daily digests are kept in the LibSQL storage (news_digests).
+
+export interface NewsDigestOptions {
+  // Calendar days in Asia/Ho_Chi_Minh, YYYY-MM-DD, both inclusive. `to` defaults to today and `from` to `days`
+  // days before it
+  from?: string;
+  to?: string;
+  days?: number;
+  // Sector id from tickers.yaml, e.g. ngan-hang
+  sector?: string;
+  symbols?: string[];
+  // Latest article cards included in the digest
+  articleLimit?: number;
+}
+
+export interface DigestWindow {
+  from: string;
+  to: string;
+  days: number;
+}
+
+export interface DigestScope {
+  // Whole market when there is neither a sector nor symbols
+  sector?: { id: string; name: string };
+  symbols: string[];
+}
+
+export interface DigestSymbol {
+  symbol: string;
+  // From the ticker reference, when the symbol is listed there
+  name?: string;
+  sector?: string;
+  count: number;
+  previousCount: number;
+  change: number;
+}
+
+export interface DigestSector {
+  id: string;
+  name: string;
+  // Articles tagged with at least one ticker of the sector
+  count: number;
+  previousCount: number;
+  change: number;
+  topSymbols: { symbol: string; count: number }[];
+}
+
+export interface NewsDigest {
+  window: DigestWindow;
+  previousWindow: DigestWindow;
+  scope: DigestScope;
+  totalArticles: number;
+  previousTotalArticles: number;
+  // Every day of the window, oldest first, including days without articles
+  byDay: { day: string; count: number }[];
+  bySector: DigestSector[];
+  // Most mentioned symbols first, at most SYMBOL_LIMIT
+  bySymbol: DigestSymbol[];
+  // Symbols with clearly more articles than in the previous window
+  trending: DigestSymbol[];
+  latestArticles: ArticleCard[];
+  generatedAt: string;
+}
+
+export interface DigestQuery {
+  text: string;
+  values: unknown[];
+}
+
+export interface NewsDigestPlan {
+  window: DigestWindow;
+  previousWindow: DigestWindow;
+  scope: DigestScope;
+  queries: { days: DigestQuery; symbols: DigestQuery; sectors: DigestQuery; articles: ArticleSearchQuery };
+}
+
+const DEFAULT_DAYS = 1;
+const MAX_DAYS = 31;
+const DEFAULT_ARTICLE_LIMIT = 5;
+const SYMBOL_LIMIT = 20;
+const TOP_SECTOR_SYMBOLS = 3;
+// A ticker trends when it has at least this many articles and more than in the previous window
+const TRENDING_MIN_ARTICLES = 2;
+const TRENDING_LIMIT = 5;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const todayFormat = new Intl.DateTimeFormat('en-CA', {
+  timeZone: ARTICLE_TIME_ZONE,
+  day: '2-digit',
+  month: '2-digit',
+  year: 'numeric',
+});
+
+// Today in Vietnamese time, YYYY-MM-DD
+export const vietnamToday = (now = new Date()) => todayFormat.format(now);
+
+export function addDays(day: string, days: number): string {
+  return new Date(Date.parse(`${day}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+const daysBetween = (from: string, to: string) =>
+  Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / DAY_MS);
+
+export function digestWindow(options: Pick<NewsDigestOptions, 'from' | 'to' | 'days'>, now = new Date()) {
+  for (const [name, value] of Object.entries({ from: options.from, to: options.to })) {
+    if (value !== undefined && !ISO_DATE_PATTERN.test(value)) {
+      throw new Error(`${name} must be a date in YYYY-MM-DD format, got "${value}"`);
+    }
+  }
+  const to = options.to ?? vietnamToday(now);
+  const from = options.from ?? addDays(to, -(Math.max(Math.floor(options.days ?? DEFAULT_DAYS), 1) - 1));
+  const days = daysBetween(from, to) + 1;
+  if (days < 1) {
+    throw new Error(`from (${from}) must not be after to (${to})`);
+  }
+  if (days > MAX_DAYS) {
+    throw new Error(`A digest covers at most ${MAX_DAYS} days, got ${days}`);
+  }
+
+  const window: DigestWindow = { from, to, days };
+  const previousWindow: DigestWindow = { from: addDays(from, -days), to: addDays(from, -1), days };
+  return { window, previousWindow };
+}
+
+export function digestScope(options: Pick<NewsDigestOptions, 'sector' | 'symbols'>): DigestScope {
+  const symbols = (options.symbols ?? []).map(symbol => symbol.trim().toUpperCase()).filter(Boolean);
+  if (!options.sector) {
+    return { symbols: [...new Set(symbols)] };
+  }
+  const sector = findSector(options.sector);
+  if (!sector) {
+    const known = tickerReference.sectors.map(candidate => candidate.id).join(', ');
+    throw new Error(`Unknown sector "${options.sector}"; sectors in the ticker reference are ${known}`);
+  }
+  return {
+    sector: { id: sector.id, name: sector.name },
+    symbols: [...new Set([...sectorSymbols(sector.id), ...symbols])],
+  };
+}
+
+/**
+ * The digest queries for a window and scope. All of them read the current and the previous window at once and
+ * split the counts with FILTER, so both windows come from the same snapshot.
+ */
+export function planNewsDigest(
+  options: NewsDigestOptions,
+  policy: TablePolicy = articlesTablePolicy(),
+  now = new Date(),
+): NewsDigestPlan {
+  const missing = ['symbols', 'published_at'].filter(column => !isColumnAllowed(policy, column));
+  if (missing.length > 0) {
+    throw new Error(`News digests need the columns ${missing.join(', ')}, which policy.yaml does not allow`);
+  }
+  const { window, previousWindow } = digestWindow(options, now);
+  const scope = digestScope(options);
+  const table = articlesTableName(policy);
+  const day = `to_char((published_at AT TIME ZONE '${ARTICLE_TIME_ZONE}')::date, 'YYYY-MM-DD')`;
+
+  // Each query gets its own placeholders, so the shared parts are rebuilt per query
+  const query = (
+    build: (param: (value: unknown) => string, where: string, current: () => string) => string[],
+  ): DigestQuery => {
+    const values: unknown[] = [];
+    const param = (value: unknown) => {
+      values.push(value);
+      return `$${values.length}`;
+    };
+    const conditions = articleFilterConditions(
+      { symbols: scope.symbols, from: previousWindow.from, to: window.to },
+      param,
+    );
+    // Bound only by the queries that use it: PostgreSQL rejects unused parameters
+    let current: string | undefined;
+    const inCurrentWindow = () =>
+      (current ??= `published_at >= ((${param(window.from)}::date)::timestamp AT TIME ZONE '${ARTICLE_TIME_ZONE}')`);
+    return { text: build(param, conditions.join('\n  AND '), inCurrentWindow).join('\n'), values };
+  };
+  // Only the scope's own symbols are counted, not the other tickers tagged on the same articles
+  const scopeSymbols = (param: (value: unknown) => string, column: string) =>
+    scope.symbols.length > 0 ? [`  AND ${column} = ANY(${param(scope.symbols)}::text[])`] : [];
+  const tickers =
+    scope.symbols.length > 0 ? scope.symbols.flatMap(symbol => findTicker(symbol) ?? []) : tickerReference.tickers;
+
+  const articles = buildArticleSearchQuery(
+    { symbols: scope.symbols, from: window.from, to: window.to, limit: options.articleLimit ?? DEFAULT_ARTICLE_LIMIT },
+    policy,
+  );
+
+  return {
+    window,
+    previousWindow,
+    scope,
+    queries: {
+      days: query((_param, where) => [
+        `SELECT ${day} AS day, count(*) AS count`,
+        `FROM ${table}`,
+        `WHERE ${where}`,
+        'GROUP BY 1',
+        'ORDER BY 1',
+      ]),
+      symbols: query((param, where, current) => [
+        `SELECT upper(s.symbol) AS symbol,`,
+        `  count(*) FILTER (WHERE ${current()}) AS count,`,
+        `  count(*) FILTER (WHERE NOT (${current()})) AS previous_count`,
+        `FROM ${table}`,
+        `CROSS JOIN LATERAL jsonb_array_elements_text(symbols) AS s(symbol)`,
+        `WHERE jsonb_typeof(symbols) = 'array'`,
+        `  AND ${where}`,
+        ...scopeSymbols(param, 'upper(s.symbol)'),
+        'GROUP BY 1',
+      ]),
+      sectors: query((param, where, current) => [
+        `SELECT m.sector,`,
+        `  count(*) FILTER (WHERE ${current()}) AS count,`,
+        `  count(*) FILTER (WHERE NOT (${current()})) AS previous_count`,
+        `FROM ${table}`,
+        `CROSS JOIN LATERAL (`,
+        `  SELECT DISTINCT t.sector`,
+        `  FROM jsonb_array_elements_text(symbols) AS s(symbol)`,
+        `  JOIN unnest(${param(tickers.map(ticker => ticker.symbol))}::text[], ${param(tickers.map(ticker => ticker.sector))}::text[]) AS t(symbol, sector)`,
+        `    ON t.symbol = upper(s.symbol)`,
+        `) m`,
+        `WHERE jsonb_typeof(symbols) = 'array'`,
+        `  AND ${where}`,
+        'GROUP BY 1',
+      ]),
+      articles,
+    },
+  };
+}
+
+const toCount = (value: unknown) => Number(value ?? 0);
+
+// Runs the planned queries on `client`; callers open the read-only transaction
+export async function runNewsDigest(client: ClientBase, plan: NewsDigestPlan): Promise<NewsDigest> {
+  const run = (query: DigestQuery) => client.query({ text: query.text, values: query.values });
+  const days = await run(plan.queries.days);
+  const symbols = await run(plan.queries.symbols);
+  const sectors = await run(plan.queries.sectors);
+  const articles = await run(plan.queries.articles);
+
+  const countsByDay = new Map(days.rows.map(row => [String(row.day), toCount(row.count)]));
+  const byDay = Array.from({ length: plan.window.days }, (_, index) => {
+    const day = addDays(plan.window.from, index);
+    return { day, count: countsByDay.get(day) ?? 0 };
+  });
+  const previousTotalArticles = Array.from({ length: plan.previousWindow.days }, (_, index) =>
+    countsByDay.get(addDays(plan.previousWindow.from, index)),
+  ).reduce<number>((total, count) => total + (count ?? 0), 0);
+
+  const allSymbols: DigestSymbol[] = symbols.rows
+    .map(row => {
+      const symbol = String(row.symbol);
+      const ticker = findTicker(symbol);
+      const count = toCount(row.count);
+      const previousCount = toCount(row.previous_count);
+      return {
+        symbol,
+        name: ticker?.shortName,
+        sector: ticker?.sector,
+        count,
+        previousCount,
+        change: count - previousCount,
+      };
+    })
+    .filter(symbol => symbol.count > 0 || symbol.previousCount > 0)
+    .sort((a, b) => b.count - a.count || b.change - a.change || a.symbol.localeCompare(b.symbol));
+
+  const bySector = sectors.rows
+    .map(row => {
+      const id = String(row.sector);
+      const count = toCount(row.count);
+      const previousCount = toCount(row.previous_count);
+      return {
+        id,
+        name: findSector(id)?.name ?? id,
+        count,
+        previousCount,
+        change: count - previousCount,
+        topSymbols: allSymbols
+          .filter(symbol => symbol.sector === id && symbol.count > 0)
+          .slice(0, TOP_SECTOR_SYMBOLS)
+          .map(symbol => ({ symbol: symbol.symbol, count: symbol.count })),
+      };
+    })
+    .sort((a, b) => b.count - a.count || b.change - a.change || a.id.localeCompare(b.id));
+
+  const trending = allSymbols
+    .filter(symbol => symbol.count >= TRENDING_MIN_ARTICLES && symbol.change > 0)
+    .sort((a, b) => b.change - a.change || b.count - a.count || a.symbol.localeCompare(b.symbol))
+    .slice(0, TRENDING_LIMIT);
+
+  const latest = articles.rows.slice(0, plan.queries.articles.limit);
+  const presented = presentRows(
+    latest,
+    articles.fields.map(field => ({ name: field.name, dataTypeID: field.dataTypeID })),
+  );
+
+  return {
+    window: plan.window,
+    previousWindow: plan.previousWindow,
+    scope: plan.scope,
+    totalArticles: byDay.reduce((total, day) => total + day.count, 0),
+    previousTotalArticles,
+    byDay,
+    bySector,
+    bySymbol: allSymbols.filter(symbol => symbol.count > 0).slice(0, SYMBOL_LIMIT),
+    trending,
+    latestArticles: presented.articles ?? [],
+    generatedAt: new Date().toISOString(),
+  };
+}
+
+export interface StoredNewsDigest {
+  id: number;
+  createdAt: string;
+  database: string;
+  // "market", or the sector id
+  scope: string;
+  digest: NewsDigest;
+}
+
+let tableReady: Promise<unknown> | undefined;
+
+// One digest per database, scope and window; producing it again replaces it
+const ensureDigestTable = () => {
+  tableReady ??= storageClient
+    .batch(
+      [
+        `
+          CREATE TABLE IF NOT EXISTS news_digests (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            created_at TEXT NOT NULL,
+            database TEXT NOT NULL,
+            scope TEXT NOT NULL,
+            window_from TEXT NOT NULL,
+            window_to TEXT NOT NULL,
+            total_articles INTEGER NOT NULL,
+            digest TEXT NOT NULL,
+            UNIQUE (database, scope, window_from, window_to)
+          )
+        `,
+        'CREATE INDEX IF NOT EXISTS news_digests_window_to ON news_digests (window_to)',
+      ],
+      'write',
+    )
+    .catch(error => {
+      tableReady = undefined;
+      throw error;
+    });
+  return tableReady;
+};
+
+const digestScopeKey = (digest: NewsDigest) =>
+  digest.scope.sector?.id ?? (digest.scope.symbols.length > 0 ? digest.scope.symbols.join(',') : 'market');
+
+// `database` is the fingerprint of the news database (see databaseFingerprint), never the connection string
+export async function saveNewsDigest(digest: NewsDigest, database: string): Promise<StoredNewsDigest> {
+  await ensureDigestTable();
+  const createdAt = new Date().toISOString();
+  const scope = digestScopeKey(digest);
+  const result = await storageClient.execute({
+    sql: `
+      INSERT INTO news_digests (created_at, database, scope, window_from, window_to, total_articles, digest)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT (database, scope, window_from, window_to) DO UPDATE SET
+        created_at = excluded.created_at,
+        total_articles = excluded.total_articles,
+        digest = excluded.digest
+      RETURNING id
+    `,
+    args: [
+      createdAt,
+      database,
+      scope,
+      digest.window.from,
+      digest.window.to,
+      digest.totalArticles,
+      JSON.stringify(digest),
+    ],
+  });
+  return { id: Number(result.rows[0].id), createdAt, database, scope, digest };
+}
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { parseAccessPolicy } from './access-policy';
+import { buildArticleSearchQuery } from './article-search';
+import { newsSchemaNote } from './news-seed';
+import { guardSQL } from './sql-guard';
+
+const articlesPolicy = (schema?: string) =>
+  parseAccessPolicy(`
+tables:
+  articles:
+${schema ? `    schema: ${schema}\n` : ''}    allowed_columns: [id, title, slug, symbols, published_at]
+    forbidden_columns: [url, content, body]
+    max_rows: 10
+    required_order_by:
+      column: published_at
+      direction: DESC
+`);
+
+describe('seeded news schema', () => {
+  it('needs no note when the news is seeded where the agent reads articles', () => {
+    expect(newsSchemaNote('public', articlesPolicy().tables[0])).toBeUndefined();
+    expect(newsSchemaNote('demo_seed', articlesPolicy('demo_seed').tables[0])).toBeUndefined();
+  });
+
+  it('explains how to read news seeded into another schema', () => {
+    const note = newsSchemaNote('demo_seed', articlesPolicy().tables[0]);
+    expect(note).toMatch(/"public" schema/);
+    expect(note).toMatch(/schema: demo_seed/);
+  });
+
+  describe('with the articles policy pointing at demo_seed', () => {
+    const policy = articlesPolicy('demo_seed');
+
+    it('searches the seeded table', () => {
+      expect(buildArticleSearchQuery({ symbols: ['FPT'] }, policy.tables[0]).text).toContain('FROM demo_seed.articles');
+    });
+
+    it('keeps the column rules on the seeded table', () => {
+      const allowed = guardSQL('SELECT title, slug FROM demo_seed.articles ORDER BY published_at DESC LIMIT 10', {
+        policy,
+        mode: 'reject',
+      });
+      expect(allowed.allowed).toBe(true);
+
+      const forbidden = guardSQL('SELECT title, content FROM demo_seed.articles ORDER BY published_at DESC LIMIT 10', {
+        policy,
+        mode: 'reject',
+      });
+      expect(forbidden.violations.map(violation => violation.kind)).toContain('forbidden_column');
+    });
+  });
+});
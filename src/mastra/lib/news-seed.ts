@@ -0,0 +1,221 @@
+import type { ClientBase } from 'pg';
+import { findTablePolicy } from './access-policy';
+import type { TablePolicy } from './access-policy';
+import { articlesSchema } from './article-search';
+import { insertRows } from './bulk-insert';
+import type { SeededRandom } from './seeded-random';
+import { findSector, findTicker } from './ticker-reference';
+import { slugify } from './vietnamese-text';
+
+// The "news" seeding profile: an articles table shaped like the production news database that sqlAgent reads
+// (JSONB symbols, slug, published_at, plus the forbidden content/body columns), filled with Vietnamese
+// stock-market headlines, so the agent and its access policy can be tested end-to-end on a local database.
+
+export const NEWS_TABLES = ['articles'] as const;
+
+/**
+ * The agent's article tools read the schema of the articles entry in policy.yaml (public when it names none). When
+ * the news profile is seeded anywhere else, says how to make the seeded articles the ones the agent reads.
+ */
+export function newsSchemaNote(
+  schema: string,
+  policy: TablePolicy | undefined = findTablePolicy('articles'),
+): string | undefined {
+  if (!policy || articlesSchema(policy) === schema) {
+    return undefined;
+  }
+  return `The agent reads articles from the "${articlesSchema(policy)}" schema, not these. Seed with schema "${articlesSchema(policy)}" on a local database, or set schema: ${schema} for articles in policy.yaml (or a policy file in ACCESS_POLICY_PATH) to query them`;
+}
+
+export interface NewsSeedOptions {
+  articles: number;
+  // published_at is spread over this many days before endDate
+  dateSpreadDays: number;
+  endDate: Date;
+}
+
+export const DEFAULT_NEWS_ARTICLES = 500;
+export const DEFAULT_NEWS_DATE_SPREAD_DAYS = 90;
+
+interface NewsTicker {
+  symbol: string;
+  name: string;
+  sector: string;
+  weight: number;
+}
+
+// Relative share of the news flow per ticker, so a few tickers dominate as they do on real news sites. Names and
+// sectors come from the ticker reference, so the symbol resolver knows every seeded company
+const NEWS_WEIGHTS: Record<string, number> = {
+  FPT: 6,
+  CMG: 1,
+  VCB: 6,
+  VPB: 4,
+  TCB: 4,
+  BID: 3,
+  CTG: 3,
+  MBB: 3,
+  ACB: 2,
+  HPG: 5,
+  HSG: 2,
+  NKG: 1,
+  VNM: 4,
+  MSN: 3,
+  MWG: 4,
+  PNJ: 2,
+  VIC: 5,
+  VHM: 4,
+  NVL: 3,
+  SSI: 4,
+  VND: 2,
+  SHS: 1,
+  GAS: 3,
+  PLX: 2,
+  PVS: 1,
+  ACV: 1,
+  HVN: 2,
+};
+
+const TICKERS: NewsTicker[] = Object.entries(NEWS_WEIGHTS).map(([symbol, weight]) => {
+  const ticker = findTicker(symbol);
+  const sector = ticker && findSector(ticker.sector);
+  if (!ticker || !sector) {
+    throw new Error(`The ticker reference has no entry for ${symbol}, which the news seeding profile uses`);
+  }
+  return { symbol, name: ticker.shortName, sector: sector.name.toLowerCase(), weight };
+});
+
+const SOURCES = ['cafef.vn', 'vietstock.vn', 'vnexpress.net', 'tinnhanhchungkhoan.vn', 'ndh.vn'];
+
+type TemplateValues = { ticker: NewsTicker; random: SeededRandom; year: number };
+
+// Headlines about one company
+const COMPANY_TEMPLATES: ((values: TemplateValues) => string)[] = [
+  ({ ticker, random }) => `${ticker.name} báo lãi quý ${random.int(1, 5)} tăng ${random.int(5, 80)}% so với cùng kỳ`,
+  ({ ticker }) => `Cổ phiếu ${ticker.symbol} tăng trần, thanh khoản đột biến`,
+  ({ ticker, random }) => `${ticker.name} chốt quyền trả cổ tức ${random.int(5, 30)}% bằng tiền mặt`,
+  ({ ticker }) => `Khối ngoại bán ròng mạnh ${ticker.symbol} trong phiên cuối tuần`,
+  ({ ticker, random, year }) => `${ticker.name} đặt kế hoạch lợi nhuận năm ${year} tăng ${random.int(5, 40)}%`,
+  ({ ticker, random }) => `Lãnh đạo ${ticker.name} đăng ký mua ${random.int(1, 20)} triệu cổ phiếu ${ticker.symbol}`,
+  ({ ticker, random }) => `${ticker.name} phát hành ${random.int(1, 10)} nghìn tỷ đồng trái phiếu`,
+  ({ ticker }) => `${ticker.name} được nâng hạng tín nhiệm, triển vọng ổn định`,
+];
+
+// Headlines about two companies of the same sector
+const PAIR_TEMPLATES: ((ticker: NewsTicker, other: NewsTicker) => string)[] = [
+  (ticker, other) => `${ticker.symbol} và ${other.symbol} dẫn dắt nhóm ${ticker.sector} tăng điểm`,
+  (ticker, other) => `Dòng tiền rời ${ticker.symbol}, chuyển sang ${other.symbol}`,
+];
+
+// Market-wide headlines without symbols
+const MARKET_TEMPLATES: ((random: SeededRandom) => string)[] = [
+  random => `VN-Index vượt mốc ${random.int(1150, 1350).toLocaleString('vi-VN')} điểm`,
+  () => 'Ngân hàng Nhà nước giữ nguyên lãi suất điều hành',
+  () => 'Lãi suất tiết kiệm tiếp tục giảm ở nhiều ngân hàng',
+  random => `Thanh khoản thị trường chứng khoán giảm ${random.int(10, 40)}% trong tuần`,
+  () => 'Chứng khoán Việt Nam được FTSE xem xét nâng hạng',
+  random => `Khối ngoại bán ròng hơn ${random.int(200, 2000)} tỷ đồng trên HOSE`,
+  () => 'Tỷ giá USD/VND tăng mạnh, áp lực lên thị trường chứng khoán',
+];
+
+// A short article text for the forbidden columns; it only exists so queries that read it can be caught
+const articleContent = (title: string, random: SeededRandom) =>
+  [
+    `${title}.`,
+    'Theo các chuyên gia phân tích, diễn biến này phản ánh kỳ vọng của nhà đầu tư vào kết quả kinh doanh sắp tới.',
+    random.next() > 0.5
+      ? 'Giới phân tích khuyến nghị nhà đầu tư thận trọng trong ngắn hạn.'
+      : 'Dòng tiền được dự báo tiếp tục quay lại thị trường trong các phiên tới.',
+  ].join(' ');
+
+const pickWeighted = (random: SeededRandom, tickers: NewsTicker[]) => {
+  const total = tickers.reduce((sum, ticker) => sum + ticker.weight, 0);
+  let target = random.next() * total;
+  for (const ticker of tickers) {
+    target -= ticker.weight;
+    if (target < 0) {
+      return ticker;
+    }
+  }
+  return tickers[tickers.length - 1];
+};
+
+function* generateArticles(random: SeededRandom, options: NewsSeedOptions) {
+  const spreadMs = options.dateSpreadDays * 24 * 60 * 60 * 1000;
+
+  for (let id = 1; id <= options.articles; id++) {
+    const publishedAt = new Date(options.endDate.getTime() - random.next() * spreadMs);
+    publishedAt.setUTCSeconds(0, 0);
+
+    let title: string;
+    let symbols: string[];
+    const kind = random.next();
+    const ticker = pickWeighted(random, TICKERS);
+    const peers = TICKERS.filter(candidate => candidate.sector === ticker.sector && candidate !== ticker);
+    if (kind < 0.2) {
+      title = random.pick(MARKET_TEMPLATES)(random);
+      symbols = [];
+    } else if (kind < 0.35 && peers.length > 0) {
+      const other = random.pick(peers);
+      title = random.pick(PAIR_TEMPLATES)(ticker, other);
+      symbols = [ticker.symbol, other.symbol];
+    } else {
+      title = random.pick(COMPANY_TEMPLATES)({ ticker, random, year: publishedAt.getUTCFullYear() });
+      symbols = [ticker.symbol];
+    }
+
+    const source = random.pick(SOURCES);
+    const content = articleContent(title, random);
+    yield {
+      id,
+      title,
+      slug: `${slugify(title)}-${id}`,
+      symbols: JSON.stringify(symbols),
+      url: `https://${source}/${slugify(title)}-${random.int(100000, 1000000)}.htm`,
+      source,
+      published_at: publishedAt.toISOString(),
+      content,
+      body: `<p>${content}</p>`,
+    };
+  }
+}
+
+export async function createNewsTables(client: ClientBase): Promise<void> {
+  await client.query('DROP TABLE IF EXISTS articles CASCADE');
+  console.log('✅ Existing articles table dropped');
+
+  await client.query(`CREATE TABLE articles (
+    id SERIAL PRIMARY KEY,
+    title TEXT NOT NULL,
+    slug VARCHAR(255) NOT NULL UNIQUE,
+    symbols JSONB NOT NULL DEFAULT '[]'::jsonb,
+    url TEXT,
+    source VARCHAR(100),
+    published_at TIMESTAMPTZ NOT NULL,
+    content TEXT,
+    body TEXT,
+    created_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP
+  )`);
+  await client.query('CREATE INDEX articles_published_at_idx ON articles (published_at DESC)');
+  await client.query('CREATE INDEX articles_symbols_idx ON articles USING GIN (symbols)');
+
+  console.log('All news tables created successfully');
+}
+
+// Runs inside the seeding transaction, right after createNewsTables
+export async function seedNewsData(
+  client: ClientBase,
+  random: SeededRandom,
+  options: NewsSeedOptions,
+): Promise<Record<(typeof NEWS_TABLES)[number], number>> {
+  const articles = await insertRows(
+    client,
+    'articles',
+    ['id', 'title', 'slug', 'symbols', 'url', 'source', 'published_at', 'content', 'body'],
+    generateArticles(random, options),
+  );
+  // Explicit ids leave the serial sequence behind
+  await client.query(`SELECT setval(pg_get_serial_sequence('articles', 'id'), GREATEST(max(id), 1)) FROM articles`);
+  console.log(`🎉 News dataset seeded with ${articles} articles`);
+  return { articles };
+}
@@ -0,0 +1,48 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { QueryApprovalStore } from './query-approval';
+
+const query = { sql: 'SELECT title FROM articles LIMIT 10', database: 'db-1' };
+
+describe('QueryApprovalStore', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('does not spend an approval the user has not granted', () => {
+    const store = new QueryApprovalStore();
+    const approval = store.request({ ...query, reasons: ['sensitive table'] });
+    expect(store.consume(approval.id, query)).toBe(false);
+    expect(store.find(approval.id)).toBeDefined();
+  });
+
+  it('spends a granted approval only once', () => {
+    const store = new QueryApprovalStore();
+    const approval = store.request({ ...query, reasons: [] });
+    store.grant(approval.id);
+    expect(store.consume(approval.id, query)).toBe(true);
+    expect(store.consume(approval.id, query)).toBe(false);
+  });
+
+  it('refuses an approval granted for another query or database', () => {
+    const store = new QueryApprovalStore();
+    const approval = store.approve(query);
+    expect(store.consume(approval.id, { ...query, sql: 'SELECT content FROM articles LIMIT 10' })).toBe(false);
+    expect(store.consume(approval.id, { ...query, database: 'db-2' })).toBe(false);
+    expect(store.consume(approval.id, query)).toBe(true);
+  });
+
+  it('reuses the pending approval for the same query in the same thread', () => {
+    const store = new QueryApprovalStore();
+    const first = store.request({ ...query, reasons: [], threadId: 't1' });
+    expect(store.request({ ...query, reasons: [], threadId: 't1' }).id).toBe(first.id);
+    expect(store.request({ ...query, reasons: [], threadId: 't2' }).id).not.toBe(first.id);
+  });
+
+  it('drops expired approvals', () => {
+    vi.useFakeTimers();
+    const store = new QueryApprovalStore(1000);
+    const approval = store.approve(query);
+    vi.advanceTimersByTime(1000);
+    expect(store.consume(approval.id, query)).toBe(false);
+  });
+});
@@ -0,0 +1,105 @@
+import { randomUUID } from 'node:crypto';
+import { numberFromEnv } from './env';
+
+// One-time approvals for queries the review policy holds. The agent can only ask for an approval; granting it
+// happens outside the model's reach: through the approval API routes the chat UI calls when the user approves the
+// query, or in the workflow's review step after the user resumes it. An approval is spent by the first run of the
+// exact query it was granted for, on the same database.
+
+export interface QueryApproval {
+  id: string;
+  // The query as submitted to sql-execution or result-export, before any access policy rewrite
+  sql: string;
+  // Fingerprint of the target database (see databaseFingerprint), never the connection string
+  database: string;
+  reasons: string[];
+  userId?: string;
+  threadId?: string;
+  requestedAt: string;
+  expiresAt: string;
+  grantedAt?: string;
+}
+
+export const approvalTtlFromEnv = () => numberFromEnv('QUERY_APPROVAL_TTL_MS', 15 * 60 * 1000); // 15 minutes
+
+const sameQuery = (a: string, b: string) => a.trim() === b.trim();
+
+export class QueryApprovalStore {
+  private approvals = new Map<string, QueryApproval>();
+
+  constructor(private ttlMillis = approvalTtlFromEnv()) {}
+
+  // A pending approval for the user to grant; asking again for the same query in the same thread reuses it
+  request(input: Pick<QueryApproval, 'sql' | 'database' | 'reasons' | 'userId' | 'threadId'>): QueryApproval {
+    this.prune();
+    const pending = [...this.approvals.values()].find(
+      approval =>
+        !approval.grantedAt &&
+        approval.database === input.database &&
+        approval.threadId === input.threadId &&
+        sameQuery(approval.sql, input.sql),
+    );
+    if (pending) {
+      return { ...pending };
+    }
+
+    const now = Date.now();
+    const approval: QueryApproval = {
+      ...input,
+      id: randomUUID(),
+      requestedAt: new Date(now).toISOString(),
+      expiresAt: new Date(now + this.ttlMillis).toISOString(),
+    };
+    this.approvals.set(approval.id, approval);
+    return { ...approval };
+  }
+
+  find(id: string): QueryApproval | undefined {
+    this.prune();
+    const approval = this.approvals.get(id);
+    return approval ? { ...approval } : undefined;
+  }
+
+  // Only for user-facing flows; never exposed to the model
+  grant(id: string): QueryApproval | undefined {
+    this.prune();
+    const approval = this.approvals.get(id);
+    if (!approval) {
+      return undefined;
+    }
+    approval.grantedAt ??= new Date().toISOString();
+    return { ...approval };
+  }
+
+  // A granted approval for a flow where the user approved the query directly, such as a resumed workflow step
+  approve(input: Pick<QueryApproval, 'sql' | 'database'> & Partial<Pick<QueryApproval, 'reasons'>>): QueryApproval {
+    const approval = this.approvals.get(this.request({ reasons: [], ...input }).id)!;
+    approval.grantedAt ??= new Date().toISOString();
+    return { ...approval };
+  }
+
+  /**
+   * Spends a granted approval when it was granted for this query on this database. Returns false, and keeps the
+   * approval, when it is unknown, expired, not granted yet or for another query.
+   */
+  consume(id: string, query: Pick<QueryApproval, 'sql' | 'database'>): boolean {
+    this.prune();
+    const approval = this.approvals.get(id);
+    if (!approval?.grantedAt || approval.database !== query.database || !sameQuery(approval.sql, query.sql)) {
+      return false;
+    }
+    this.approvals.delete(id);
+    return true;
+  }
+
+  private prune() {
+    const now = Date.now();
+    for (const [id, approval] of this.approvals) {
+      if (Date.parse(approval.expiresAt) <= now) {
+        this.approvals.delete(id);
+      }
+    }
+  }
+}
+
+export const queryApprovals = new QueryApprovalStore();
@@ -0,0 +1,276 @@
+import { randomUUID } from 'node:crypto';
+import Cursor from 'pg-cursor';
+import type { ClientBase, FieldDef, PoolClient } from 'pg';
+import { poolRegistry } from './db-pool';
+import { numberFromEnv } from './env';
+import { beginReadOnlyTransaction } from './read-only-query';
+
+export interface ResultCaps {
+  // Rows delivered per page unless the caller asks for another page size
+  pageSize: number;
+  // Hard caps over all pages of one query; reaching either ends the result with `truncated: true`
+  maxRows: number;
+  maxBytes: number;
+  // An unread cursor is closed (and its connection returned to the pool) after this long
+  idleTimeoutMillis: number;
+  // Every open cursor holds a pooled connection, so only this many are kept; the least recently read goes first
+  maxOpenCursors: number;
+}
+
+// Name and type of a result column, so callers can tell dates and numbers from text without guessing
+export interface ResultColumn {
+  name: string;
+  dataTypeID: number;
+}
+
+export interface ResultPage {
+  rows: Record<string, unknown>[];
+  columns: ResultColumn[];
+  // Rows delivered so far, including this page
+  totalRows: number;
+  totalBytes: number;
+  // More rows can be read with `cursorToken`
+  hasMore: boolean;
+  cursorToken?: string;
+  // The result was cut short by SQL_RESULT_MAX_ROWS or SQL_RESULT_MAX_BYTES
+  truncated: boolean;
+  truncatedReason?: string;
+}
+
+interface CursorSession {
+  token: string;
+  client: PoolClient;
+  cursor: Cursor;
+  connectionString: string;
+  sql: string;
+  // Rows read ahead of the last page, so `hasMore` is known without an extra round trip
+  buffered: Record<string, unknown>[];
+  columns: ResultColumn[];
+  exhausted: boolean;
+  totalRows: number;
+  totalBytes: number;
+  busy: boolean;
+  closed: boolean;
+  timer?: NodeJS.Timeout;
+  lastReadAt: number;
+}
+
+const MAX_PAGE_SIZE = 1000;
+
+export const resultCapsFromEnv = (): ResultCaps => ({
+  pageSize: numberFromEnv('SQL_RESULT_PAGE_SIZE', 100),
+  maxRows: numberFromEnv('SQL_RESULT_MAX_ROWS', 10000),
+  maxBytes: numberFromEnv('SQL_RESULT_MAX_BYTES', 5 * 1024 * 1024), // 5 MB
+  idleTimeoutMillis: numberFromEnv('SQL_CURSOR_IDLE_TIMEOUT_MS', 60000), // 1 minute
+  maxOpenCursors: numberFromEnv('SQL_MAX_OPEN_CURSORS', 5),
+});
+
+// pg-cursor only reports the result's fields through the callback form of read()
+export const readCursorBatch = (cursor: Cursor, rows: number) =>
+  new Promise<{ rows: Record<string, unknown>[]; fields: FieldDef[] }>((resolve, reject) =>
+    cursor.read(rows, (error, batch, result) => (error ? reject(error) : resolve({ rows: batch, fields: result.fields }))),
+  );
+
+// Size of a row as the caller receives it
+const rowBytes = (row: Record<string, unknown>) => Buffer.byteLength(JSON.stringify(row));
+
+/**
+ * Server-side cursors over read-only transactions. The first page is read when the query is opened; later
+ * pages are read from the same cursor through an opaque token, so the query never runs twice. Cursors live
+ * in this process only and are closed when fully read, when idle too long, or on shutdown.
+ */
+export class QueryCursorStore {
+  private readonly sessions = new Map<string, CursorSession>();
+
+  constructor(private readonly caps: ResultCaps = resultCapsFromEnv()) {}
+
+  /**
+   * Opens a cursor and returns its first page. `prepare` runs inside the read-only transaction before the
+   * cursor is opened and returns the SQL to run, so checks that need the database (e.g. the access policy
+   * guard) can reject the query first.
+   */
+  async open(
+    connectionString: string,
+    prepare: (client: ClientBase) => Promise<string>,
+    pageSize = this.caps.pageSize,
+  ): Promise<ResultPage> {
+    const client = await poolRegistry.getPool(connectionString).connect();
+    let session: CursorSession | undefined;
+    try {
+      await beginReadOnlyTransaction(client);
+      const sql = await prepare(client);
+      // pg-cursor always uses the extended query protocol, so the server still accepts a single statement only
+      const cursor = client.query(new Cursor(sql));
+      session = {
+        token: randomUUID(),
+        client,
+        cursor,
+        connectionString,
+        sql,
+        buffered: [],
+        columns: [],
+        exhausted: false,
+        totalRows: 0,
+        totalBytes: 0,
+        busy: false,
+        closed: false,
+        lastReadAt: Date.now(),
+      };
+    } catch (error) {
+      await client.query('ROLLBACK').catch(() => undefined);
+      client.release(error instanceof Error ? error : true);
+      throw error;
+    }
+
+    return this.readPage(session, pageSize);
+  }
+
+  async next(cursorToken: string, pageSize = this.caps.pageSize): Promise<ResultPage> {
+    const session = this.sessions.get(cursorToken);
+    if (!session) {
+      throw new Error(`Unknown or expired cursor token "${cursorToken}"; run the query again`);
+    }
+    if (session.busy) {
+      throw new Error('The previous page of this cursor is still being read');
+    }
+    return this.readPage(session, pageSize);
+  }
+
+  // SQL behind a token, so callers that only hold the token can report what is being paged
+  queryFor(cursorToken: string): string | undefined {
+    return this.sessions.get(cursorToken)?.sql;
+  }
+
+  connectionStringFor(cursorToken: string): string | undefined {
+    return this.sessions.get(cursorToken)?.connectionString;
+  }
+
+  async close(cursorToken: string) {
+    const session = this.sessions.get(cursorToken);
+    if (session) {
+      await this.closeSession(session);
+    }
+  }
+
+  async closeAll() {
+    await Promise.all(Array.from(this.sessions.values()).map(session => this.closeSession(session)));
+  }
+
+  private async readPage(session: CursorSession, requestedPageSize: number): Promise<ResultPage> {
+    const pageSize = Math.min(Math.max(1, Math.floor(requestedPageSize)), MAX_PAGE_SIZE);
+    const rows: Record<string, unknown>[] = [];
+    let truncatedReason: string | undefined;
+
+    // The idle timer must not close the cursor while this page is being read
+    if (session.timer) {
+      clearTimeout(session.timer);
+    }
+    session.busy = true;
+    try {
+      while (rows.length < pageSize) {
+        // Read one row past the page so the last page can be recognised without another round trip
+        if (session.buffered.length === 0 && !session.exhausted) {
+          const wanted = pageSize - rows.length + 1;
+          const batch = await readCursorBatch(session.cursor, wanted);
+          session.buffered = batch.rows;
+          session.exhausted = batch.rows.length < wanted;
+          if (session.columns.length === 0) {
+            session.columns = batch.fields.map(field => ({ name: field.name, dataTypeID: field.dataTypeID }));
+          }
+        }
+        const row = session.buffered.shift();
+        if (!row) {
+          break;
+        }
+
+        if (session.totalRows >= this.caps.maxRows) {
+          truncatedReason = `row limit of ${this.caps.maxRows} reached (SQL_RESULT_MAX_ROWS)`;
+          break;
+        }
+        const bytes = rowBytes(row);
+        if (session.totalBytes + bytes > this.caps.maxBytes) {
+          truncatedReason = `size limit of ${this.caps.maxBytes} bytes reached (SQL_RESULT_MAX_BYTES)`;
+          break;
+        }
+        rows.push(row);
+        session.totalRows += 1;
+        session.totalBytes += bytes;
+      }
+
+      if (!truncatedReason && session.buffered.length === 0 && !session.exhausted) {
+        session.buffered = await session.cursor.read(1);
+        session.exhausted = session.buffered.length === 0;
+      }
+    } catch (error) {
+      await this.closeSession(session, error);
+      throw error;
+    } finally {
+      session.busy = false;
+    }
+
+    const hasMore = !truncatedReason && session.buffered.length > 0;
+    if (hasMore) {
+      this.keepOpen(session);
+    } else {
+      await this.closeSession(session);
+    }
+
+    return {
+      rows,
+      columns: session.columns,
+      totalRows: session.totalRows,
+      totalBytes: session.totalBytes,
+      hasMore,
+      cursorToken: hasMore ? session.token : undefined,
+      truncated: Boolean(truncatedReason),
+      truncatedReason,
+    };
+  }
+
+  private keepOpen(session: CursorSession) {
+    session.lastReadAt = Date.now();
+    if (!this.sessions.has(session.token)) {
+      this.sessions.set(session.token, session);
+      this.evictOverflow();
+    }
+
+    session.timer = setTimeout(() => {
+      console.warn(`⚠️ Closing cursor ${session.token} after ${this.caps.idleTimeoutMillis}ms without a read`);
+      void this.closeSession(session);
+    }, this.caps.idleTimeoutMillis);
+    session.timer.unref();
+  }
+
+  private evictOverflow() {
+    const idle = Array.from(this.sessions.values())
+      .filter(session => !session.busy)
+      .sort((a, b) => a.lastReadAt - b.lastReadAt);
+    while (this.sessions.size > this.caps.maxOpenCursors && idle.length > 0) {
+      const oldest = idle.shift()!;
+      console.warn(`⚠️ Closing cursor ${oldest.token}: more than ${this.caps.maxOpenCursors} cursors are open`);
+      void this.closeSession(oldest);
+    }
+  }
+
+  private async closeSession(session: CursorSession, failure?: unknown) {
+    if (session.closed) {
+      return;
+    }
+    session.closed = true;
+    if (session.timer) {
+      clearTimeout(session.timer);
+    }
+    this.sessions.delete(session.token);
+
+    try {
+      await session.cursor.close();
+      await session.client.query('ROLLBACK');
+      session.client.release(failure instanceof Error ? failure : failure ? true : undefined);
+    } catch (error) {
+      // A connection that cannot roll back cleanly is discarded rather than reused
+      session.client.release(error instanceof Error ? error : true);
+    }
+  }
+}
+
+export const queryCursors = new QueryCursorStore();
@@ -0,0 +1,80 @@
+import type { ClientBase } from 'pg';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { queryApprovals } from './query-approval';
+import { HeldQueryError, heldQueryResult, reviewAndApprove, staticBlock } from './query-review';
+
+// The review never writes the audit log itself; keep the storage client out of the test
+vi.mock('./audit-log', () => ({ recordAuditEntry: vi.fn() }));
+
+const sql = 'SELECT title, slug FROM articles ORDER BY published_at DESC LIMIT 10';
+const columns = ['id', 'title', 'slug', 'symbols', 'published_at', 'url', 'content'];
+
+// A client that knows the articles columns and plans every query at `cost`
+const fakeClient = (cost: number) =>
+  ({
+    query: async (query: string | { text: string }) => {
+      const text = typeof query === 'string' ? query : query.text;
+      if (text.includes('information_schema.columns')) {
+        return {
+          rows: columns.map(column_name => ({ table_schema: 'public', table_name: 'articles', column_name })),
+        };
+      }
+      if (text.startsWith('EXPLAIN')) {
+        return { rows: [{ 'QUERY PLAN': [{ Plan: { 'Total Cost': cost, 'Plan Rows': 10 } }] }] };
+      }
+      return { rows: [] };
+    },
+  }) as unknown as ClientBase;
+
+const held = (promise: Promise<unknown>) =>
+  promise.then(
+    () => undefined,
+    error => (error instanceof HeldQueryError ? error : undefined),
+  );
+
+describe('reviewAndApprove', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('lets a cheap, confident query run without approval', async () => {
+    const { guard, review } = await reviewAndApprove(fakeClient(10), { sql, database: 'db-1', confidence: 0.9 });
+    expect(review.decision).toBe('auto_approve');
+    expect(guard.sql).toBe(sql);
+  });
+
+  it('holds an expensive query until the user approves it', async () => {
+    const request = { sql, database: 'db-1', confidence: 0.9 };
+    const error = await held(reviewAndApprove(fakeClient(1e6), request));
+    expect(error?.review.decision).toBe('require_approval');
+
+    const result = heldQueryResult(error!, request);
+    expect(result).toMatchObject({ success: false, requiresApproval: true });
+
+    queryApprovals.grant(result.approvalId!);
+    const approved = await reviewAndApprove(fakeClient(1e6), { ...request, approvalId: result.approvalId });
+    expect(approved.review.decision).toBe('require_approval');
+
+    // The approval is spent by the run it allowed
+    expect(await held(reviewAndApprove(fakeClient(1e6), { ...request, approvalId: result.approvalId }))).toBeDefined();
+  });
+
+  it('does not accept an approval granted for another query', async () => {
+    const approval = queryApprovals.approve({ sql: `${sql} OFFSET 10`, database: 'db-1' });
+    const error = await held(
+      reviewAndApprove(fakeClient(1e6), { sql, database: 'db-1', confidence: 0.9, approvalId: approval.id }),
+    );
+    expect(error?.review.decision).toBe('require_approval');
+  });
+});
+
+describe('staticBlock', () => {
+  it('blocks writes before any connection is used', () => {
+    expect(staticBlock('DELETE FROM articles')?.decision).toBe('block');
+    expect(staticBlock(sql)).toBeUndefined();
+  });
+});
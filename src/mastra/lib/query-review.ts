@@ -0,0 +1,127 @@
+import type { ClientBase } from 'pg';
+import { recordAuditEntry } from './audit-log';
+import type { AuditEntry } from './audit-log';
+import { guardQuery } from './guarded-query';
+import { queryApprovals } from './query-approval';
+import { describeReview, reviewQuery } from './review-policy';
+import type { ReviewResult } from './review-policy';
+import { referencedTables } from './sql-guard';
+import type { SqlGuardResult } from './sql-guard';
+import { explainQuery, pgErrorDetails } from './sql-validation';
+
+// The path every tool takes before it runs a query for the user (sql-execution, result-export): access policy,
+// EXPLAIN, review policy and, for held queries, the user's approval. One path, so the tools cannot drift apart.
+
+export interface QueryReviewRequest {
+  // The query as the caller sent it; an approval is granted for this exact text
+  sql: string;
+  // Fingerprint of the database the query runs on
+  database: string;
+  // Confidence reported by sql-generation, 0-1
+  confidence?: number;
+  approvalId?: string;
+  userId?: string;
+  threadId?: string;
+}
+
+export interface ApprovedQuery {
+  guard: SqlGuardResult;
+  review: ReviewResult;
+}
+
+// Thrown inside the transaction when the review holds or blocks the query, so nothing runs
+export class HeldQueryError extends Error {
+  constructor(
+    readonly review: ReviewResult,
+    readonly executedQuery: string,
+  ) {
+    super(describeReview(review));
+    this.name = 'HeldQueryError';
+  }
+}
+
+export const describeBlockedQuery = (review: ReviewResult) =>
+  `The query is blocked by the review policy: ${review.reasons.join('; ')}`;
+
+// Blocked statements are refused before a connection is even borrowed, approved or not
+export function staticBlock(sql: string): ReviewResult | undefined {
+  const review = reviewQuery({ sql });
+  return review.decision === 'block' ? review : undefined;
+}
+
+/**
+ * Guards the query, reviews it as it will run with the planner's cost estimate, and consumes the user's
+ * approval when the review holds it. Throws HeldQueryError when the query may not run.
+ */
+export async function reviewAndApprove(client: ClientBase, request: QueryReviewRequest): Promise<ApprovedQuery> {
+  const guard = await guardQuery(client, request.sql);
+  const explain = await explainQuery(client, guard.sql, { inTransaction: true });
+  const review = reviewQuery({
+    sql: guard.sql,
+    confidence: request.confidence,
+    estimatedCost: explain.valid ? explain.estimatedCost : undefined,
+  });
+  // A held query runs only with an approval the user granted for this exact query; the model cannot grant one
+  const approved =
+    review.decision === 'require_approval' &&
+    request.approvalId !== undefined &&
+    queryApprovals.consume(request.approvalId, { sql: request.sql, database: request.database });
+  if (review.decision === 'block' || (review.decision === 'require_approval' && !approved)) {
+    throw new HeldQueryError(review, guard.sql);
+  }
+  return { guard, review };
+}
+
+// Tool result for a held query: a blocked one is refused, any other waits for an approval the user grants in the app
+export function heldQueryResult({ review, executedQuery }: HeldQueryError, request: QueryReviewRequest) {
+  console.warn(`✋ Query held by the review policy: ${describeReview(review)}`);
+  if (review.decision === 'block') {
+    return { success: false, error: describeBlockedQuery(review), review, executedQuery };
+  }
+  const approval = queryApprovals.request({
+    sql: request.sql,
+    database: request.database,
+    reasons: review.reasons,
+    userId: request.userId,
+    threadId: request.threadId,
+  });
+  return {
+    success: false,
+    requiresApproval: true,
+    approvalId: approval.id,
+    approvalExpiresAt: approval.expiresAt,
+    error: `The query needs the user's approval: ${review.reasons.join('; ')}. The user approves it in the app (approval ${approval.id}); then call again with the same query and approvalId`,
+    review,
+    executedQuery,
+  };
+}
+
+type QueryAuditContext = Pick<AuditEntry, 'event' | 'userId' | 'threadId' | 'runId' | 'database' | 'question'> & {
+  generatedSql: string;
+};
+
+interface QueryAuditOutcome {
+  executedQuery: string;
+  appliedRules: string[];
+  rowCount?: number;
+  error?: unknown;
+}
+
+// Starts the clock for one audited run; the returned function records how it ended
+export function startQueryAudit(context: QueryAuditContext) {
+  const startedAt = Date.now();
+  return (success: boolean, outcome: QueryAuditOutcome) => {
+    const failure = outcome.error === undefined ? undefined : pgErrorDetails(outcome.error);
+    return recordAuditEntry({
+      ...context,
+      sanitizedSql: outcome.executedQuery,
+      sanitizationWarnings: outcome.appliedRules,
+      tables: referencedTables(outcome.executedQuery),
+      durationMs: Date.now() - startedAt,
+      rowCount: outcome.rowCount,
+      success,
+      errorCode: failure?.code,
+      errorMessage: failure?.message,
+    });
+  };
+}
@@ -0,0 +1,62 @@
+import type { ClientBase, QueryConfig, QueryResult } from 'pg';
+import { numberFromEnv } from './env';
+
+const DEFAULT_STATEMENT_TIMEOUT_MS = 15000; // 15 seconds
+
+// pg only sends a query through Parse/Bind/Execute when asked to; @types/pg does not declare the option
+type ExtendedQueryConfig = QueryConfig & { queryMode: 'extended' };
+
+export const readOnlyStatementTimeoutFromEnv = () =>
+  numberFromEnv('SQL_STATEMENT_TIMEOUT_MS', DEFAULT_STATEMENT_TIMEOUT_MS);
+
+/**
+ * Connection string for model-generated queries. An explicit connection string wins, then the optional
+ * read-only role (NEWS_DATABASE_READONLY_URL), then the regular NEWS_DATABASE_URL.
+ */
+export const resolveReadOnlyConnectionString = (connectionString?: string) =>
+  connectionString || process.env.NEWS_DATABASE_READONLY_URL || process.env.NEWS_DATABASE_URL;
+
+/**
+ * Starts a `BEGIN READ ONLY` transaction with a transaction-scoped statement timeout. The caller must end
+ * it with ROLLBACK; use `withReadOnlyTransaction` unless the transaction has to outlive one call.
+ */
+export async function beginReadOnlyTransaction(
+  client: ClientBase,
+  statementTimeoutMillis = readOnlyStatementTimeoutFromEnv(),
+) {
+  await client.query('BEGIN READ ONLY');
+  try {
+    // SET does not accept bind parameters; the value is a number we produced ourselves
+    await client.query(`SET LOCAL statement_timeout = ${Math.floor(statementTimeoutMillis)}`);
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  }
+}
+
+/**
+ * Runs `fn` inside `BEGIN READ ONLY` with a transaction-scoped statement timeout. PostgreSQL rejects any
+ * write in the transaction, including ones made by functions called from a SELECT, and the transaction is
+ * always rolled back so nothing it did can outlive the call.
+ */
+export async function withReadOnlyTransaction<T>(
+  client: ClientBase,
+  fn: (client: ClientBase) => Promise<T>,
+  statementTimeoutMillis = readOnlyStatementTimeoutFromEnv(),
+): Promise<T> {
+  await beginReadOnlyTransaction(client, statementTimeoutMillis);
+  try {
+    return await fn(client);
+  } finally {
+    await client.query('ROLLBACK');
+  }
+}
+
+/**
+ * Executes a single statement over the extended query protocol. The server's Parse message accepts
+ * exactly one statement, so `SELECT ...; DROP TABLE ...` fails before anything runs.
+ */
+export async function querySingleStatement(client: ClientBase, sql: string): Promise<QueryResult> {
+  const config: ExtendedQueryConfig = { text: sql, queryMode: 'extended' };
+  return client.query(config);
+}
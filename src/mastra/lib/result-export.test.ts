@@ -0,0 +1,63 @@
+import { mkdtemp, readFile, readdir, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import type { ClientBase, FieldDef } from 'pg';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { PG_TYPE_OIDS } from './pg-type-oids';
+import { exportQueryResult } from './result-export';
+
+const fields = [{ name: 'title', dataTypeID: PG_TYPE_OIDS.text }] as FieldDef[];
+
+// A client whose cursor returns `rows` once and then nothing
+const fakeClient = (rows: Record<string, unknown>[]) => {
+  let pending = rows;
+  return {
+    query: () => ({
+      read: (_count: number, callback: (error: undefined, rows: unknown[], result: { fields: FieldDef[] }) => void) => {
+        const batch = pending;
+        pending = [];
+        callback(undefined, batch, { fields });
+      },
+      close: async () => undefined,
+    }),
+  } as unknown as ClientBase;
+};
+
+describe('exportQueryResult', () => {
+  let outputDir: string;
+
+  beforeEach(async () => {
+    outputDir = await mkdtemp(path.join(tmpdir(), 'result-export-'));
+  });
+
+  afterEach(async () => {
+    await rm(outputDir, { recursive: true, force: true });
+  });
+
+  const exportTitles = (title: string, overwrite?: boolean) =>
+    exportQueryResult(fakeClient([{ title }]), 'SELECT title FROM articles', {
+      format: 'csv',
+      fileName: 'news',
+      outputDir,
+      overwrite,
+    });
+
+  it('writes the export under a numbered name instead of replacing a file', async () => {
+    const first = await exportTitles('first');
+    const second = await exportTitles('second');
+
+    expect(path.basename(first.path)).toBe('news.csv');
+    expect(path.basename(second.path)).toBe('news-1.csv');
+    expect(await readFile(first.path, 'utf8')).toContain('first');
+    expect(await readFile(second.path, 'utf8')).toContain('second');
+  });
+
+  it('replaces the file when overwrite is set', async () => {
+    await exportTitles('first');
+    const replaced = await exportTitles('second', true);
+
+    expect(path.basename(replaced.path)).toBe('news.csv');
+    expect(await readFile(replaced.path, 'utf8')).toContain('second');
+    expect(await readdir(outputDir)).toEqual(['news.csv']);
+  });
+});
@@ -0,0 +1,494 @@
+import { createHash, randomUUID } from 'node:crypto';
+import { createReadStream, createWriteStream } from 'node:fs';
+import type { WriteStream } from 'node:fs';
+import { link, mkdir, rename, stat, unlink } from 'node:fs/promises';
+import path from 'node:path';
+import { ParquetSchema, ParquetWriter } from '@dsnp/parquetjs';
+import type { FieldDefinition } from '@dsnp/parquetjs';
+import { stringify } from 'csv-stringify/sync';
+import ExcelJS from 'exceljs';
+import Cursor from 'pg-cursor';
+import { types } from 'pg';
+import type { ClientBase, FieldDef } from 'pg';
+import { numberFromEnv } from './env';
+import { PG_TYPE_OIDS } from './pg-type-oids';
+import { readCursorBatch } from './query-cursor';
+
+export const exportFormats = ['csv', 'jsonl', 'parquet', 'xlsx'] as const;
+export type ExportFormat = (typeof exportFormats)[number];
+
+// How a PostgreSQL column is carried into each file format
+export type ExportColumnKind =
+  | 'boolean'
+  | 'integer'
+  | 'bigint'
+  | 'float'
+  | 'numeric'
+  | 'date'
+  | 'timestamp'
+  | 'timestamptz'
+  | 'json'
+  | 'text';
+
+export interface ExportColumn {
+  name: string;
+  kind: ExportColumnKind;
+  // Declared numeric(precision, scale), when the column has one
+  precision?: number;
+  scale?: number;
+}
+
+export interface ExportResult {
+  path: string;
+  format: ExportFormat;
+  rowCount: number;
+  bytes: number;
+  // sha256 of the written file, hex encoded
+  checksum: string;
+  columns: ExportColumn[];
+  // Rows stopped at EXPORT_MAX_ROWS
+  truncated: boolean;
+}
+
+export interface ExportOptions {
+  format: ExportFormat;
+  // File name without extension; a timestamped name is used when omitted
+  fileName?: string;
+  outputDir?: string;
+  maxRows?: number;
+  // Replace a file of the same name instead of writing the export under a numbered name next to it
+  overwrite?: boolean;
+}
+
+type Row = Record<string, unknown>;
+
+interface ResultWriter {
+  writeRows(rows: Row[]): Promise<void>;
+  finish(): Promise<void>;
+}
+
+const BATCH_SIZE = 1000;
+// A numeric with more digits than this does not survive a round trip through a JavaScript number
+const MAX_SAFE_DIGITS = 15;
+
+// These types are read as the server's text so no precision is lost to JavaScript numbers or Dates
+const RAW_TEXT_OIDS = new Set<number>([
+  PG_TYPE_OIDS.int8,
+  PG_TYPE_OIDS.numeric,
+  PG_TYPE_OIDS.date,
+  PG_TYPE_OIDS.timestamp,
+  PG_TYPE_OIDS.timestamptz,
+]);
+const rawTextTypes = {
+  getTypeParser: ((oid: number, format?: 'text' | 'binary') =>
+    RAW_TEXT_OIDS.has(oid) ? (value: string) => value : types.getTypeParser(oid, format)) as typeof types.getTypeParser,
+};
+
+export const exportOutputDirFromEnv = () => path.resolve(process.env.EXPORT_OUTPUT_DIR || 'exports');
+
+export const exportMaxRowsFromEnv = () => numberFromEnv('EXPORT_MAX_ROWS', 1000000);
+
+const columnKind = (field: FieldDef): ExportColumnKind => {
+  switch (field.dataTypeID) {
+    case PG_TYPE_OIDS.bool:
+      return 'boolean';
+    case PG_TYPE_OIDS.int2:
+    case PG_TYPE_OIDS.int4:
+    case PG_TYPE_OIDS.oid:
+      return 'integer';
+    case PG_TYPE_OIDS.int8:
+      return 'bigint';
+    case PG_TYPE_OIDS.float4:
+    case PG_TYPE_OIDS.float8:
+      return 'float';
+    case PG_TYPE_OIDS.numeric:
+      return 'numeric';
+    case PG_TYPE_OIDS.date:
+      return 'date';
+    case PG_TYPE_OIDS.timestamp:
+      return 'timestamp';
+    case PG_TYPE_OIDS.timestamptz:
+      return 'timestamptz';
+    case PG_TYPE_OIDS.json:
+    case PG_TYPE_OIDS.jsonb:
+      return 'json';
+    default:
+      return 'text';
+  }
+};
+
+const toExportColumn = (field: FieldDef): ExportColumn => {
+  const column: ExportColumn = { name: field.name, kind: columnKind(field) };
+  // numeric(p, s) is stored in the type modifier as ((p << 16) | s) + 4; -1 means unconstrained
+  if (column.kind === 'numeric' && field.dataTypeModifier >= 4) {
+    column.precision = ((field.dataTypeModifier - 4) >> 16) & 0xffff;
+    column.scale = (field.dataTypeModifier - 4) & 0xffff;
+  }
+  return column;
+};
+
+// '2024-05-01 08:30:00.123456+07' -> '2024-05-01T08:30:00.123456+07:00'
+const isoTimestamp = (text: string) =>
+  text.replace(' ', 'T').replace(/([+-]\d{2})(?::?(\d{2}))?(?::\d{2})?$/, (_, hours, minutes) => `${hours}:${minutes ?? '00'}`);
+
+const isoTimestampWithoutZone = (text: string) => text.replace(' ', 'T');
+
+// Microseconds since the epoch, keeping the fraction PostgreSQL sends; infinite or BC values have no equivalent
+const timestampMicros = (text: string, withZone: boolean): bigint | null => {
+  const iso = withZone ? isoTimestamp(text) : `${isoTimestampWithoutZone(text)}Z`;
+  const fraction = iso.match(/\.(\d+)/)?.[1] ?? '';
+  const millis = Date.parse(iso.replace(/\.\d+/, ''));
+  if (!Number.isFinite(millis)) {
+    return null;
+  }
+  return BigInt(millis) * 1000n + BigInt(fraction.padEnd(6, '0').slice(0, 6));
+};
+
+// '123.4' with scale 2 -> 12340n, the unscaled integer Parquet stores for DECIMAL
+const unscaledDecimal = (text: string, scale: number): bigint | null => {
+  const match = text.match(/^(-?)(\d*)(?:\.(\d*))?$/);
+  if (!match) {
+    return null;
+  }
+  const [, sign, whole, fraction = ''] = match;
+  return BigInt(`${sign}${whole || '0'}${fraction.padEnd(scale, '0').slice(0, scale)}`);
+};
+
+// Bytes of the smallest two's complement integer that holds every value with `precision` digits
+const decimalByteLength = (precision: number) => Math.ceil((precision * Math.log2(10) + 1) / 8);
+
+// Parquet DECIMAL as a fixed-length big-endian two's complement integer, which keeps every digit exactly
+const decimalBytes = (unscaled: bigint, length: number) => {
+  let value = unscaled < 0n ? (1n << BigInt(length * 8)) + unscaled : unscaled;
+  const bytes = Buffer.alloc(length);
+  for (let index = length - 1; index >= 0; index--) {
+    bytes[index] = Number(value & 0xffn);
+    value >>= 8n;
+  }
+  return bytes;
+};
+
+// Text representation for CSV, and for JSON Lines apart from JSON and array values
+const textValue = (value: unknown, column: ExportColumn): string | null => {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  if (column.kind === 'timestamptz') {
+    return isoTimestamp(String(value));
+  }
+  if (column.kind === 'timestamp') {
+    return isoTimestampWithoutZone(String(value));
+  }
+  if (Buffer.isBuffer(value)) {
+    return `\\x${value.toString('hex')}`;
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (typeof value === 'object') {
+    return JSON.stringify(value);
+  }
+  return String(value);
+};
+
+const jsonValue = (value: unknown, column: ExportColumn): unknown => {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  // Keep JSON documents and arrays structured; bigint and numeric stay strings so no digits are lost
+  if (column.kind === 'json' || (Array.isArray(value) && !Buffer.isBuffer(value))) {
+    return value;
+  }
+  if (['boolean', 'integer', 'float'].includes(column.kind)) {
+    return value;
+  }
+  return textValue(value, column);
+};
+
+const writeChunk = (stream: WriteStream, chunk: string) =>
+  new Promise<void>((resolve, reject) => stream.write(chunk, error => (error ? reject(error) : resolve())));
+
+const endStream = (stream: WriteStream) =>
+  new Promise<void>((resolve, reject) => {
+    stream.once('error', reject);
+    stream.end(resolve);
+  });
+
+const csvWriter = (filePath: string, columns: ExportColumn[]): ResultWriter => {
+  const stream = createWriteStream(filePath);
+  let headerWritten = false;
+  return {
+    async writeRows(rows) {
+      const header = headerWritten ? [] : [columns.map(column => column.name)];
+      headerWritten = true;
+      const records = rows.map(row => columns.map(column => textValue(row[column.name], column)));
+      await writeChunk(stream, stringify([...header, ...records]));
+    },
+    async finish() {
+      if (!headerWritten) {
+        await writeChunk(stream, stringify([columns.map(column => column.name)]));
+      }
+      await endStream(stream);
+    },
+  };
+};
+
+const jsonLinesWriter = (filePath: string, columns: ExportColumn[]): ResultWriter => {
+  const stream = createWriteStream(filePath);
+  return {
+    async writeRows(rows) {
+      const lines = rows.map(row =>
+        JSON.stringify(Object.fromEntries(columns.map(column => [column.name, jsonValue(row[column.name], column)]))),
+      );
+      await writeChunk(stream, `${lines.join('\n')}\n`);
+    },
+    finish: () => endStream(stream),
+  };
+};
+
+const parquetField = (column: ExportColumn): FieldDefinition => {
+  switch (column.kind) {
+    case 'boolean':
+      return { type: 'BOOLEAN', optional: true };
+    case 'integer':
+      return { type: 'INT32', optional: true };
+    case 'bigint':
+      return { type: 'INT64', optional: true };
+    case 'float':
+      return { type: 'DOUBLE', optional: true };
+    case 'numeric':
+      // DECIMAL needs a declared precision; unconstrained numerics are kept exact as text
+      return column.precision
+        ? {
+            type: 'DECIMAL',
+            precision: column.precision,
+            scale: column.scale ?? 0,
+            typeLength: decimalByteLength(column.precision),
+            optional: true,
+          }
+        : { type: 'UTF8', optional: true };
+    case 'date':
+      return { type: 'DATE', optional: true };
+    case 'timestamp':
+    case 'timestamptz':
+      return { type: 'TIMESTAMP_MICROS', optional: true };
+    case 'json':
+      return { type: 'JSON', optional: true };
+    default:
+      return { type: 'UTF8', optional: true };
+  }
+};
+
+const parquetValue = (value: unknown, column: ExportColumn, field: FieldDefinition): unknown => {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  switch (field.type) {
+    case 'INT64':
+      return BigInt(String(value));
+    case 'DECIMAL': {
+      const unscaled = unscaledDecimal(String(value), column.scale ?? 0);
+      return unscaled === null ? null : decimalBytes(unscaled, field.typeLength!);
+    }
+    case 'DATE': {
+      const millis = Date.parse(`${value}T00:00:00Z`);
+      return Number.isFinite(millis) ? new Date(millis) : null;
+    }
+    case 'TIMESTAMP_MICROS':
+      return timestampMicros(String(value), column.kind === 'timestamptz');
+    case 'JSON':
+      return value;
+    case 'UTF8':
+      return textValue(value, column);
+    default:
+      return value;
+  }
+};
+
+const parquetWriter = async (filePath: string, columns: ExportColumn[]): Promise<ResultWriter> => {
+  const fields = Object.fromEntries(columns.map(column => [column.name, parquetField(column)]));
+  const writer = await ParquetWriter.openFile(new ParquetSchema(fields), filePath);
+  return {
+    async writeRows(rows) {
+      for (const row of rows) {
+        const record: Row = {};
+        columns.forEach(column => {
+          const value = parquetValue(row[column.name], column, fields[column.name]);
+          // Optional Parquet fields are written as absent rather than null
+          if (value !== null) {
+            record[column.name] = value;
+          }
+        });
+        await writer.appendRow(record);
+      }
+    },
+    finish: () => writer.close(),
+  };
+};
+
+// Excel only has doubles and zone-less dates: long numerics stay text, timestamptz values are written in UTC
+const excelValue = (value: unknown, column: ExportColumn): unknown => {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  switch (column.kind) {
+    case 'boolean':
+    case 'integer':
+    case 'float':
+      return value;
+    case 'bigint':
+    case 'numeric': {
+      const digits = String(value).replace(/[^0-9]/g, '').replace(/^0+/, '');
+      return digits.length <= MAX_SAFE_DIGITS && Number.isFinite(Number(value)) ? Number(value) : String(value);
+    }
+    case 'date':
+    case 'timestamp':
+    case 'timestamptz': {
+      const iso = column.kind === 'date' ? `${value}T00:00:00Z` : (textValue(value, column) as string);
+      const millis = Date.parse(column.kind === 'timestamp' ? `${iso}Z` : iso);
+      return Number.isFinite(millis) ? new Date(millis) : String(value);
+    }
+    default:
+      return textValue(value, column);
+  }
+};
+
+const EXCEL_NUMBER_FORMATS: Partial<Record<ExportColumnKind, string>> = {
+  date: 'yyyy-mm-dd',
+  timestamp: 'yyyy-mm-dd hh:mm:ss.000',
+  timestamptz: 'yyyy-mm-dd hh:mm:ss.000',
+};
+
+const excelWriter = (filePath: string, columns: ExportColumn[]): ResultWriter => {
+  const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({ filename: filePath, useSharedStrings: false });
+  const sheet = workbook.addWorksheet('Result');
+  sheet.columns = columns.map(column => ({
+    header: column.kind === 'timestamptz' ? `${column.name} (UTC)` : column.name,
+    key: column.name,
+    style: EXCEL_NUMBER_FORMATS[column.kind] ? { numFmt: EXCEL_NUMBER_FORMATS[column.kind] } : undefined,
+  }));
+  return {
+    async writeRows(rows) {
+      rows.forEach(row => {
+        sheet.addRow(Object.fromEntries(columns.map(column => [column.name, excelValue(row[column.name], column)])))
+          .commit();
+      });
+    },
+    async finish() {
+      sheet.commit();
+      await workbook.commit();
+    },
+  };
+};
+
+const openWriter = (format: ExportFormat, filePath: string, columns: ExportColumn[]): Promise<ResultWriter> | ResultWriter => {
+  switch (format) {
+    case 'csv':
+      return csvWriter(filePath, columns);
+    case 'jsonl':
+      return jsonLinesWriter(filePath, columns);
+    case 'parquet':
+      return parquetWriter(filePath, columns);
+    case 'xlsx':
+      return excelWriter(filePath, columns);
+  }
+};
+
+const sha256File = (filePath: string) =>
+  new Promise<string>((resolve, reject) => {
+    const hash = createHash('sha256');
+    createReadStream(filePath)
+      .on('data', chunk => hash.update(chunk))
+      .on('end', () => resolve(hash.digest('hex')))
+      .on('error', reject);
+  });
+
+// Only the base name is used, so a caller cannot write outside the output directory
+const safeFileName = (fileName: string | undefined, format: ExportFormat) => {
+  const base = (fileName ? path.basename(fileName).replace(/\.[^.]*$/, '') : '').replace(/[^\w.-]+/g, '_');
+  const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+  return `${base || `result-${stamp}`}.${format}`;
+};
+
+// Gives the finished file its name; without overwrite a taken name gets a -1, -2, ... suffix instead
+const publishFile = async (partialPath: string, filePath: string, overwrite: boolean) => {
+  if (overwrite) {
+    await rename(partialPath, filePath);
+    return filePath;
+  }
+
+  const { dir, name, ext } = path.parse(filePath);
+  for (let suffix = 0; ; suffix++) {
+    const candidate = suffix === 0 ? filePath : path.join(dir, `${name}-${suffix}${ext}`);
+    try {
+      // Unlike rename, link fails when the name exists, so a concurrent export is never replaced either
+      await link(partialPath, candidate);
+      await unlink(partialPath);
+      return candidate;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+        throw error;
+      }
+    }
+  }
+};
+
+/**
+ * Streams the rows of `sql` through a cursor into a file, one batch at a time. The caller provides the client
+ * and transaction (normally read-only); the file only appears under its final name once it is complete, and
+ * never replaces an existing file unless `overwrite` is set.
+ */
+export async function exportQueryResult(client: ClientBase, sql: string, options: ExportOptions): Promise<ExportResult> {
+  const outputDir = options.outputDir ?? exportOutputDirFromEnv();
+  const maxRows = options.maxRows ?? exportMaxRowsFromEnv();
+  await mkdir(outputDir, { recursive: true });
+
+  let filePath = path.join(outputDir, safeFileName(options.fileName, options.format));
+  const partialPath = `${filePath}.${randomUUID()}.partial`;
+
+  const cursor = client.query(new Cursor(sql, undefined, { types: rawTextTypes }));
+  let writer: ResultWriter | undefined;
+  let columns: ExportColumn[] = [];
+  let rowCount = 0;
+  let truncated = false;
+
+  try {
+    while (true) {
+      const requested = Math.min(BATCH_SIZE, maxRows - rowCount + 1);
+      const batch = await readCursorBatch(cursor, requested);
+      if (!writer) {
+        columns = batch.fields.map(toExportColumn);
+        writer = await openWriter(options.format, partialPath, columns);
+      }
+
+      // One row more than the cap is read to tell a capped result from one that fits exactly
+      const rows = batch.rows.slice(0, maxRows - rowCount);
+      truncated = batch.rows.length > rows.length;
+      if (rows.length > 0) {
+        await writer.writeRows(rows);
+        rowCount += rows.length;
+      }
+      if (truncated || batch.rows.length < requested) {
+        break;
+      }
+    }
+
+    await writer?.finish();
+    filePath = await publishFile(partialPath, filePath, options.overwrite ?? false);
+  } catch (error) {
+    await unlink(partialPath).catch(() => undefined);
+    throw error;
+  } finally {
+    await cursor.close().catch(() => undefined);
+  }
+
+  return {
+    path: filePath,
+    format: options.format,
+    rowCount,
+    bytes: (await stat(filePath)).size,
+    checksum: await sha256File(filePath),
+    columns,
+    truncated,
+  };
+}
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { parseAccessPolicy } from './access-policy';
+import { reviewQuery } from './review-policy';
+
+const settings = (sensitiveTables: string[]) =>
+  parseAccessPolicy(`
+tables: {}
+review:
+  auto_approve_min_confidence: 0.8
+  auto_approve_max_cost: 10000
+  require_limit: true
+  sensitive_tables: [${sensitiveTables.join(', ')}]
+`).review;
+
+const review = (sql: string, sensitiveTables: string[]) =>
+  reviewQuery({ sql, confidence: 0.95, estimatedCost: 10 }, settings(sensitiveTables));
+
+describe('reviewQuery', () => {
+  it('auto-approves a confident, cheap, limited query on other tables', () => {
+    expect(review('SELECT title FROM articles LIMIT 5', ['public.users']).decision).toBe('auto_approve');
+  });
+
+  it('matches a schema-qualified pattern when the query leaves the schema out', () => {
+    const result = review('SELECT title FROM articles ORDER BY published_at DESC LIMIT 5', ['public.articles']);
+    expect(result.decision).toBe('require_approval');
+    expect(result.reasons).toContain('Reads sensitive tables: articles');
+  });
+
+  it('matches a schema-qualified pattern when the query writes the schema', () => {
+    expect(review('SELECT title FROM public.articles LIMIT 5', ['public.articles']).decision).toBe('require_approval');
+  });
+
+  it('does not match a schema-qualified pattern for a table in another schema', () => {
+    expect(review('SELECT title FROM archive.articles LIMIT 5', ['public.articles']).decision).toBe('auto_approve');
+  });
+
+  it('matches a bare table pattern in any schema', () => {
+    expect(review('SELECT title FROM articles LIMIT 5', ['articles']).decision).toBe('require_approval');
+    expect(review('SELECT title FROM archive.articles LIMIT 5', ['articles']).decision).toBe('require_approval');
+  });
+
+  it('blocks anything but a single read-only SELECT', () => {
+    expect(review('DELETE FROM articles', []).decision).toBe('block');
+  });
+});
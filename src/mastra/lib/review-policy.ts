@@ -0,0 +1,81 @@
+import { accessPolicy } from './access-policy';
+import type { ReviewSettings } from './access-policy';
+import { inspectStatement, referencedTables } from './sql-guard';
+
+// Decides whether a generated query may run right away, needs a person's approval, or may never run.
+// The workflow's review step and the sql-execution tool (the agent path) both ask this module.
+
+export const reviewDecisions = ['auto_approve', 'require_approval', 'block'] as const;
+export type ReviewDecision = (typeof reviewDecisions)[number];
+
+export interface ReviewInput {
+  sql: string;
+  // Confidence reported by sql-generation, 0-1
+  confidence?: number;
+  // Planner total cost from EXPLAIN
+  estimatedCost?: number;
+}
+
+export interface ReviewResult {
+  decision: ReviewDecision;
+  // Every rule that led to the decision, in plain words
+  reasons: string[];
+}
+
+// Unqualified table names in a query resolve to `public`, the default search_path
+const qualifyTable = (table: string) => (table.includes('.') ? table : `public.${table}`);
+
+// `schema.table` patterns match that table whether or not the query writes the schema; a bare `table` pattern
+// matches the table in any schema
+const matchesTable = (table: string, pattern: string) => {
+  const name = pattern.toLowerCase();
+  const qualified = qualifyTable(table.toLowerCase());
+  return name.includes('.') ? qualified === name : qualified.endsWith(`.${name}`);
+};
+
+/**
+ * Blocks anything but a single read-only SELECT. Otherwise a query runs without approval only when it
+ * reads no sensitive table, has a LIMIT (or returns a single row), and its confidence and estimated cost
+ * are known and within the limits of the `review` section in policy.yaml.
+ */
+export function reviewQuery(input: ReviewInput, settings: ReviewSettings = accessPolicy.review): ReviewResult {
+  const shape = inspectStatement(input.sql);
+  if (!shape.readOnly) {
+    return { decision: 'block', reasons: [shape.reason ?? 'Only read-only SELECT queries may run'] };
+  }
+
+  const reasons: string[] = [];
+  const sensitive = referencedTables(input.sql).filter(table =>
+    settings.sensitiveTables.some(pattern => matchesTable(table, pattern)),
+  );
+  if (sensitive.length > 0) {
+    reasons.push(`Reads sensitive tables: ${sensitive.join(', ')}`);
+  }
+  if (settings.requireLimit && !shape.limited && !shape.singleRow) {
+    reasons.push('Has no LIMIT');
+  }
+  if (input.confidence === undefined) {
+    reasons.push('Confidence is unknown');
+  } else if (input.confidence < settings.autoApproveMinConfidence) {
+    reasons.push(`Confidence ${input.confidence} is below ${settings.autoApproveMinConfidence}`);
+  }
+  if (input.estimatedCost === undefined) {
+    reasons.push('Estimated cost is unknown (the query was not validated with EXPLAIN)');
+  } else if (input.estimatedCost > settings.autoApproveMaxCost) {
+    reasons.push(`Estimated cost ${Math.round(input.estimatedCost)} is above ${settings.autoApproveMaxCost}`);
+  }
+
+  if (reasons.length > 0) {
+    return { decision: 'require_approval', reasons };
+  }
+  return {
+    decision: 'auto_approve',
+    reasons: [
+      `Confidence ${input.confidence} and estimated cost ${Math.round(input.estimatedCost!)} are within the auto-approval limits`,
+    ],
+  };
+}
+
+export function describeReview(review: ReviewResult): string {
+  return `${review.decision}: ${review.reasons.join('; ')}`;
+}
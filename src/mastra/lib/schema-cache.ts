@@ -0,0 +1,131 @@
+import { createHash } from 'crypto';
+import type { ClientBase } from 'pg';
+import { storageClient } from './storage';
+
+export interface CachedSchema<T> {
+  fingerprint: string;
+  schemaVersion: string;
+  schema: T;
+  cachedAt: string;
+}
+
+// Hash of the catalog rows that shape the schema description: relations, columns, constraints,
+// indexes, enum values and comments outside the system schemas. Any DDL touching them changes the
+// hash; data changes do not.
+const SCHEMA_VERSION_QUERY = `
+  SELECT md5(
+    coalesce((
+      SELECT string_agg(
+        concat_ws(':', n.nspname, c.relname, c.relkind, a.attnum, a.attname, a.atttypid, a.attnotnull, a.atthasdef),
+        ',' ORDER BY n.nspname, c.relname, a.attnum
+      )
+      FROM pg_class c
+      JOIN pg_namespace n ON n.oid = c.relnamespace
+      LEFT JOIN pg_attribute a ON a.attrelid = c.oid AND a.attnum > 0 AND NOT a.attisdropped
+      WHERE n.nspname NOT IN ('pg_catalog', 'information_schema')
+        AND n.nspname NOT LIKE 'pg_toast%'
+        AND c.relkind IN ('r', 'p', 'v', 'm', 'f', 'i')
+    ), '') || '|' ||
+    coalesce((
+      SELECT string_agg(concat_ws(':', con.oid, con.conname, con.contype, con.conrelid::regclass), ',' ORDER BY con.conname)
+      FROM pg_constraint con
+      JOIN pg_namespace n ON n.oid = con.connamespace
+      WHERE n.nspname NOT IN ('pg_catalog', 'information_schema')
+    ), '') || '|' ||
+    coalesce((
+      SELECT string_agg(concat_ws(':', e.enumtypid, e.enumlabel), ',' ORDER BY e.enumtypid, e.enumsortorder)
+      FROM pg_enum e
+    ), '') || '|' ||
+    coalesce((
+      SELECT string_agg(concat_ws(':', d.objoid, d.objsubid, md5(d.description)), ',' ORDER BY d.objoid, d.objsubid)
+      FROM pg_description d
+      -- OIDs below 16384 belong to objects created by initdb
+      WHERE d.classoid = 'pg_class'::regclass AND d.objoid >= 16384
+    ), '')
+  ) AS schema_hash;
+`;
+
+let tableReady: Promise<unknown> | undefined;
+
+const ensureCacheTable = () => {
+  tableReady ??= storageClient
+    .execute(
+      `
+        CREATE TABLE IF NOT EXISTS schema_cache (
+          fingerprint TEXT PRIMARY KEY,
+          schema_version TEXT NOT NULL,
+          payload TEXT NOT NULL,
+          cached_at TEXT NOT NULL
+        )
+      `,
+    )
+    .catch(error => {
+      tableReady = undefined;
+      throw error;
+    });
+  return tableReady;
+};
+
+/**
+ * Identifies a database without its password: the same server, database and role always map to the
+ * same cache entry, whichever connection string spelling was used.
+ */
+export function databaseFingerprint(connectionString: string): string {
+  let identity = connectionString;
+  try {
+    const url = new URL(connectionString);
+    identity = `${decodeURIComponent(url.username)}@${url.hostname}:${url.port || '5432'}${url.pathname}`;
+  } catch {
+    // Not a URL (e.g. a key/value DSN); hash it as-is
+  }
+  return createHash('sha256').update(identity).digest('hex').slice(0, 16);
+}
+
+// Cheap enough to run on every introspection call: one aggregate over the catalogs, no table scans
+export async function readSchemaVersion(client: ClientBase): Promise<string> {
+  const result = await client.query(SCHEMA_VERSION_QUERY);
+  return `v-${String(result.rows[0].schema_hash).slice(0, 12)}`;
+}
+
+// Cache failures only cost a full introspection, so they are logged instead of thrown
+export async function readCachedSchema<T>(fingerprint: string): Promise<CachedSchema<T> | null> {
+  try {
+    await ensureCacheTable();
+    const result = await storageClient.execute({
+      sql: 'SELECT schema_version, payload, cached_at FROM schema_cache WHERE fingerprint = ?',
+      args: [fingerprint],
+    });
+    const row = result.rows[0];
+    if (!row) {
+      return null;
+    }
+    return {
+      fingerprint,
+      schemaVersion: String(row.schema_version),
+      schema: JSON.parse(String(row.payload)) as T,
+      cachedAt: String(row.cached_at),
+    };
+  } catch (error) {
+    console.warn(`⚠️ Could not read the schema cache: ${error instanceof Error ? error.message : String(error)}`);
+    return null;
+  }
+}
+
+export async function writeCachedSchema<T>(entry: CachedSchema<T>): Promise<void> {
+  try {
+    await ensureCacheTable();
+    await storageClient.execute({
+      sql: `
+        INSERT INTO schema_cache (fingerprint, schema_version, payload, cached_at)
+        VALUES (?, ?, ?, ?)
+        ON CONFLICT (fingerprint) DO UPDATE SET
+          schema_version = excluded.schema_version,
+          payload = excluded.payload,
+          cached_at = excluded.cached_at
+      `,
+      args: [entry.fingerprint, entry.schemaVersion, JSON.stringify(entry.schema), entry.cachedAt],
+    });
+  } catch (error) {
+    console.warn(`⚠️ Could not write the schema cache: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
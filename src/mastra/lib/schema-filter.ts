@@ -0,0 +1,57 @@
+// Include/exclude patterns for introspection. `*` matches any run of characters, matching is
+// case-insensitive, and a table pattern containing a dot is matched against `schema.table`.
+
+export interface SchemaFilter {
+  includeSchemas?: string[];
+  excludeSchemas?: string[];
+  includeTables?: string[];
+  excludeTables?: string[];
+}
+
+const patternToRegExp = (pattern: string) =>
+  new RegExp(
+    `^${pattern
+      .split('*')
+      .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+      .join('.*')}$`,
+    'i',
+  );
+
+const matchesAny = (patterns: string[], value: string) => patterns.some(pattern => patternToRegExp(pattern).test(value));
+
+const matchesTable = (patterns: string[], schema: string, table: string) =>
+  patterns.some(pattern => patternToRegExp(pattern).test(pattern.includes('.') ? `${schema}.${table}` : table));
+
+export function isSchemaFilterEmpty(filter: SchemaFilter): boolean {
+  return Object.values(filter).every(patterns => !patterns || patterns.length === 0);
+}
+
+export function matchesSchemaPatterns(filter: SchemaFilter, schema: string): boolean {
+  const { includeSchemas = [], excludeSchemas = [] } = filter;
+  return (includeSchemas.length === 0 || matchesAny(includeSchemas, schema)) && !matchesAny(excludeSchemas, schema);
+}
+
+export function matchesSchemaFilter(filter: SchemaFilter, schema: string, table: string): boolean {
+  const { includeTables = [], excludeTables = [] } = filter;
+  if (!matchesSchemaPatterns(filter, schema)) {
+    return false;
+  }
+  if (includeTables.length > 0 && !matchesTable(includeTables, schema, table)) {
+    return false;
+  }
+  return !matchesTable(excludeTables, schema, table);
+}
+
+const listFromEnv = (name: string) =>
+  process.env[name]
+    ?.split(',')
+    .map(pattern => pattern.trim())
+    .filter(Boolean);
+
+// Defaults for callers that do not pass patterns, e.g. the agent
+export const schemaFilterFromEnv = (): SchemaFilter => ({
+  includeSchemas: listFromEnv('INTROSPECTION_INCLUDE_SCHEMAS'),
+  excludeSchemas: listFromEnv('INTROSPECTION_EXCLUDE_SCHEMAS'),
+  includeTables: listFromEnv('INTROSPECTION_INCLUDE_TABLES'),
+  excludeTables: listFromEnv('INTROSPECTION_EXCLUDE_TABLES'),
+});
@@ -0,0 +1,143 @@
+import { numberFromEnv } from './env';
+
+// Picks the part of an introspected schema that a question is likely about, so the generation prompt
+// only carries those tables. Scoring is plain keyword matching on table/column names and comments,
+// followed by a foreign-key neighbour expansion so joins stay possible.
+
+export interface RelevanceOptions {
+  // Upper bound on keyword-matched tables, before neighbour expansion
+  maxTables?: number;
+  // How many foreign-key hops to add around the matched tables
+  neighbourDepth?: number;
+}
+
+export interface RelevantSchema<T> {
+  schema: T;
+  pruned: boolean;
+  selectedTables: string[];
+}
+
+const DEFAULT_MAX_TABLES = 8;
+const DEFAULT_NEIGHBOUR_DEPTH = 1;
+
+const STOP_WORDS = new Set([
+  'a', 'all', 'an', 'and', 'are', 'by', 'show', 'for', 'from', 'get', 'give', 'how', 'in', 'is', 'list', 'many',
+  'me', 'most', 'of', 'on', 'or', 'per', 'the', 'to', 'top', 'what', 'which', 'who', 'with',
+]);
+
+const tokenize = (text: string | null | undefined): string[] =>
+  (text ?? '')
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(token => token.length > 1 && !STOP_WORDS.has(token));
+
+// Crude singular form so "articles" matches "article" and "companies" matches "company"
+const stem = (token: string) => {
+  if (token.endsWith('ies') && token.length > 4) {
+    return `${token.slice(0, -3)}y`;
+  }
+  if (token.endsWith('s') && !token.endsWith('ss') && token.length > 3) {
+    return token.slice(0, -1);
+  }
+  return token;
+};
+
+const relationKey = (schema: string, table: string) => `${schema}.${table}`;
+
+const relevanceOptionsFromEnv = (): Required<RelevanceOptions> => ({
+  maxTables: numberFromEnv('SCHEMA_PRUNING_MAX_TABLES', DEFAULT_MAX_TABLES),
+  neighbourDepth: DEFAULT_NEIGHBOUR_DEPTH,
+});
+
+/**
+ * Returns the schema restricted to the tables relevant to `question`. The schema is returned unchanged
+ * when it is already small or when no table matches any keyword, since an empty prompt is worse than
+ * a large one.
+ */
+export function selectRelevantSchema<T extends Record<string, any>>(
+  databaseSchema: T,
+  question: string,
+  options: RelevanceOptions = {},
+): RelevantSchema<T> {
+  const { maxTables, neighbourDepth } = { ...relevanceOptionsFromEnv(), ...options };
+  const relations: { key: string; name: string; comment?: string | null }[] = [
+    ...databaseSchema.tables.map((table: any) => ({
+      key: relationKey(table.schema_name, table.table_name),
+      name: table.table_name,
+      comment: table.table_comment,
+    })),
+    ...(databaseSchema.views ?? []).map((view: any) => ({
+      key: relationKey(view.schema_name, view.view_name),
+      name: view.view_name,
+      comment: view.view_comment,
+    })),
+  ];
+  const allTables = relations.map(relation => relation.key);
+
+  if (relations.length <= maxTables) {
+    return { schema: databaseSchema, pruned: false, selectedTables: allTables };
+  }
+
+  const questionTokens = new Set(tokenize(question).map(stem));
+  const overlap = (text: string | null | undefined) =>
+    tokenize(text).filter(token => questionTokens.has(stem(token))).length;
+
+  // Table name hits weigh most, then comments, then column names
+  const scores = new Map<string, number>();
+  relations.forEach(relation => {
+    scores.set(relation.key, overlap(relation.name.replace(/_/g, ' ')) * 3 + overlap(relation.comment) * 2);
+  });
+  databaseSchema.columns.forEach((column: any) => {
+    const key = relationKey(column.table_schema, column.table_name);
+    if (scores.has(key)) {
+      const score = overlap(column.column_name.replace(/_/g, ' ')) + overlap(column.column_comment);
+      scores.set(key, (scores.get(key) ?? 0) + score);
+    }
+  });
+
+  const matched = Array.from(scores.entries())
+    .filter(([, score]) => score > 0)
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, maxTables)
+    .map(([key]) => key);
+  if (matched.length === 0) {
+    return { schema: databaseSchema, pruned: false, selectedTables: allTables };
+  }
+
+  // Add tables one foreign key away (in either direction), `neighbourDepth` times
+  const selected = new Set(matched);
+  for (let depth = 0; depth < neighbourDepth; depth++) {
+    const frontier = new Set(selected);
+    databaseSchema.relationships.forEach((relationship: any) => {
+      const from = relationKey(relationship.table_schema, relationship.table_name);
+      const to = relationKey(relationship.foreign_table_schema, relationship.foreign_table_name);
+      if (frontier.has(from)) {
+        selected.add(to);
+      }
+      if (frontier.has(to)) {
+        selected.add(from);
+      }
+    });
+  }
+
+  const keep = (schema: string, table: string) => selected.has(relationKey(schema, table));
+  const schema = {
+    ...databaseSchema,
+    tables: databaseSchema.tables.filter((table: any) => keep(table.schema_name, table.table_name)),
+    views: databaseSchema.views?.filter((view: any) => keep(view.schema_name, view.view_name)),
+    columns: databaseSchema.columns.filter((column: any) => keep(column.table_schema, column.table_name)),
+    relationships: databaseSchema.relationships.filter(
+      (relationship: any) =>
+        keep(relationship.table_schema, relationship.table_name) &&
+        keep(relationship.foreign_table_schema, relationship.foreign_table_name),
+    ),
+    indexes: databaseSchema.indexes.filter((index: any) => keep(index.schema_name, index.table_name)),
+    constraints: databaseSchema.constraints?.filter((constraint: any) =>
+      keep(constraint.table_schema, constraint.table_name),
+    ),
+    jsonShapes: databaseSchema.jsonShapes?.filter((shape: any) => keep(shape.table_schema, shape.table_name)),
+    rowCounts: databaseSchema.rowCounts.filter((rowCount: any) => keep(rowCount.schema_name, rowCount.table_name)),
+  };
+
+  return { schema, pruned: true, selectedTables: Array.from(selected) };
+}
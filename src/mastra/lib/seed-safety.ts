@@ -0,0 +1,101 @@
+import { createHash } from 'crypto';
+import type { ClientBase } from 'pg';
+import { databaseFingerprint } from './schema-cache';
+
+// Seeding drops and recreates its tables, so before anything runs the seeding tool works out what would be
+// replaced. Tables that hold rows are only replaced with force, and the caller has to echo a confirmation token
+// tied to that plan. A token issued for one database, schema or set of tables does not work for another.
+
+export const DEFAULT_SEED_SCHEMA = 'demo_seed';
+
+// Plain lower-case identifiers only, so the schema can be interpolated into DDL
+export const SEED_SCHEMA_PATTERN = /^[a-z_][a-z0-9_]{0,62}$/;
+
+export interface SeedPlan {
+  schema: string;
+  // Tables the profile drops and recreates
+  tables: string[];
+  // Of those, the ones that exist now, and the ones that hold rows
+  existingTables: string[];
+  nonEmptyTables: string[];
+  confirmationToken: string;
+}
+
+const quoteIdent = (name: string) => `"${name.replace(/"/g, '""')}"`;
+
+interface SeedPlanOptions {
+  connectionString: string;
+  schema: string;
+  profile: string;
+  force: boolean;
+  tables: readonly string[];
+}
+
+const findExistingTables = async (client: ClientBase, schema: string, tables: readonly string[]) => {
+  const existing = await client.query<{ table_name: string }>(
+    `SELECT table_name FROM information_schema.tables
+     WHERE table_schema = $1 AND table_name = ANY($2::text[])
+     ORDER BY table_name`,
+    [schema, tables],
+  );
+  return existing.rows.map(row => row.table_name);
+};
+
+export async function planSeeding(client: ClientBase, options: SeedPlanOptions): Promise<SeedPlan> {
+  const existingTables = await findExistingTables(client, options.schema, options.tables);
+
+  const nonEmptyTables: string[] = [];
+  for (const table of existingTables) {
+    const result = await client.query<{ has_rows: boolean }>(
+      `SELECT EXISTS (SELECT 1 FROM ${quoteIdent(options.schema)}.${quoteIdent(table)}) AS has_rows`,
+    );
+    if (result.rows[0]?.has_rows) {
+      nonEmptyTables.push(table);
+    }
+  }
+
+  const confirmationToken = `seed-${createHash('sha256')
+    .update(
+      JSON.stringify({
+        database: databaseFingerprint(options.connectionString),
+        schema: options.schema,
+        profile: options.profile,
+        force: options.force,
+        existingTables,
+        nonEmptyTables,
+      }),
+    )
+    .digest('hex')
+    .slice(0, 12)}`;
+
+  return { schema: options.schema, tables: [...options.tables], existingTables, nonEmptyTables, confirmationToken };
+}
+
+/**
+ * Inside the seeding transaction, before anything is dropped: locks the profile's existing tables so no rows can be
+ * written to them until the transaction ends, then plans again. The plan checked before the transaction may be out
+ * of date by then, so seeding only goes ahead when this plan has the confirmed token.
+ */
+export async function lockAndPlanSeeding(client: ClientBase, options: SeedPlanOptions): Promise<SeedPlan> {
+  const existingTables = await findExistingTables(client, options.schema, options.tables);
+  if (existingTables.length > 0) {
+    const qualified = existingTables.map(table => `${quoteIdent(options.schema)}.${quoteIdent(table)}`);
+    await client.query(`LOCK TABLE ${qualified.join(', ')} IN ACCESS EXCLUSIVE MODE`);
+  }
+  return planSeeding(client, options);
+}
+
+// Inside the seeding transaction: unqualified DDL and DML from here on only touch the seed schema
+export async function useSeedSchema(client: ClientBase, schema: string): Promise<void> {
+  await client.query(`CREATE SCHEMA IF NOT EXISTS ${quoteIdent(schema)}`);
+  await client.query(`SET LOCAL search_path TO ${quoteIdent(schema)}`);
+}
+
+export function describeSeedPlan(plan: SeedPlan): string {
+  const qualified = (tables: string[]) => tables.map(table => `${plan.schema}.${table}`).join(', ');
+  const replaced =
+    plan.existingTables.length > 0
+      ? `drops and recreates ${qualified(plan.existingTables)}${plan.nonEmptyTables.length > 0 ? ` (with rows: ${qualified(plan.nonEmptyTables)})` : ''}`
+      : `creates ${qualified(plan.tables)}`;
+  return `Seeding schema "${plan.schema}" ${replaced}`;
+}
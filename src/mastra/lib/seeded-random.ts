@@ -0,0 +1,45 @@
+import { randomInt } from 'crypto';
+
+// Seeded pseudo-random numbers (mulberry32) for generated data that can be reproduced from its seed.
+// Fast and well distributed, but not suitable for anything security related.
+
+export const MAX_SEED = 2 ** 32 - 1;
+
+export const randomSeed = () => randomInt(0, MAX_SEED);
+
+export class SeededRandom {
+  private state: number;
+
+  constructor(readonly seed: number) {
+    this.state = seed >>> 0;
+  }
+
+  // Uniform number in [0, 1)
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 2 ** 32;
+  }
+
+  // Integer in [min, max)
+  int(min: number, max: number): number {
+    return min + Math.floor(this.next() * (max - min));
+  }
+
+  pick<T>(items: readonly T[]): T {
+    return items[this.int(0, items.length)];
+  }
+
+  // `count` distinct items in random order; the input is not modified
+  sample<T>(items: readonly T[], count: number): T[] {
+    const copy = [...items];
+    const size = Math.min(count, copy.length);
+    for (let i = 0; i < size; i++) {
+      const j = this.int(i, copy.length);
+      [copy[i], copy[j]] = [copy[j], copy[i]];
+    }
+    return copy.slice(0, size);
+  }
+}
@@ -0,0 +1,181 @@
+import { describe, expect, it } from 'vitest';
+import { loadAccessPolicy, parseAccessPolicy } from './access-policy';
+import { guardSQL } from './sql-guard';
+import type { SchemaColumn } from './sql-guard';
+
+const policy = parseAccessPolicy(`
+tables:
+  articles:
+    allowed_columns: [id, title, slug, symbols, url, published_at]
+    forbidden_columns: [content]
+    max_rows: 10
+    required_order_by:
+      column: published_at
+      direction: DESC
+`);
+
+const schemaColumns: SchemaColumn[] = ['id', 'title', 'slug', 'symbols', 'url', 'published_at', 'content'].map(
+  column_name => ({ table_schema: 'public', table_name: 'articles', column_name }),
+);
+
+const check = (sql: string, mode: 'rewrite' | 'reject' = 'reject') => guardSQL(sql, { policy, schemaColumns, mode });
+const kinds = (sql: string, mode: 'rewrite' | 'reject' = 'reject') =>
+  check(sql, mode).violations.map(violation => violation.kind);
+
+describe('guardSQL', () => {
+  it('allows a query that follows the policy', () => {
+    const result = check('SELECT title, slug FROM articles ORDER BY published_at DESC LIMIT 10');
+    expect(result.allowed).toBe(true);
+    expect(result.rewritten).toBe(false);
+  });
+
+  describe('star expansion', () => {
+    it('rejects SELECT * in reject mode', () => {
+      const result = check('SELECT * FROM articles ORDER BY published_at DESC LIMIT 10');
+      expect(result.allowed).toBe(false);
+      expect(kinds('SELECT * FROM articles ORDER BY published_at DESC LIMIT 10')).toContain('star_expansion');
+    });
+
+    it('expands SELECT * without the forbidden column in rewrite mode', () => {
+      const result = check('SELECT * FROM articles ORDER BY published_at DESC LIMIT 10', 'rewrite');
+      expect(result.allowed).toBe(true);
+      expect(result.sql).not.toMatch(/content|\*/);
+      expect(result.sql).toMatch(/title/);
+    });
+
+    it('rejects a qualified t.*', () => {
+      expect(check('SELECT a.* FROM articles a ORDER BY a.published_at DESC LIMIT 10').allowed).toBe(false);
+    });
+  });
+
+  describe('nested queries', () => {
+    it('rejects the forbidden column inside a CTE', () => {
+      const sql =
+        'WITH x AS (SELECT id, content FROM articles ORDER BY published_at DESC LIMIT 10) SELECT id FROM x LIMIT 10';
+      expect(check(sql, 'rewrite').allowed).toBe(false);
+      expect(kinds(sql)).toContain('forbidden_column');
+    });
+
+    it('rejects the forbidden column inside a subquery', () => {
+      const sql = 'SELECT t.c FROM (SELECT content AS c FROM articles ORDER BY published_at DESC LIMIT 10) t LIMIT 10';
+      expect(check(sql, 'rewrite').allowed).toBe(false);
+    });
+
+    it('rejects the forbidden column inside a scalar subquery in WHERE', () => {
+      const sql = `SELECT title FROM articles WHERE id IN (SELECT id FROM articles WHERE content ILIKE '%x%' ORDER BY published_at DESC LIMIT 10) ORDER BY published_at DESC LIMIT 10`;
+      expect(check(sql, 'rewrite').allowed).toBe(false);
+    });
+
+    it('rejects the forbidden column through LATERAL', () => {
+      const sql =
+        'SELECT a.title, l.c FROM articles a CROSS JOIN LATERAL (SELECT a.content AS c) l ORDER BY a.published_at DESC LIMIT 10';
+      expect(check(sql, 'rewrite').allowed).toBe(false);
+    });
+  });
+
+  describe('whole-row references', () => {
+    it('rejects row_to_json(a)', () => {
+      const sql = 'SELECT row_to_json(a) FROM articles a ORDER BY a.published_at DESC LIMIT 10';
+      expect(check(sql, 'rewrite').allowed).toBe(false);
+      expect(kinds(sql)).toContain('whole_row_reference');
+    });
+
+    it('rejects to_jsonb(articles)', () => {
+      const sql = 'SELECT to_jsonb(articles) FROM articles ORDER BY published_at DESC LIMIT 10';
+      expect(check(sql, 'rewrite').allowed).toBe(false);
+      expect(kinds(sql)).toContain('whole_row_reference');
+    });
+
+    it.each([
+      'SELECT row_to_json(a.*) FROM articles a ORDER BY published_at DESC LIMIT 10',
+      'SELECT to_jsonb(articles.*) FROM articles ORDER BY published_at DESC LIMIT 10',
+      'SELECT (a.*)::text FROM articles a ORDER BY published_at DESC LIMIT 10',
+      'SELECT json_build_array(a.*) FROM articles a ORDER BY published_at DESC LIMIT 10',
+      'SELECT ROW(a.*) FROM articles a ORDER BY published_at DESC LIMIT 10',
+      'SELECT array_agg(a.*) FROM articles a LIMIT 10',
+    ])('rejects the qualified star in %s', sql => {
+      expect(check(sql, 'rewrite').allowed).toBe(false);
+      expect(kinds(sql)).toContain('whole_row_reference');
+    });
+
+    it('still allows count(*)', () => {
+      expect(check('SELECT count(*) FROM articles LIMIT 10', 'rewrite').allowed).toBe(true);
+    });
+  });
+
+  describe('forbidden column outside the select list', () => {
+    it('rejects content in WHERE', () => {
+      const sql = `SELECT title FROM articles WHERE content ILIKE '%lãi suất%' ORDER BY published_at DESC LIMIT 10`;
+      expect(check(sql, 'rewrite').allowed).toBe(false);
+      expect(kinds(sql)).toContain('forbidden_column');
+    });
+
+    it('rejects content in ORDER BY', () => {
+      const sql = 'SELECT title FROM articles ORDER BY content LIMIT 10';
+      expect(check(sql, 'rewrite').allowed).toBe(false);
+      expect(kinds(sql)).toContain('forbidden_column');
+    });
+  });
+
+  it('rejects the forbidden column in any branch of a UNION', () => {
+    const sql =
+      '(SELECT title FROM articles ORDER BY published_at DESC LIMIT 10) UNION (SELECT content FROM articles ORDER BY published_at DESC LIMIT 10)';
+    expect(check(sql, 'rewrite').allowed).toBe(false);
+  });
+
+  it('rejects multiple statements', () => {
+    const sql = 'SELECT title FROM articles ORDER BY published_at DESC LIMIT 10; DROP TABLE articles';
+    expect(check(sql, 'rewrite').allowed).toBe(false);
+    expect(kinds(sql)).toEqual(['multiple_statements']);
+  });
+
+  describe('source url in the repository policy', () => {
+    const repositoryPolicy = loadAccessPolicy('policy.yaml');
+    const sql = 'SELECT title, url AS link FROM articles ORDER BY published_at DESC LIMIT 10';
+
+    it('rejects url renamed to another column name', () => {
+      const result = guardSQL(sql, { policy: repositoryPolicy, schemaColumns, mode: 'reject' });
+      expect(result.allowed).toBe(false);
+      expect(result.violations.map(violation => violation.kind)).toContain('forbidden_column');
+    });
+
+    it('drops the renamed url column in rewrite mode', () => {
+      const result = guardSQL(sql, { policy: repositoryPolicy, schemaColumns, mode: 'rewrite' });
+      expect(result.removedColumns).toEqual(['url']);
+      expect(result.sql).not.toMatch(/url|link/);
+    });
+
+    it('rejects an expression built from url', () => {
+      const derived = `SELECT title, 'x' || url AS link FROM articles ORDER BY published_at DESC LIMIT 10`;
+      expect(guardSQL(derived, { policy: repositoryPolicy, schemaColumns, mode: 'rewrite' }).allowed).toBe(false);
+    });
+  });
+
+  describe('row rules', () => {
+    it('adds LIMIT and ORDER BY in rewrite mode', () => {
+      const result = check('SELECT title FROM articles', 'rewrite');
+      expect(result.allowed).toBe(true);
+      expect(result.rewritten).toBe(true);
+      expect(result.sql).toMatch(/ORDER BY\s+"?published_at"?\s+DESC/i);
+      expect(result.sql).toMatch(/LIMIT \(?10\)?/i);
+    });
+
+    it('lowers a LIMIT above max_rows in rewrite mode', () => {
+      const result = check('SELECT title FROM articles ORDER BY published_at DESC LIMIT 500', 'rewrite');
+      expect(result.allowed).toBe(true);
+      expect(result.sql).toMatch(/LIMIT \(?10\)?/i);
+    });
+
+    it('rejects a missing LIMIT and ORDER BY in reject mode', () => {
+      const result = check('SELECT title FROM articles');
+      expect(result.allowed).toBe(false);
+      expect(result.violations.map(violation => violation.kind)).toEqual(
+        expect.arrayContaining(['missing_limit', 'missing_order_by']),
+      );
+    });
+
+    it('rejects a LIMIT above max_rows in reject mode', () => {
+      expect(kinds('SELECT title FROM articles ORDER BY published_at DESC LIMIT 500')).toContain('limit_exceeded');
+    });
+  });
+});
@@ -0,0 +1,750 @@
+import { astVisitor, parse, toSql } from 'pgsql-ast-parser';
+import { accessPolicy, findTablePolicy, formatOrderBy, isColumnAllowed } from './access-policy';
+import type { AccessPolicy, TablePolicy } from './access-policy';
+import type { Expr, ExprRef, From, SelectedColumn, SelectFromStatement, SelectStatement, Statement } from 'pgsql-ast-parser';
+
+// Functions that run SQL passed as a string or read outside the statement's tables,
+// so column references inside them cannot be checked
+const FORBIDDEN_FUNCTIONS = [
+  'query_to_xml',
+  'query_to_xmlschema',
+  'query_to_xml_and_xmlschema',
+  'cursor_to_xml',
+  'cursor_to_xmlschema',
+  'table_to_xml',
+  'table_to_xmlschema',
+  'table_to_xml_and_xmlschema',
+  'schema_to_xml',
+  'database_to_xml',
+  'dblink',
+  'dblink_exec',
+  'dblink_open',
+  'dblink_fetch',
+  'pg_read_file',
+  'pg_read_binary_file',
+  'lo_import',
+  'lo_export',
+];
+
+export type PolicyViolationKind =
+  | 'parse_error'
+  | 'unsupported_statement'
+  | 'multiple_statements'
+  | 'forbidden_column'
+  | 'star_expansion'
+  | 'whole_row_reference'
+  | 'forbidden_function'
+  | 'missing_limit'
+  | 'limit_exceeded'
+  | 'missing_order_by';
+
+export interface PolicyViolation {
+  kind: PolicyViolationKind;
+  message: string;
+  table?: string;
+  column?: string;
+}
+
+export interface SchemaColumn {
+  table_schema: string;
+  table_name: string;
+  column_name: string;
+}
+
+export interface SqlGuardOptions {
+  // Introspected columns, used to resolve unqualified references and to expand `*`
+  schemaColumns?: SchemaColumn[];
+  // 'rewrite' fixes the outermost SELECT where possible, 'reject' never changes the SQL
+  mode?: 'rewrite' | 'reject';
+  policy?: AccessPolicy;
+}
+
+export interface SqlGuardResult {
+  allowed: boolean;
+  sql: string;
+  rewritten: boolean;
+  violations: PolicyViolation[];
+  removedColumns: string[];
+  // Human-readable description of each rewrite that was applied
+  appliedRules: string[];
+}
+
+// A relation visible to column references inside one SELECT
+interface ScopeEntry {
+  alias: string;
+  kind: 'table' | 'derived';
+  schema?: string;
+  table?: string;
+  restriction?: TablePolicy;
+}
+
+interface Scope {
+  entries: ScopeEntry[];
+  outputAliases: Set<string>;
+}
+
+interface FoundViolation extends PolicyViolation {
+  node?: object;
+}
+
+const normalize = (name: string) => name.toLowerCase();
+
+class ColumnAccessAnalyzer {
+  readonly violations: FoundViolation[] = [];
+  private readonly scopes: Scope[] = [];
+  private readonly cteNames: Set<string>[] = [];
+  private readonly tableColumns = new Map<string, Set<string>>();
+  private tablesRead = new Set<TablePolicy>();
+
+  private readonly visitor = astVisitor(v => ({
+    selection: (select: SelectFromStatement) => this.visitSelection(select),
+    with: statement => {
+      this.cteNames.push(new Set(statement.bind.map(binding => normalize(binding.alias.name))));
+      v.super().with(statement);
+      this.cteNames.pop();
+    },
+    withRecursive: statement => {
+      this.cteNames.push(new Set([normalize(statement.alias.name)]));
+      v.super().withRecursive(statement);
+      this.cteNames.pop();
+    },
+    ref: (ref: ExprRef) => this.visitRef(ref),
+    // Data-modifying statements can still hide inside a WITH around a SELECT
+    insert: () => this.pushDataModifyingViolation('INSERT'),
+    update: () => this.pushDataModifyingViolation('UPDATE'),
+    delete: () => this.pushDataModifyingViolation('DELETE'),
+    call: call => {
+      if (FORBIDDEN_FUNCTIONS.includes(normalize(call.function.name))) {
+        this.violations.push({
+          kind: 'forbidden_function',
+          message: `Function ${call.function.name}() is not allowed`,
+        });
+      }
+      v.super().call(call);
+    },
+  }));
+
+  constructor(
+    private readonly policy: AccessPolicy,
+    schemaColumns: SchemaColumn[] = [],
+  ) {
+    schemaColumns.forEach(column => {
+      const key = this.tableKey(column.table_schema, column.table_name);
+      if (!this.tableColumns.has(key)) {
+        this.tableColumns.set(key, new Set());
+      }
+      this.tableColumns.get(key)?.add(normalize(column.column_name));
+    });
+  }
+
+  // Returns the policy tables the statement reads, at any depth
+  analyze(statement: Statement): Set<TablePolicy> {
+    this.tablesRead = new Set();
+    this.visitor.statement(statement);
+    return this.tablesRead;
+  }
+
+  // Columns a `*` on this table may expand to: introspected columns that pass the policy,
+  // or the allow-list when the table was not introspected
+  expandableColumns(entry: ScopeEntry): string[] {
+    const restriction = entry.restriction;
+    if (!restriction) {
+      return [];
+    }
+    const known = this.columnsOf(entry);
+    if (!known) {
+      return restriction.allowedColumns;
+    }
+    return Array.from(known).filter(column => isColumnAllowed(restriction, column));
+  }
+
+  buildScope(select: SelectFromStatement): Scope {
+    const entries: ScopeEntry[] = [];
+    (select.from || []).forEach(from => entries.push(this.scopeEntry(from)));
+    const outputAliases = new Set<string>();
+    (select.columns || []).forEach(column => {
+      if (column.alias) {
+        outputAliases.add(normalize(column.alias.name));
+      }
+    });
+    return { entries, outputAliases };
+  }
+
+  private tableKey(schema: string | undefined, table: string) {
+    return `${normalize(schema || 'public')}.${normalize(table)}`;
+  }
+
+  private columnsOf(entry: ScopeEntry): Set<string> | undefined {
+    if (entry.kind !== 'table' || !entry.table) {
+      return undefined;
+    }
+    return this.tableColumns.get(this.tableKey(entry.schema, entry.table));
+  }
+
+  private isCte(name: string) {
+    return this.cteNames.some(names => names.has(normalize(name)));
+  }
+
+  private scopeEntry(from: From): ScopeEntry {
+    switch (from.type) {
+      case 'table': {
+        const { name } = from;
+        const alias = normalize(name.alias || name.name);
+        if (!name.schema && this.isCte(name.name)) {
+          return { alias, kind: 'derived' };
+        }
+        const restriction = findTablePolicy(name.name, name.schema, this.policy);
+        if (restriction) {
+          this.tablesRead.add(restriction);
+        }
+        return { alias, kind: 'table', schema: name.schema, table: name.name, restriction };
+      }
+      case 'statement':
+        return { alias: normalize(from.alias), kind: 'derived' };
+      case 'call':
+        return { alias: normalize(from.alias?.name || from.function.name), kind: 'derived' };
+    }
+  }
+
+  private visitSelection(select: SelectFromStatement) {
+    const scope = this.buildScope(select);
+    this.scopes.push(scope);
+
+    (select.from || []).forEach(from => this.visitor.from(from));
+    (select.columns || []).forEach(column => this.visitColumn(scope, column));
+    this.visitExpr(select.where);
+    (select.groupBy || []).forEach(expr => this.visitExpr(expr));
+    this.visitExpr(select.having);
+    (select.orderBy || []).forEach(order => {
+      // ORDER BY resolves bare names against output aliases first
+      if (order.by.type === 'ref' && !order.by.table && scope.outputAliases.has(normalize(order.by.name))) {
+        return;
+      }
+      this.visitExpr(order.by);
+    });
+    this.visitExpr(select.limit?.limit);
+    this.visitExpr(select.limit?.offset);
+    if (Array.isArray(select.distinct)) {
+      select.distinct.forEach(expr => this.visitExpr(expr));
+    }
+
+    this.scopes.pop();
+  }
+
+  private visitColumn(scope: Scope, column: SelectedColumn) {
+    const { expr } = column;
+    if (expr.type === 'ref' && expr.name === '*') {
+      const targets = expr.table
+        ? scope.entries.filter(entry => entry.alias === normalize(expr.table!.name))
+        : scope.entries;
+      targets
+        .filter(entry => entry.restriction)
+        .forEach(entry => {
+          this.violations.push({
+            kind: 'star_expansion',
+            message: `${expr.table ? `${expr.table.name}.*` : '*'} would expose restricted columns of ${entry.table}`,
+            table: entry.table,
+            node: expr,
+          });
+        });
+      return;
+    }
+    this.visitExpr(expr);
+  }
+
+  private visitExpr(expr: Expr | null | undefined) {
+    if (expr) {
+      this.visitor.expr(expr);
+    }
+  }
+
+  private visitRef(ref: ExprRef) {
+    if (ref.name === '*') {
+      // A bare `*` outside a select list (count(*)) exposes no values, but `t.*` in an expression
+      // (row_to_json(t.*), (t.*)::text, ROW(t.*)) carries the whole row
+      const restriction = ref.table ? this.resolveQualifier(ref.table).restriction : undefined;
+      if (restriction) {
+        this.pushWholeRowViolation(restriction.table);
+      }
+      return;
+    }
+    if (ref.table) {
+      this.checkQualifiedRef(ref);
+    } else {
+      this.checkUnqualifiedRef(ref);
+    }
+  }
+
+  private resolveQualifier(qualifier: NonNullable<ExprRef['table']>): { restriction?: TablePolicy } {
+    let entry: ScopeEntry | undefined;
+    for (let i = this.scopes.length - 1; i >= 0 && !entry; i--) {
+      entry = this.scopes[i].entries.find(
+        candidate =>
+          candidate.alias === normalize(qualifier.name) &&
+          (!qualifier.schema || normalize(candidate.schema || 'public') === normalize(qualifier.schema)),
+      );
+    }
+
+    // Unknown qualifiers are still checked by name so that a missed scope cannot hide a restricted table
+    return { restriction: entry ? entry.restriction : findTablePolicy(qualifier.name, qualifier.schema, this.policy) };
+  }
+
+  private checkQualifiedRef(ref: ExprRef) {
+    const { restriction } = this.resolveQualifier(ref.table!);
+    if (restriction && !isColumnAllowed(restriction, ref.name)) {
+      this.pushColumnViolation(restriction, ref);
+    }
+  }
+
+  private checkUnqualifiedRef(ref: ExprRef) {
+    const name = normalize(ref.name);
+
+    // Walk scopes innermost first, like PostgreSQL; stop at the first scope that may own the column
+    for (let i = this.scopes.length - 1; i >= 0; i--) {
+      const owners = this.scopes[i].entries.filter(entry => {
+        const known = this.columnsOf(entry);
+        if (known) {
+          return known.has(name);
+        }
+        // Without introspection only restricted tables are assumed to own their denied columns
+        return entry.kind === 'derived' || (entry.restriction ? !isColumnAllowed(entry.restriction, name) : false);
+      });
+      if (owners.length > 0) {
+        owners
+          .filter(owner => owner.restriction && !isColumnAllowed(owner.restriction, name))
+          .forEach(owner => {
+            if (owner.alias === name && !this.columnsOf(owner)) {
+              this.pushWholeRowViolation(owner.table);
+            } else {
+              this.pushColumnViolation(owner.restriction!, ref);
+            }
+          });
+        return;
+      }
+    }
+
+    // A bare relation alias used as a value (row_to_json(a), a::text) carries the whole row
+    for (let i = this.scopes.length - 1; i >= 0; i--) {
+      const entry = this.scopes[i].entries.find(candidate => candidate.alias === name);
+      if (entry) {
+        if (entry.restriction) {
+          this.pushWholeRowViolation(entry.table);
+        }
+        return;
+      }
+    }
+  }
+
+  private pushDataModifyingViolation(statementType: string) {
+    this.violations.push({
+      kind: 'unsupported_statement',
+      message: `${statementType} statements are not allowed`,
+    });
+  }
+
+  private pushWholeRowViolation(table: string | undefined) {
+    this.violations.push({
+      kind: 'whole_row_reference',
+      message: `Whole-row reference to ${table} would expose restricted columns`,
+      table,
+    });
+  }
+
+  private pushColumnViolation(restriction: TablePolicy, ref: ExprRef) {
+    this.violations.push({
+      kind: 'forbidden_column',
+      message: `Column ${ref.name} of ${restriction.table} is not allowed`,
+      table: restriction.table,
+      column: ref.name,
+      node: ref,
+    });
+  }
+}
+
+// The SELECT whose select list is returned to the caller, or null when it cannot be rewritten safely
+function topLevelSelect(statement: SelectStatement): SelectFromStatement | null {
+  if (statement.type === 'select') {
+    return statement;
+  }
+  if (statement.type === 'with' || statement.type === 'with recursive') {
+    return statement.in.type === 'select' ? statement.in : null;
+  }
+  return null;
+}
+
+function isSelectStatement(statement: Statement): statement is SelectStatement {
+  return ['select', 'union', 'union all', 'values', 'with', 'with recursive'].includes(statement.type);
+}
+
+function rewriteSelectList(
+  analyzer: ColumnAccessAnalyzer,
+  select: SelectFromStatement,
+  violations: FoundViolation[],
+): { columns: SelectedColumn[]; handled: Set<FoundViolation>; removedColumns: string[] } {
+  const handled = new Set<FoundViolation>();
+  const removedColumns: string[] = [];
+  const scope = analyzer.buildScope(select);
+  const columns: SelectedColumn[] = [];
+
+  (select.columns || []).forEach(column => {
+    const columnViolations = violations.filter(violation => violation.node === column.expr);
+    if (columnViolations.length === 0) {
+      columns.push(column);
+      return;
+    }
+    columnViolations.forEach(violation => handled.add(violation));
+
+    const { expr } = column;
+    if (expr.type !== 'ref') {
+      return;
+    }
+    if (expr.name !== '*') {
+      removedColumns.push(expr.table ? `${expr.table.name}.${expr.name}` : expr.name);
+      return;
+    }
+
+    // Expand `*` / `t.*` into the policy-compliant columns of each relation it covers
+    const targets = expr.table
+      ? scope.entries.filter(entry => entry.alias === normalize(expr.table!.name))
+      : scope.entries;
+    targets.forEach(entry => {
+      const qualifier = scope.entries.length > 1 || expr.table ? { name: entry.alias } : undefined;
+      if (!entry.restriction) {
+        columns.push({ expr: { type: 'ref', table: qualifier || { name: entry.alias }, name: '*' } });
+        return;
+      }
+      removedColumns.push(`${expr.table ? `${expr.table.name}.` : ''}*`);
+      analyzer.expandableColumns(entry).forEach(name => {
+        columns.push({ expr: { type: 'ref', table: qualifier, name } });
+      });
+    });
+  });
+
+  if (columns.length === 0) {
+    // Nothing compliant was left, fall back to the allow-list of the first restricted table
+    const entry = scope.entries.find(candidate => candidate.restriction);
+    if (entry) {
+      analyzer.expandableColumns(entry).forEach(name => {
+        columns.push({ expr: { type: 'ref', table: scope.entries.length > 1 ? { name: entry.alias } : undefined, name } });
+      });
+    }
+  }
+
+  return { columns, handled, removedColumns };
+}
+
+const AGGREGATE_FUNCTIONS = [
+  'count',
+  'sum',
+  'avg',
+  'min',
+  'max',
+  'array_agg',
+  'string_agg',
+  'json_agg',
+  'jsonb_agg',
+  'json_object_agg',
+  'jsonb_object_agg',
+  'bool_and',
+  'bool_or',
+];
+
+function hasAggregate(select: SelectFromStatement): boolean {
+  let found = false;
+  const visitor = astVisitor(v => ({
+    call: call => {
+      found = found || AGGREGATE_FUNCTIONS.includes(normalize(call.function.name));
+      v.super().call(call);
+    },
+    // Aggregates inside subqueries do not make the outer SELECT an aggregate
+    selection: () => undefined,
+  }));
+  (select.columns || []).forEach(column => visitor.expr(column.expr));
+  return found;
+}
+
+// LIMIT and ORDER BY rules for the outermost SELECT of a statement reading policy tables
+function checkRowRules(
+  analyzer: ColumnAccessAnalyzer,
+  statement: SelectStatement,
+  tablesRead: Set<TablePolicy>,
+): FoundViolation[] {
+  const violations: FoundViolation[] = [];
+  const select = topLevelSelect(statement);
+
+  const limited = Array.from(tablesRead).filter(tablePolicy => tablePolicy.maxRows);
+  if (limited.length > 0) {
+    const maxRows = Math.min(...limited.map(tablePolicy => tablePolicy.maxRows!));
+    const limit = select?.limit?.limit;
+    if (!limit) {
+      violations.push({
+        kind: 'missing_limit',
+        message: `Queries on ${limited.map(tablePolicy => tablePolicy.table).join(', ')} must include LIMIT ${maxRows}`,
+        node: select || undefined,
+      });
+    } else if (limit.type !== 'integer' || limit.value > maxRows) {
+      violations.push({
+        kind: 'limit_exceeded',
+        message: `LIMIT must not exceed ${maxRows} for ${limited.map(tablePolicy => tablePolicy.table).join(', ')}`,
+        node: select || undefined,
+      });
+    }
+  }
+
+  // Aggregates define their own ordering, so the required ORDER BY only applies to plain row listings
+  if (select && !select.orderBy?.length && !select.groupBy?.length && !select.distinct && !hasAggregate(select)) {
+    const ordered = analyzer
+      .buildScope(select)
+      .entries.find(entry => entry.restriction?.requiredOrderBy);
+    if (ordered) {
+      violations.push({
+        kind: 'missing_order_by',
+        message: `Queries on ${ordered.table} must ORDER BY ${formatOrderBy(ordered.restriction!)}`,
+        table: ordered.table,
+        node: select,
+      });
+    }
+  }
+
+  return violations;
+}
+
+// Violations are matched against the original SELECT node, fixes are applied on top of `rewritten`
+function applyRowRules(
+  analyzer: ColumnAccessAnalyzer,
+  select: SelectFromStatement,
+  rewritten: SelectFromStatement,
+  violations: FoundViolation[],
+  tablesRead: Set<TablePolicy>,
+): { select: SelectFromStatement; handled: Set<FoundViolation>; appliedRules: string[] } {
+  const handled = new Set<FoundViolation>();
+  const appliedRules: string[] = [];
+
+  violations
+    .filter(violation => violation.node === select)
+    .forEach(violation => {
+      if (violation.kind === 'missing_limit' || violation.kind === 'limit_exceeded') {
+        const maxRows = Math.min(
+          ...Array.from(tablesRead)
+            .filter(tablePolicy => tablePolicy.maxRows)
+            .map(tablePolicy => tablePolicy.maxRows!),
+        );
+        rewritten = { ...rewritten, limit: { ...rewritten.limit, limit: { type: 'integer', value: maxRows } } };
+        appliedRules.push(`LIMIT ${maxRows} applied`);
+        handled.add(violation);
+      }
+
+      if (violation.kind === 'missing_order_by') {
+        const scope = analyzer.buildScope(select);
+        const entry = scope.entries.find(candidate => candidate.restriction?.requiredOrderBy);
+        const order = entry?.restriction?.requiredOrderBy;
+        if (entry && order) {
+          const qualifier = scope.entries.length > 1 ? { name: entry.alias } : undefined;
+          rewritten = {
+            ...rewritten,
+            orderBy: [{ by: { type: 'ref', table: qualifier, name: order.column }, order: order.direction }],
+          };
+          appliedRules.push(`ORDER BY ${formatOrderBy(entry.restriction!)} added`);
+          handled.add(violation);
+        }
+      }
+    });
+
+  return { select: rewritten, handled, appliedRules };
+}
+
+/**
+ * Checks a SQL string against the access policy by parsing it into a PostgreSQL AST and
+ * resolving every column reference, `*` and whole-row reference to the table it reads from.
+ * In 'rewrite' mode offending select-list items of the outermost SELECT are dropped or expanded
+ * and missing LIMIT / ORDER BY rules are applied; any violation elsewhere in the statement rejects it.
+ */
+export function guardSQL(sql: string, options: SqlGuardOptions = {}): SqlGuardResult {
+  const { schemaColumns, mode = 'rewrite', policy = accessPolicy } = options;
+  const reject = (violations: PolicyViolation[]): SqlGuardResult => ({
+    allowed: false,
+    sql,
+    rewritten: false,
+    violations,
+    removedColumns: [],
+    appliedRules: [],
+  });
+
+  let statements: Statement[];
+  try {
+    statements = parse(sql);
+  } catch (error) {
+    return reject([
+      {
+        kind: 'parse_error',
+        message: `Could not parse SQL: ${error instanceof Error ? error.message.split('\n')[0] : String(error)}`,
+      },
+    ]);
+  }
+
+  // Exactly one statement, so nothing can be chained after an allowed SELECT
+  if (statements.length !== 1) {
+    return reject([
+      {
+        kind: 'multiple_statements',
+        message: `Expected exactly one SQL statement, got ${statements.length}`,
+      },
+    ]);
+  }
+
+  const unsupported = statements.filter(statement => !isSelectStatement(statement));
+  if (unsupported.length > 0) {
+    return reject(
+      unsupported.map(statement => ({
+        kind: 'unsupported_statement',
+        message: `Statement type "${statement.type}" cannot be checked against the access policy`,
+      })),
+    );
+  }
+
+  const analyzer = new ColumnAccessAnalyzer(policy, schemaColumns);
+  const tablesRead = statements.map(statement => analyzer.analyze(statement));
+  const violations: FoundViolation[] = [...analyzer.violations];
+  statements.forEach((statement, index) =>
+    violations.push(...checkRowRules(analyzer, statement as SelectStatement, tablesRead[index])),
+  );
+  const publicViolations = violations.map(({ node, ...violation }) => violation);
+
+  if (violations.length === 0) {
+    return { allowed: true, sql, rewritten: false, violations: [], removedColumns: [], appliedRules: [] };
+  }
+
+  const select = topLevelSelect(statements[0] as SelectStatement);
+  if (mode === 'reject' || !select) {
+    return reject(publicViolations);
+  }
+
+  const { columns, handled, removedColumns } = rewriteSelectList(analyzer, select, violations);
+  const rowRules = applyRowRules(analyzer, select, { ...select, columns }, violations, tablesRead[0]);
+  if (handled.size + rowRules.handled.size < violations.length || columns.length === 0) {
+    return reject(publicViolations);
+  }
+
+  // Replace the outermost SELECT on a copy of the statement, so CTEs around it are kept
+  const rewrittenSelect = rowRules.select;
+  const statement = statements[0] as SelectStatement;
+  const rewrittenStatement: SelectStatement =
+    statement.type === 'with' || statement.type === 'with recursive'
+      ? { ...statement, in: rewrittenSelect }
+      : rewrittenSelect;
+
+  const rewrittenSQL = toSql.statement(rewrittenStatement);
+  const recheck = new ColumnAccessAnalyzer(policy, schemaColumns);
+  const recheckTables = recheck.analyze(rewrittenStatement);
+  if (recheck.violations.length > 0 || checkRowRules(recheck, rewrittenStatement, recheckTables).length > 0) {
+    return reject(publicViolations);
+  }
+
+  const appliedRules = [
+    ...(removedColumns.length > 0 ? [`removed restricted columns (${removedColumns.join(', ')})`] : []),
+    ...rowRules.appliedRules,
+  ];
+
+  return {
+    allowed: true,
+    sql: rewrittenSQL,
+    rewritten: true,
+    violations: publicViolations,
+    removedColumns,
+    appliedRules,
+  };
+}
+
+export function describeViolations(violations: PolicyViolation[]): string {
+  return violations.map(violation => violation.message).join('; ');
+}
+
+/**
+ * Tables and views a query reads (as `schema.table` when qualified), for logging and search. CTE names are
+ * left out; SQL that does not parse yields an empty list.
+ */
+export function referencedTables(sql: string): string[] {
+  const tables = new Set<string>();
+  const cteNames = new Set<string>();
+  const visitor = astVisitor(v => ({
+    with: statement => {
+      statement.bind.forEach(binding => cteNames.add(normalize(binding.alias.name)));
+      v.super().with(statement);
+    },
+    withRecursive: statement => {
+      cteNames.add(normalize(statement.alias.name));
+      v.super().withRecursive(statement);
+    },
+    tableRef: table => {
+      tables.add(table.schema ? `${normalize(table.schema)}.${normalize(table.name)}` : normalize(table.name));
+    },
+  }));
+
+  try {
+    parse(sql).forEach(statement => visitor.statement(statement));
+  } catch {
+    return [];
+  }
+  return Array.from(tables).filter(table => !cteNames.has(table));
+}
+
+export interface StatementShape {
+  parsed: boolean;
+  // A single SELECT (or WITH/UNION/VALUES of them) without data-modifying CTEs or row locks
+  readOnly: boolean;
+  // Why the statement is not read-only
+  reason?: string;
+  // The outermost SELECT has a LIMIT
+  limited: boolean;
+  // Aggregates without GROUP BY, which always return one row
+  singleRow: boolean;
+}
+
+const isReadOnlyStatement = (statement: Statement): boolean => {
+  if (statement.type === 'with') {
+    return statement.bind.every(binding => isReadOnlyStatement(binding.statement)) && isReadOnlyStatement(statement.in);
+  }
+  if (statement.type === 'with recursive') {
+    return isReadOnlyStatement(statement.bind) && isReadOnlyStatement(statement.in);
+  }
+  if (statement.type === 'union' || statement.type === 'union all') {
+    return isReadOnlyStatement(statement.left) && isReadOnlyStatement(statement.right);
+  }
+  if (statement.type === 'select') {
+    return !statement.for;
+  }
+  return statement.type === 'values';
+};
+
+// Statement kind and row bound of a query, for review decisions
+export function inspectStatement(sql: string): StatementShape {
+  let statements: Statement[];
+  try {
+    statements = parse(sql);
+  } catch {
+    return { parsed: false, readOnly: false, reason: 'The SQL could not be parsed', limited: false, singleRow: false };
+  }
+  if (statements.length !== 1) {
+    return { parsed: true, readOnly: false, reason: 'Only one statement is allowed', limited: false, singleRow: false };
+  }
+
+  const [statement] = statements;
+  if (!isSelectStatement(statement) || !isReadOnlyStatement(statement)) {
+    return {
+      parsed: true,
+      readOnly: false,
+      reason: isSelectStatement(statement)
+        ? 'Data-modifying CTEs and row locks (FOR UPDATE/SHARE) are not allowed'
+        : `${statement.type.toUpperCase()} statements are not allowed`,
+      limited: false,
+      singleRow: false,
+    };
+  }
+  const select = topLevelSelect(statement);
+  return {
+    parsed: true,
+    readOnly: true,
+    limited: Boolean(select?.limit?.limit),
+    singleRow: Boolean(select && !select.groupBy?.length && hasAggregate(select)),
+  };
+}
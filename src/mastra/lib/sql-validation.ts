@@ -0,0 +1,104 @@
+import type { ClientBase } from 'pg';
+import { querySingleStatement, withReadOnlyTransaction } from './read-only-query';
+
+// The parts of a PostgreSQL error that help a model repair its query
+export interface PgErrorDetails {
+  message: string;
+  code?: string;
+  // 1-based character offset into the SQL text
+  position?: number;
+  hint?: string;
+  detail?: string;
+}
+
+export interface ExplainResult {
+  valid: boolean;
+  error?: PgErrorDetails;
+  // Planner estimates from the top plan node
+  estimatedCost?: number;
+  estimatedRows?: number;
+  plan?: unknown;
+}
+
+const EXPLAIN_PREFIX = 'EXPLAIN (FORMAT JSON) ';
+const SNIPPET_RADIUS = 20;
+
+// pg attaches the server's error fields to the thrown Error; `positionOffset` undoes any prefix we added to the SQL
+export function pgErrorDetails(error: unknown, positionOffset = 0): PgErrorDetails {
+  if (!(error instanceof Error)) {
+    return { message: String(error) };
+  }
+  const fields = error as Error & { code?: string; position?: string; hint?: string; detail?: string };
+  const position = fields.position ? Number(fields.position) - positionOffset : undefined;
+  return {
+    message: error.message,
+    code: fields.code,
+    position: position && position > 0 ? position : undefined,
+    hint: fields.hint,
+    detail: fields.detail,
+  };
+}
+
+export function formatPgError(details: PgErrorDetails, sql?: string): string {
+  let text = details.message;
+  if (details.code) {
+    text += ` (SQLSTATE ${details.code})`;
+  }
+  if (details.position) {
+    text += ` at position ${details.position}`;
+    if (sql) {
+      const start = Math.max(0, details.position - 1 - SNIPPET_RADIUS);
+      text += ` near "${sql.slice(start, details.position - 1 + SNIPPET_RADIUS).replace(/\s+/g, ' ')}"`;
+    }
+  }
+  if (details.detail) {
+    text += `. Detail: ${details.detail}`;
+  }
+  if (details.hint) {
+    text += `. Hint: ${details.hint}`;
+  }
+  return text;
+}
+
+// Runs EXPLAIN inside the caller's transaction; a savepoint keeps that transaction usable if it fails
+const explainInTransaction = async (client: ClientBase, statement: string) => {
+  await client.query('SAVEPOINT explain_query');
+  try {
+    const result = await querySingleStatement(client, `${EXPLAIN_PREFIX}${statement}`);
+    await client.query('RELEASE SAVEPOINT explain_query');
+    return result;
+  } catch (error) {
+    await client.query('ROLLBACK TO SAVEPOINT explain_query');
+    throw error;
+  }
+};
+
+/**
+ * Plans the query with EXPLAIN (never ANALYZE) inside a read-only transaction, so syntax errors, unknown
+ * columns and type mismatches surface without running the query. Pass `inTransaction` when the client
+ * already holds a read-only transaction.
+ */
+export async function explainQuery(
+  client: ClientBase,
+  sql: string,
+  options: { inTransaction?: boolean } = {},
+): Promise<ExplainResult> {
+  const statement = sql.trim().replace(/;\s*$/, '');
+  try {
+    const result = options.inTransaction
+      ? await explainInTransaction(client, statement)
+      : await withReadOnlyTransaction(client, transaction =>
+          querySingleStatement(transaction, `${EXPLAIN_PREFIX}${statement}`),
+        );
+    const plan = result.rows[0]?.['QUERY PLAN']?.[0];
+    return {
+      valid: true,
+      estimatedCost: plan?.Plan?.['Total Cost'],
+      estimatedRows: plan?.Plan?.['Plan Rows'],
+      plan,
+    };
+  } catch (error) {
+    const leadingWhitespace = sql.length - sql.trimStart().length;
+    return { valid: false, error: pgErrorDetails(error, EXPLAIN_PREFIX.length - leadingWhitespace) };
+  }
+}
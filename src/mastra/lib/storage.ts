@@ -0,0 +1,7 @@
+import { createClient } from '@libsql/client';
+
+// One LibSQL database backs both Mastra's storage and the app's own tables (schema cache, ...).
+// It lives in memory by default; set MASTRA_STORAGE_URL (e.g. file:../mastra.db) to persist it.
+export const storageClient = createClient({
+  url: process.env.MASTRA_STORAGE_URL || ':memory:',
+});
@@ -0,0 +1,211 @@
+import { sectorSymbols, tickerReference } from './ticker-reference';
+import type { Exchange, SectorInfo, TickerInfo, TickerReference } from './ticker-reference';
+import { foldDiacritics } from './vietnamese-text';
+
+// Maps what users type ("Vietcombank", "cổ phiếu ngân hàng", "hoa phat", "fpt") to ticker symbols and sector
+// symbol lists, using the reference table. Matching works on words with case and diacritics folded, and the
+// longest phrase wins, so "Chứng khoán FPT" is FTS and not FPT. Phrases shared by several tickers are returned
+// as ambiguities for the user to settle instead of being guessed.
+
+export interface SymbolCandidate {
+  symbol: string;
+  exchange: Exchange;
+  name: string;
+  shortName: string;
+  sector: string;
+}
+
+export interface SymbolMatch {
+  // The words as the user wrote them
+  text: string;
+  kind: 'ticker' | 'sector';
+  symbols: string[];
+  // Sector id, for sector matches
+  sector?: string;
+}
+
+export interface SectorMatch {
+  id: string;
+  name: string;
+  symbols: string[];
+}
+
+export interface SymbolAmbiguity {
+  text: string;
+  candidates: SymbolCandidate[];
+}
+
+export interface SymbolResolution {
+  // Tickers named directly, in the order they appear
+  symbols: string[];
+  sectors: SectorMatch[];
+  ambiguities: SymbolAmbiguity[];
+  matches: SymbolMatch[];
+}
+
+type PhraseTarget =
+  | { kind: 'ticker'; ticker: TickerInfo; viaSymbol: boolean }
+  | { kind: 'sector'; sector: SectorInfo }
+  | { kind: 'ignore' };
+
+interface Token {
+  word: string;
+  start: number;
+  end: number;
+}
+
+// Words right before a symbol that mark it as a ticker: "mã VND", "cổ phiếu GAS", "cp OIL"
+const TICKER_CUES = [['ma'], ['cp'], ['co', 'phieu'], ['ticker'], ['stock'], ['symbol']];
+
+const foldWord = (word: string) => foldDiacritics(word).toLowerCase();
+
+// Positions refer to the NFC form of the text; "&" counts as the word "and"
+const tokenize = (text: string): Token[] =>
+  [...text.normalize('NFC').matchAll(/[\p{L}\p{N}]+|&/gu)].map(match => ({
+    word: match[0] === '&' ? 'and' : foldWord(match[0]),
+    start: match.index ?? 0,
+    end: (match.index ?? 0) + match[0].length,
+  }));
+
+const phraseKey = (text: string) =>
+  tokenize(text)
+    .map(token => token.word)
+    .join(' ');
+
+const sameTarget = (a: PhraseTarget, b: PhraseTarget) =>
+  (a.kind === 'ticker' && b.kind === 'ticker' && a.ticker === b.ticker) ||
+  (a.kind === 'sector' && b.kind === 'sector' && a.sector === b.sector) ||
+  (a.kind === 'ignore' && b.kind === 'ignore');
+
+const toCandidate = (ticker: TickerInfo): SymbolCandidate => ({
+  symbol: ticker.symbol,
+  exchange: ticker.exchange,
+  name: ticker.name,
+  shortName: ticker.shortName,
+  sector: ticker.sector,
+});
+
+export class SymbolResolver {
+  private phrases = new Map<string, PhraseTarget[]>();
+  private longestPhrase = 1;
+
+  constructor(private reference: TickerReference) {
+    for (const ticker of reference.tickers) {
+      this.add(ticker.symbol, { kind: 'ticker', ticker, viaSymbol: true });
+      for (const phrase of [ticker.name, ticker.shortName, ...ticker.aliases]) {
+        this.add(phrase, { kind: 'ticker', ticker, viaSymbol: false });
+      }
+    }
+    for (const sector of reference.sectors) {
+      for (const phrase of [sector.name, ...sector.aliases]) {
+        this.add(phrase, { kind: 'sector', sector });
+      }
+    }
+    for (const phrase of reference.ignore) {
+      this.add(phrase, { kind: 'ignore' });
+    }
+  }
+
+  private add(phrase: string, target: PhraseTarget) {
+    const key = phraseKey(phrase);
+    if (!key) {
+      return;
+    }
+    const targets = this.phrases.get(key) ?? [];
+    // A ticker reached through its symbol and one of its names counts once
+    if (!targets.some(existing => sameTarget(existing, target))) {
+      targets.push(target);
+    }
+    this.phrases.set(key, targets);
+    this.longestPhrase = Math.max(this.longestPhrase, key.split(' ').length);
+  }
+
+  private hasTickerCue(tokens: Token[], index: number) {
+    return TICKER_CUES.some(
+      cue => index >= cue.length && cue.every((word, offset) => tokens[index - cue.length + offset].word === word),
+    );
+  }
+
+  // Targets a phrase may stand for at this position; bare common-word symbols need a cue such as "mã"
+  private viableTargets(tokens: Token[], index: number, key: string): PhraseTarget[] {
+    const targets = this.phrases.get(key) ?? [];
+    return targets.filter(
+      target =>
+        target.kind !== 'ticker' || !target.viaSymbol || !target.ticker.commonWord || this.hasTickerCue(tokens, index),
+    );
+  }
+
+  resolve(text: string): SymbolResolution {
+    const source = text.normalize('NFC');
+    const tokens = tokenize(source);
+    const resolution: SymbolResolution = { symbols: [], sectors: [], ambiguities: [], matches: [] };
+
+    let index = 0;
+    while (index < tokens.length) {
+      let matched = false;
+      for (let length = Math.min(this.longestPhrase, tokens.length - index); length >= 1; length--) {
+        const span = tokens.slice(index, index + length);
+        const targets = this.viableTargets(tokens, index, span.map(token => token.word).join(' '));
+        if (targets.length === 0) {
+          continue;
+        }
+        this.record(resolution, source.slice(span[0].start, span[span.length - 1].end), targets);
+        index += length;
+        matched = true;
+        break;
+      }
+      if (!matched) {
+        index++;
+      }
+    }
+    return resolution;
+  }
+
+  private record(resolution: SymbolResolution, text: string, targets: PhraseTarget[]) {
+    if (targets.some(target => target.kind === 'ignore')) {
+      return;
+    }
+    // A company name beats a sector word of the same length
+    const tickers = targets.flatMap(target => (target.kind === 'ticker' ? [target.ticker] : []));
+    if (tickers.length > 1) {
+      resolution.ambiguities.push({ text, candidates: tickers.map(toCandidate) });
+      return;
+    }
+    if (tickers.length === 1) {
+      const { symbol } = tickers[0];
+      resolution.matches.push({ text, kind: 'ticker', symbols: [symbol] });
+      if (!resolution.symbols.includes(symbol)) {
+        resolution.symbols.push(symbol);
+      }
+      return;
+    }
+
+    const sector = targets.find(target => target.kind === 'sector');
+    if (sector?.kind === 'sector') {
+      const symbols = sectorSymbols(sector.sector.id, this.reference);
+      resolution.matches.push({ text, kind: 'sector', symbols, sector: sector.sector.id });
+      if (!resolution.sectors.some(existing => existing.id === sector.sector.id)) {
+        resolution.sectors.push({ id: sector.sector.id, name: sector.sector.name, symbols });
+      }
+    }
+  }
+}
+
+export const symbolResolver = new SymbolResolver(tickerReference);
+
+export const resolveSymbols = (text: string) => symbolResolver.resolve(text);
+
+// Plain-text summary for prompts; empty when nothing was recognized
+export function describeSymbolResolution(resolution: SymbolResolution): string {
+  const lines = resolution.matches
+    .filter(match => match.kind === 'ticker')
+    .map(match => `- "${match.text}" is ${match.symbols[0]}`);
+  for (const sector of resolution.sectors) {
+    lines.push(`- Sector ${sector.name}: ${sector.symbols.join(', ')}`);
+  }
+  for (const ambiguity of resolution.ambiguities) {
+    const candidates = ambiguity.candidates.map(candidate => `${candidate.symbol} (${candidate.shortName})`);
+    lines.push(`- "${ambiguity.text}" is ambiguous: ${candidates.join(' or ')}`);
+  }
+  return lines.join('\n');
+}
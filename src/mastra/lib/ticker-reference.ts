@@ -0,0 +1,124 @@
+import { existsSync, readFileSync } from 'fs';
+import path from 'path';
+import { parse } from 'yaml';
+import { z } from 'zod';
+
+// Reference table of listed Vietnamese companies (tickers.yaml): symbols, names, aliases and sectors. The symbol
+// resolver matches user text against it, and the news seeding profile takes its company names from it.
+
+export const exchanges = ['HOSE', 'HNX', 'UPCOM'] as const;
+export type Exchange = (typeof exchanges)[number];
+
+// Shape of tickers.yaml; keys are snake_case like policy.yaml
+const tickerReferenceFileSchema = z.object({
+  sectors: z.record(
+    z.object({
+      name: z.string().min(1),
+      aliases: z.array(z.string()).default([]),
+    }),
+  ),
+  tickers: z.array(
+    z.object({
+      symbol: z.string().regex(/^[A-Z0-9]{2,10}$/),
+      exchange: z.enum(exchanges),
+      name: z.string().min(1),
+      short_name: z.string().min(1),
+      sector: z.string(),
+      aliases: z.array(z.string()).default([]),
+      common_word: z.boolean().default(false),
+    }),
+  ),
+  ignore: z.array(z.string()).default([]),
+});
+
+export interface SectorInfo {
+  id: string;
+  name: string;
+  aliases: string[];
+}
+
+export interface TickerInfo {
+  symbol: string;
+  exchange: Exchange;
+  // Registered company name
+  name: string;
+  // Brand name used in headlines, e.g. Vietcombank
+  shortName: string;
+  // Sector id
+  sector: string;
+  aliases: string[];
+  // The bare symbol is also an ordinary word or currency code (VND, GAS)
+  commonWord: boolean;
+}
+
+export interface TickerReference {
+  source: string;
+  sectors: SectorInfo[];
+  tickers: TickerInfo[];
+  // Phrases that look like a company or sector but are not one, e.g. "Ngân hàng Nhà nước"
+  ignore: string[];
+}
+
+// `mastra dev` runs from .mastra/output, so the project root is two levels up
+const DEFAULT_REFERENCE_PATHS = ['tickers.yaml', '../../tickers.yaml'];
+
+export function parseTickerReference(content: string, source = 'inline'): TickerReference {
+  const parsed = tickerReferenceFileSchema.safeParse(parse(content) ?? {});
+  if (!parsed.success) {
+    throw new Error(`Invalid ticker reference in ${source}: ${parsed.error.message}`);
+  }
+
+  const seen = new Set<string>();
+  for (const ticker of parsed.data.tickers) {
+    if (seen.has(ticker.symbol)) {
+      throw new Error(`Invalid ticker reference in ${source}: ${ticker.symbol} is listed twice`);
+    }
+    if (!parsed.data.sectors[ticker.sector]) {
+      throw new Error(`Invalid ticker reference in ${source}: ${ticker.symbol} has unknown sector "${ticker.sector}"`);
+    }
+    seen.add(ticker.symbol);
+  }
+
+  return {
+    source,
+    sectors: Object.entries(parsed.data.sectors).map(([id, sector]) => ({ id, ...sector })),
+    tickers: parsed.data.tickers.map(ticker => ({
+      symbol: ticker.symbol,
+      exchange: ticker.exchange,
+      name: ticker.name,
+      shortName: ticker.short_name,
+      sector: ticker.sector,
+      aliases: ticker.aliases,
+      commonWord: ticker.common_word,
+    })),
+    ignore: parsed.data.ignore,
+  };
+}
+
+export function loadTickerReference(referencePath = process.env.TICKER_REFERENCE_PATH): TickerReference {
+  const candidates = referencePath ? [referencePath] : DEFAULT_REFERENCE_PATHS;
+  const resolved = candidates.map(candidate => path.resolve(process.cwd(), candidate)).find(existsSync);
+  if (!resolved) {
+    throw new Error(
+      `Ticker reference not found (looked for ${candidates.join(', ')}). Set TICKER_REFERENCE_PATH to tickers.yaml`,
+    );
+  }
+
+  return parseTickerReference(readFileSync(resolved, 'utf8'), resolved);
+}
+
+// Loaded once at startup, like the access policy
+export const tickerReference = loadTickerReference();
+
+export function findTicker(symbol: string, reference: TickerReference = tickerReference): TickerInfo | undefined {
+  const wanted = symbol.trim().toUpperCase();
+  return reference.tickers.find(ticker => ticker.symbol === wanted);
+}
+
+export function findSector(id: string, reference: TickerReference = tickerReference): SectorInfo | undefined {
+  return reference.sectors.find(sector => sector.id === id);
+}
+
+export function sectorSymbols(id: string, reference: TickerReference = tickerReference): string[] {
+  return reference.tickers.filter(ticker => ticker.sector === id).map(ticker => ticker.symbol);
+}
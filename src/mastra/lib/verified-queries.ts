@@ -0,0 +1,355 @@
+import { randomUUID } from 'crypto';
+import { existsSync, readFileSync } from 'fs';
+import path from 'path';
+import type { InValue } from '@libsql/client';
+import { parse } from 'yaml';
+import { z } from 'zod';
+import { describeViolations, guardSQL, referencedTables } from './sql-guard';
+import { storageClient } from './storage';
+import { foldDiacritics } from './vietnamese-text';
+
+// Library of verified question→SQL pairs that are given to SQL generation as few-shot examples. Entries are
+// imported from verified-queries.yaml, promoted from approved workflow runs or added with the library tool, and
+// live in the LibSQL storage.
+
+export const verifiedQuerySources = ['yaml', 'approved-run', 'manual'] as const;
+export type VerifiedQuerySource = (typeof verifiedQuerySources)[number];
+
+export const verifiedQueryStatuses = ['active', 'retired'] as const;
+export type VerifiedQueryStatus = (typeof verifiedQueryStatuses)[number];
+
+export interface VerifiedQuery {
+  id: string;
+  question: string;
+  sql: string;
+  notes?: string;
+  tables: string[];
+  source: VerifiedQuerySource;
+  status: VerifiedQueryStatus;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface SimilarVerifiedQuery extends VerifiedQuery {
+  // Cosine similarity of the questions, 0-1
+  score: number;
+}
+
+export interface NewVerifiedQuery {
+  id?: string;
+  question: string;
+  sql: string;
+  notes?: string;
+  source: VerifiedQuerySource;
+}
+
+export interface VerifiedQueryChanges {
+  question?: string;
+  sql?: string;
+  notes?: string;
+  status?: VerifiedQueryStatus;
+}
+
+// Shape of verified-queries.yaml
+const verifiedQueriesFileSchema = z.object({
+  examples: z
+    .array(
+      z.object({
+        id: z.string().min(1),
+        question: z.string().min(1),
+        sql: z.string().min(1),
+        notes: z.string().optional(),
+      }),
+    )
+    .default([]),
+});
+
+// `mastra dev` runs from .mastra/output, so the project root is two levels up
+const DEFAULT_LIBRARY_PATHS = ['verified-queries.yaml', '../../verified-queries.yaml'];
+const DEFAULT_EXAMPLE_COUNT = 3;
+// Below this similarity an example is more likely to mislead the model than to help it
+const DEFAULT_MIN_SCORE = 0.1;
+
+const STOP_WORDS = new Set([
+  'a', 'all', 'an', 'and', 'are', 'by', 'show', 'for', 'from', 'get', 'give', 'how', 'in', 'is', 'list', 'me',
+  'of', 'on', 'or', 'the', 'to', 'what', 'which', 'with', 'cho', 'cua', 'la', 'nhung', 'toi', 've', 'va',
+]);
+
+// Upper-case codes such as FPT or VCB also count as a generic ticker token, so a question about one
+// stock finds the examples written for another
+const TICKER = /^[A-Z][A-Z0-9]{2}$/;
+const TICKER_TOKEN = '<ticker>';
+
+const exampleCountFromEnv = () => {
+  const value = Number(process.env.VERIFIED_QUERY_EXAMPLES);
+  return Number.isFinite(value) && value >= 0 ? value : DEFAULT_EXAMPLE_COUNT;
+};
+
+// Vietnamese questions are matched without diacritics, so "tin tức" and "tin tuc" are the same words
+const tokenize = (text: string): string[] =>
+  foldDiacritics(text)
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(token => token.length > 0)
+    .flatMap(token => {
+      const lower = token.toLowerCase();
+      const tokens = lower.length > 1 && !STOP_WORDS.has(lower) ? [lower] : [];
+      return TICKER.test(token) ? [...tokens, TICKER_TOKEN] : tokens;
+    });
+
+const termFrequencies = (tokens: string[]) => {
+  const counts = new Map<string, number>();
+  tokens.forEach(token => counts.set(token, (counts.get(token) ?? 0) + 1));
+  return counts;
+};
+
+/**
+ * Ranks `candidates` by TF-IDF cosine similarity between their questions and `question`. Document
+ * frequencies come from the candidates themselves, so words that every example shares weigh little.
+ */
+export function rankBySimilarity<T extends { question: string }>(
+  question: string,
+  candidates: T[],
+): (T & { score: number })[] {
+  const documents = candidates.map(candidate => termFrequencies(tokenize(candidate.question)));
+  const documentFrequency = new Map<string, number>();
+  documents.forEach(document =>
+    document.forEach((_, term) => documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1)),
+  );
+  const weigh = (frequencies: Map<string, number>) => {
+    const weights = new Map<string, number>();
+    frequencies.forEach((count, term) => {
+      const idf = Math.log((1 + candidates.length) / (1 + (documentFrequency.get(term) ?? 0))) + 1;
+      weights.set(term, count * idf);
+    });
+    return weights;
+  };
+  const norm = (weights: Map<string, number>) =>
+    Math.sqrt(Array.from(weights.values()).reduce((sum, weight) => sum + weight * weight, 0));
+
+  const query = weigh(termFrequencies(tokenize(question)));
+  const queryNorm = norm(query);
+  return candidates
+    .map((candidate, index) => {
+      const weights = weigh(documents[index]);
+      let dot = 0;
+      query.forEach((weight, term) => {
+        dot += weight * (weights.get(term) ?? 0);
+      });
+      const denominator = queryNorm * norm(weights);
+      return { ...candidate, score: denominator > 0 ? dot / denominator : 0 };
+    })
+    .sort((a, b) => b.score - a.score);
+}
+
+// Examples must pass the access policy as stored, so the model is never shown a query the guard would reject
+const checkedSql = (sql: string) => {
+  const guard = guardSQL(sql);
+  if (!guard.allowed) {
+    throw new Error(`Query violates the access policy: ${describeViolations(guard.violations)}`);
+  }
+  return guard.sql;
+};
+
+export function loadVerifiedQueryFile(
+  filePath = process.env.VERIFIED_QUERIES_PATH,
+): { source: string; examples: z.infer<typeof verifiedQueriesFileSchema>['examples'] } | null {
+  const candidates = filePath ? [filePath] : DEFAULT_LIBRARY_PATHS;
+  const resolved = candidates.map(candidate => path.resolve(process.cwd(), candidate)).find(existsSync);
+  if (!resolved) {
+    if (filePath) {
+      throw new Error(`Verified query library not found at ${filePath}`);
+    }
+    return null;
+  }
+
+  const parsed = verifiedQueriesFileSchema.safeParse(parse(readFileSync(resolved, 'utf8')) ?? {});
+  if (!parsed.success) {
+    throw new Error(`Invalid verified query library in ${resolved}: ${parsed.error.message}`);
+  }
+  return { source: resolved, examples: parsed.data.examples };
+}
+
+let libraryReady: Promise<unknown> | undefined;
+
+// The YAML file only adds examples whose id is not stored yet; edits and retirements made later are kept
+const ensureLibrary = () => {
+  libraryReady ??= (async () => {
+    await storageClient.execute(`
+      CREATE TABLE IF NOT EXISTS verified_queries (
+        id TEXT PRIMARY KEY,
+        question TEXT NOT NULL,
+        sql TEXT NOT NULL,
+        notes TEXT,
+        tables TEXT NOT NULL,
+        source TEXT NOT NULL,
+        status TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      )
+    `);
+
+    const file = loadVerifiedQueryFile();
+    if (!file) {
+      return;
+    }
+    const now = new Date().toISOString();
+    const statements = file.examples.flatMap(example => {
+      try {
+        const sql = checkedSql(example.sql);
+        return [
+          {
+            sql: `
+              INSERT INTO verified_queries (id, question, sql, notes, tables, source, status, created_at, updated_at)
+              VALUES (?, ?, ?, ?, ?, 'yaml', 'active', ?, ?)
+              ON CONFLICT (id) DO NOTHING
+            `,
+            args: [
+              example.id,
+              example.question,
+              sql,
+              example.notes ?? null,
+              JSON.stringify(referencedTables(sql)),
+              now,
+              now,
+            ],
+          },
+        ];
+      } catch (error) {
+        console.warn(
+          `⚠️ Skipping verified query "${example.id}": ${error instanceof Error ? error.message : String(error)}`,
+        );
+        return [];
+      }
+    });
+    if (statements.length > 0) {
+      await storageClient.batch(statements, 'write');
+    }
+    console.log(`📚 Loaded ${statements.length} verified queries from ${file.source}`);
+  })().catch(error => {
+    libraryReady = undefined;
+    throw error;
+  });
+  return libraryReady;
+};
+
+const toVerifiedQuery = (row: Record<string, unknown>): VerifiedQuery => ({
+  id: String(row.id),
+  question: String(row.question),
+  sql: String(row.sql),
+  notes: row.notes === null || row.notes === undefined ? undefined : String(row.notes),
+  tables: JSON.parse(String(row.tables)),
+  source: String(row.source) as VerifiedQuerySource,
+  status: String(row.status) as VerifiedQueryStatus,
+  createdAt: String(row.created_at),
+  updatedAt: String(row.updated_at),
+});
+
+export async function getVerifiedQuery(id: string): Promise<VerifiedQuery | null> {
+  await ensureLibrary();
+  const result = await storageClient.execute({ sql: 'SELECT * FROM verified_queries WHERE id = ?', args: [id] });
+  const row = result.rows[0];
+  return row ? toVerifiedQuery(row as unknown as Record<string, unknown>) : null;
+}
+
+export async function listVerifiedQueries(status?: VerifiedQueryStatus): Promise<VerifiedQuery[]> {
+  await ensureLibrary();
+  const result = await storageClient.execute({
+    sql: `SELECT * FROM verified_queries ${status ? 'WHERE status = ?' : ''} ORDER BY updated_at DESC, id`,
+    args: status ? [status] : [],
+  });
+  return result.rows.map(row => toVerifiedQuery(row as unknown as Record<string, unknown>));
+}
+
+export async function promoteVerifiedQuery(entry: NewVerifiedQuery): Promise<VerifiedQuery> {
+  await ensureLibrary();
+  const sql = checkedSql(entry.sql);
+  const id = entry.id ?? `vq-${randomUUID().slice(0, 8)}`;
+  const now = new Date().toISOString();
+  try {
+    await storageClient.execute({
+      sql: `
+        INSERT INTO verified_queries (id, question, sql, notes, tables, source, status, created_at, updated_at)
+        VALUES (?, ?, ?, ?, ?, ?, 'active', ?, ?)
+      `,
+      args: [
+        id,
+        entry.question,
+        sql,
+        entry.notes ?? null,
+        JSON.stringify(referencedTables(sql)),
+        entry.source,
+        now,
+        now,
+      ],
+    });
+  } catch (error) {
+    if (error instanceof Error && /UNIQUE constraint failed/.test(error.message)) {
+      throw new Error(`A verified query with id "${id}" already exists; edit it instead`);
+    }
+    throw error;
+  }
+  console.log(`📚 Promoted verified query ${id}: ${entry.question}`);
+  return (await getVerifiedQuery(id))!;
+}
+
+export async function updateVerifiedQuery(id: string, changes: VerifiedQueryChanges): Promise<VerifiedQuery> {
+  const existing = await getVerifiedQuery(id);
+  if (!existing) {
+    throw new Error(`Unknown verified query "${id}"`);
+  }
+
+  const assignments: string[] = [];
+  const args: InValue[] = [];
+  if (changes.question !== undefined) {
+    assignments.push('question = ?');
+    args.push(changes.question);
+  }
+  if (changes.sql !== undefined) {
+    const sql = checkedSql(changes.sql);
+    assignments.push('sql = ?', 'tables = ?');
+    args.push(sql, JSON.stringify(referencedTables(sql)));
+  }
+  if (changes.notes !== undefined) {
+    assignments.push('notes = ?');
+    args.push(changes.notes);
+  }
+  if (changes.status !== undefined) {
+    assignments.push('status = ?');
+    args.push(changes.status);
+  }
+  if (assignments.length === 0) {
+    return existing;
+  }
+
+  assignments.push('updated_at = ?');
+  args.push(new Date().toISOString(), id);
+  await storageClient.execute({ sql: `UPDATE verified_queries SET ${assignments.join(', ')} WHERE id = ?`, args });
+  return (await getVerifiedQuery(id))!;
+}
+
+export function retireVerifiedQuery(id: string): Promise<VerifiedQuery> {
+  return updateVerifiedQuery(id, { status: 'retired' });
+}
+
+/**
+ * Active examples whose questions are most similar to `question`, best first. Lookup failures only cost
+ * the examples, so they are logged and yield an empty list.
+ */
+export async function findSimilarVerifiedQueries(
+  question: string,
+  options: { limit?: number; minScore?: number } = {},
+): Promise<SimilarVerifiedQuery[]> {
+  const limit = options.limit ?? exampleCountFromEnv();
+  if (limit === 0) {
+    return [];
+  }
+  try {
+    const examples = await listVerifiedQueries('active');
+    return rankBySimilarity(question, examples)
+      .filter(example => example.score >= (options.minScore ?? DEFAULT_MIN_SCORE))
+      .slice(0, limit);
+  } catch (error) {
+    console.warn(`⚠️ Could not read verified queries: ${error instanceof Error ? error.message : String(error)}`);
+    return [];
+  }
+}
@@ -0,0 +1,12 @@
+// Vietnamese text helpers shared by matching, search and slug generation
+
+// "tin tức" and "tin tuc" become the same text; đ/Đ are separate letters, not accented d, so NFD keeps them
+export const foldDiacritics = (text: string) =>
+  text.normalize('NFD').replace(/\p{M}/gu, '').replace(/đ/g, 'd').replace(/Đ/g, 'D');
+
+// URL slug in the style of Vietnamese news sites: "Lãi suất giảm" -> "lai-suat-giam"
+export const slugify = (text: string) =>
+  foldDiacritics(text)
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
@@ -0,0 +1,28 @@
+import { registerApiRoute } from '@mastra/core/server';
+import { queryApprovals } from '../lib/query-approval';
+
+// The user-facing side of query approvals: the chat UI shows a held query with GET and approves it with POST when
+// the user clicks approve. The agent has no tool for either, so it cannot approve its own queries.
+
+const notFound = { error: 'Unknown or expired approval' };
+
+export const queryApprovalRoutes = [
+  registerApiRoute('/query-approvals/:approvalId', {
+    method: 'GET',
+    handler: async c => {
+      const approval = queryApprovals.find(c.req.param('approvalId'));
+      return approval ? c.json(approval) : c.json(notFound, 404);
+    },
+  }),
+  registerApiRoute('/query-approvals/:approvalId/approve', {
+    method: 'POST',
+    handler: async c => {
+      const approval = queryApprovals.grant(c.req.param('approvalId'));
+      if (!approval) {
+        return c.json(notFound, 404);
+      }
+      console.log(`✅ Query approval ${approval.id} granted`);
+      return c.json(approval);
+    },
+  }),
+];
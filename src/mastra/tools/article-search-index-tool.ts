@@ -0,0 +1,47 @@
+import { createTool } from '@mastra/core/tools';
+import { z } from 'zod';
+import { buildTitleSearchIndex, titleSearchIndexStatus } from '../lib/article-text-search';
+import { poolRegistry } from '../lib/db-pool';
+
+// Building the index creates extensions, functions and indexes, which needs a role with more than the agent's
+// read-only grants, so operators run it through `npm run ops -- search-index`
+export const articleSearchIndexTool = createTool({
+  id: 'article-search-index',
+  inputSchema: z.object({
+    action: z
+      .enum(['status', 'build', 'rebuild'])
+      .describe(
+        'status reports what is installed; build creates what is missing or invalid; rebuild recreates the indexes',
+      ),
+    connectionString: z
+      .string()
+      .optional()
+      .describe(
+        'PostgreSQL connection string with rights to create extensions and indexes. Defaults to NEWS_DATABASE_URL',
+      ),
+  }),
+  description:
+    'Builds and checks the title search index of the articles table: the unaccent and pg_trgm extensions, the normalization functions, and the full-text and trigram indexes over title and slug (built concurrently, kept current by PostgreSQL). Used by article-text-search; never indexes article content.',
+  execute: async ({ context: { action, connectionString }, tracingContext }) => {
+    const dbUrl = connectionString || process.env.NEWS_DATABASE_URL;
+    if (!dbUrl) {
+      throw new Error('No connection string provided and NEWS_DATABASE_URL is not set in environment variables');
+    }
+
+    try {
+      const status = await poolRegistry.withClient(dbUrl, client =>
+        action === 'status'
+          ? titleSearchIndexStatus(client)
+          : buildTitleSearchIndex(client, { rebuild: action === 'rebuild' }),
+      );
+      console.log(`🔎 Title search index ${status.ready ? 'is ready' : 'is not ready'} in schema ${status.schema}`);
+      return { action, ...status };
+    } catch (error) {
+      throw new Error(
+        `Failed to ${action === 'status' ? 'check' : 'build'} the title search index: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    } finally {
+      poolRegistry.reportMetrics(dbUrl, tracingContext);
+    }
+  },
+});
@@ -0,0 +1,111 @@
+import { createTool } from '@mastra/core/tools';
+import { z } from 'zod';
+import { presentRows } from '../lib/article-presenter';
+import { ISO_DATE_PATTERN, articleSortOrders, buildArticleSearchQuery } from '../lib/article-search';
+import { recordAuditEntry } from '../lib/audit-log';
+import { poolRegistry } from '../lib/db-pool';
+import { resolveReadOnlyConnectionString, withReadOnlyTransaction } from '../lib/read-only-query';
+import { databaseFingerprint } from '../lib/schema-cache';
+import { referencedTables } from '../lib/sql-guard';
+import { formatPgError, pgErrorDetails } from '../lib/sql-validation';
+
+export const articleSearchTool = createTool({
+  id: 'article-search',
+  inputSchema: z.object({
+    connectionString: z
+      .string()
+      .optional()
+      .describe(
+        'PostgreSQL connection string. If not provided, will use NEWS_DATABASE_READONLY_URL, then NEWS_DATABASE_URL from environment variables.',
+      ),
+    symbols: z
+      .array(z.string().min(1).max(20))
+      .max(50)
+      .optional()
+      .describe('Stock symbols such as ["FPT", "VCB"]; articles tagged with any of them'),
+    from: z.string().regex(ISO_DATE_PATTERN).optional().describe('First day, YYYY-MM-DD in Vietnamese time'),
+    to: z.string().regex(ISO_DATE_PATTERN).optional().describe('Last day (inclusive), YYYY-MM-DD in Vietnamese time'),
+    keyword: z.string().max(200).optional().describe('Words the title must contain'),
+    limit: z
+      .number()
+      .int()
+      .min(1)
+      .optional()
+      .describe('Articles per page (default and maximum: max_rows of the articles table in policy.yaml)'),
+    offset: z.number().int().min(0).optional().describe('Articles to skip, e.g. nextOffset of the previous page'),
+    sort: z.enum(articleSortOrders).optional().describe('newest (default) or oldest first, by published_at'),
+    question: z.string().optional().describe('The natural language question being answered, recorded in the audit log'),
+  }),
+  description:
+    'Finds news articles by stock symbols, date range and title keyword with fixed, parameterized SQL, and returns article cards (title, public_url, dd/mm/yyyy published_at, symbols). Use it first for any "news about X (between dates)" question; use sql-generation only for analytics it cannot answer. Uses NEWS_DATABASE_READONLY_URL or NEWS_DATABASE_URL if connectionString is not provided.',
+  execute: async ({
+    context: { connectionString, question, ...filters },
+    tracingContext,
+    threadId,
+    resourceId,
+    runId,
+  }) => {
+    const dbUrl = resolveReadOnlyConnectionString(connectionString);
+    if (!dbUrl) {
+      throw new Error(
+        'No connection string provided and neither NEWS_DATABASE_READONLY_URL nor NEWS_DATABASE_URL is set in environment variables',
+      );
+    }
+
+    let search: ReturnType<typeof buildArticleSearchQuery>;
+    try {
+      search = buildArticleSearchQuery(filters);
+    } catch (error) {
+      throw new Error(`Failed to search articles: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    const startedAt = Date.now();
+    const audit = (success: boolean, result: { rowCount?: number; error?: unknown }) => {
+      const failure = result.error === undefined ? undefined : pgErrorDetails(result.error);
+      return recordAuditEntry({
+        event: 'execution',
+        userId: resourceId,
+        threadId,
+        runId,
+        database: databaseFingerprint(dbUrl),
+        question,
+        generatedSql: search.text,
+        sanitizedSql: search.text,
+        tables: referencedTables(search.text),
+        durationMs: Date.now() - startedAt,
+        rowCount: result.rowCount,
+        success,
+        errorCode: failure?.code,
+        errorMessage: failure?.message,
+      });
+    };
+
+    try {
+      const result = await poolRegistry.withClient(dbUrl, client =>
+        withReadOnlyTransaction(client, transaction => transaction.query({ text: search.text, values: search.values })),
+      );
+      const hasMore = result.rows.length > search.limit;
+      const rows = result.rows.slice(0, search.limit);
+      const presented = presentRows(
+        rows,
+        result.fields.map(field => ({ name: field.name, dataTypeID: field.dataTypeID })),
+      );
+      console.log(`📰 Found ${rows.length} articles${hasMore ? ' (more available)' : ''}`);
+      await audit(true, { rowCount: rows.length });
+
+      return {
+        success: true,
+        articles: presented.articles ?? [],
+        count: rows.length,
+        hasMore,
+        nextOffset: hasMore ? search.offset + search.limit : undefined,
+        executedQuery: search.text,
+      };
+    } catch (error) {
+      await audit(false, { error });
+      throw new Error(`Failed to search articles: ${formatPgError(pgErrorDetails(error), search.text)}`);
+    } finally {
+      poolRegistry.reportMetrics(dbUrl, tracingContext);
+    }
+  },
+});
@@ -0,0 +1,130 @@
+import { createTool } from '@mastra/core/tools';
+import { z } from 'zod';
+import { presentRows } from '../lib/article-presenter';
+import { ISO_DATE_PATTERN } from '../lib/article-search';
+import { buildTitleSearchQuery } from '../lib/article-text-search';
+import { recordAuditEntry } from '../lib/audit-log';
+import { poolRegistry } from '../lib/db-pool';
+import { resolveReadOnlyConnectionString, withReadOnlyTransaction } from '../lib/read-only-query';
+import { databaseFingerprint } from '../lib/schema-cache';
+import { referencedTables } from '../lib/sql-guard';
+import { formatPgError, pgErrorDetails } from '../lib/sql-validation';
+
+// 42883 undefined_function: the search functions have not been created in this database
+const MISSING_INDEX_CODES = new Set(['42883']);
+
+export const articleTextSearchTool = createTool({
+  id: 'article-text-search',
+  inputSchema: z.object({
+    connectionString: z
+      .string()
+      .optional()
+      .describe(
+        'PostgreSQL connection string. If not provided, will use NEWS_DATABASE_READONLY_URL, then NEWS_DATABASE_URL from environment variables.',
+      ),
+    query: z
+      .string()
+      .min(1)
+      .max(200)
+      .describe(
+        'Keywords or a topic, with or without diacritics, e.g. "lãi suất" or "lai suat"; "-word" excludes a word',
+      ),
+    symbols: z
+      .array(z.string().min(1).max(20))
+      .max(50)
+      .optional()
+      .describe('Only articles tagged with any of these stock symbols'),
+    from: z.string().regex(ISO_DATE_PATTERN).optional().describe('First day, YYYY-MM-DD in Vietnamese time'),
+    to: z.string().regex(ISO_DATE_PATTERN).optional().describe('Last day (inclusive), YYYY-MM-DD in Vietnamese time'),
+    limit: z
+      .number()
+      .int()
+      .min(1)
+      .optional()
+      .describe('Articles per page (default and maximum: max_rows of the articles table in policy.yaml)'),
+    offset: z.number().int().min(0).optional().describe('Articles to skip, e.g. nextOffset of the previous page'),
+    question: z.string().optional().describe('The natural language question being answered, recorded in the audit log'),
+  }),
+  description:
+    'Searches article titles and slugs by keywords or topic with the full-text and trigram index, ignoring case and Vietnamese diacritics and tolerating typos, and returns article cards ranked by relevance (rank and similarity per card). Never searches article content. Uses NEWS_DATABASE_READONLY_URL or NEWS_DATABASE_URL if connectionString is not provided.',
+  execute: async ({
+    context: { connectionString, question, ...filters },
+    tracingContext,
+    threadId,
+    resourceId,
+    runId,
+  }) => {
+    const dbUrl = resolveReadOnlyConnectionString(connectionString);
+    if (!dbUrl) {
+      throw new Error(
+        'No connection string provided and neither NEWS_DATABASE_READONLY_URL nor NEWS_DATABASE_URL is set in environment variables',
+      );
+    }
+
+    let search: ReturnType<typeof buildTitleSearchQuery>;
+    try {
+      search = buildTitleSearchQuery(filters);
+    } catch (error) {
+      throw new Error(`Failed to search article titles: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    const startedAt = Date.now();
+    const audit = (success: boolean, result: { rowCount?: number; error?: unknown }) => {
+      const failure = result.error === undefined ? undefined : pgErrorDetails(result.error);
+      return recordAuditEntry({
+        event: 'execution',
+        userId: resourceId,
+        threadId,
+        runId,
+        database: databaseFingerprint(dbUrl),
+        question,
+        generatedSql: search.text,
+        sanitizedSql: search.text,
+        tables: referencedTables(search.text),
+        durationMs: Date.now() - startedAt,
+        rowCount: result.rowCount,
+        success,
+        errorCode: failure?.code,
+        errorMessage: failure?.message,
+      });
+    };
+
+    try {
+      const result = await poolRegistry.withClient(dbUrl, client =>
+        withReadOnlyTransaction(client, transaction => transaction.query({ text: search.text, values: search.values })),
+      );
+      const hasMore = result.rows.length > search.limit;
+      const rows = result.rows.slice(0, search.limit);
+      const presented = presentRows(
+        rows,
+        result.fields.map(field => ({ name: field.name, dataTypeID: field.dataTypeID })),
+      );
+      console.log(`🔎 Found ${rows.length} articles matching "${filters.query}"${hasMore ? ' (more available)' : ''}`);
+      await audit(true, { rowCount: rows.length });
+
+      return {
+        success: true,
+        articles: (presented.articles ?? []).map((card, index) => ({
+          ...card,
+          rank: Number(rows[index].rank),
+          similarity: Number(rows[index].similarity),
+        })),
+        count: rows.length,
+        hasMore,
+        nextOffset: hasMore ? search.offset + search.limit : undefined,
+        executedQuery: search.text,
+      };
+    } catch (error) {
+      await audit(false, { error });
+      const details = pgErrorDetails(error);
+      if (details.code && MISSING_INDEX_CODES.has(details.code)) {
+        throw new Error(
+          'Failed to search article titles: the title search index is not installed in this database. Build it with the article-search-index tool',
+        );
+      }
+      throw new Error(`Failed to search article titles: ${formatPgError(details, search.text)}`);
+    } finally {
+      poolRegistry.reportMetrics(dbUrl, tracingContext);
+    }
+  },
+});
@@ -0,0 +1,31 @@
+import { createTool } from '@mastra/core/tools';
+import { z } from 'zod';
+import { auditEvents, searchAuditLog } from '../lib/audit-log';
+
+const isoDate = z.string().refine(value => !Number.isNaN(Date.parse(value)), 'Expected an ISO date or timestamp');
+
+// Entries hold other users' questions, so only operators search them, through `npm run ops -- audit`
+export const auditLogSearchTool = createTool({
+  id: 'audit-log-search',
+  inputSchema: z.object({
+    from: isoDate.optional().describe('Earliest entry, as an ISO date or timestamp'),
+    to: isoDate.optional().describe('Latest entry, as an ISO date (whole day) or timestamp'),
+    userId: z.string().optional().describe('Memory resource id of the user'),
+    threadId: z.string().optional().describe('Memory thread id of the conversation'),
+    table: z.string().optional().describe('Only entries whose query read this table, e.g. articles'),
+    event: z.enum(auditEvents).optional().describe('generation, execution or export'),
+    success: z.boolean().optional().describe('Only successful or only failed entries'),
+    limit: z.number().int().min(1).max(500).optional().describe('Maximum entries to return (default 50)'),
+  }),
+  description:
+    'Searches the append-only audit log of questions, generated SQL and executed queries by date range, user, thread, table, event and outcome. Newest entries first.',
+  execute: async ({ context }) => {
+    try {
+      const entries = await searchAuditLog(context);
+      console.log(`🔎 Found ${entries.length} audit log entries`);
+      return { entries, count: entries.length };
+    } catch (error) {
+      throw new Error(`Failed to search audit log: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  },
+});
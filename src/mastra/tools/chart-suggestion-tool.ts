@@ -0,0 +1,57 @@
+import { createTool } from '@mastra/core/tools';
+import { z } from 'zod';
+import { renderChart } from '../lib/chart-render';
+import { suggestChart } from '../lib/chart-spec';
+
+export const chartSuggestionSchema = z.object({
+  kind: z.enum(['line', 'bar', 'stacked-bar', 'heatmap', 'scatter', 'histogram', 'none']),
+  reason: z.string(),
+  fields: z.array(
+    z.object({
+      name: z.string(),
+      type: z.enum(['temporal', 'quantitative', 'nominal']),
+      distinctValues: z.number(),
+    }),
+  ),
+  spec: z.record(z.any()).optional(),
+  truncated: z.boolean().optional(),
+  image: z
+    .object({
+      format: z.enum(['svg', 'png']),
+      data: z.string(),
+      encoding: z.enum(['utf8', 'base64']),
+    })
+    .optional(),
+});
+
+export const chartSuggestionTool = createTool({
+  id: 'chart-suggestion',
+  inputSchema: z.object({
+    rows: z.array(z.record(z.any())).describe('Result rows, e.g. the data returned by sql-execution'),
+    columns: z
+      .array(z.object({ name: z.string(), dataTypeID: z.number() }))
+      .optional()
+      .describe('Result columns as returned by sql-execution; without them types are inferred from the values'),
+    title: z.string().optional().describe('Chart title'),
+    render: z
+      .enum(['none', 'svg', 'png'])
+      .optional()
+      .default('none')
+      .describe('Also render the chart on the server as SVG or PNG (base64)'),
+  }),
+  description:
+    'Suggests a chart for a query result based on its column types (time series, categories, measures) and returns a Vega-Lite spec, optionally rendered to SVG or PNG.',
+  execute: async ({ context: { rows, columns, title, render } }) => {
+    try {
+      const suggestion = suggestChart(rows, columns, { title });
+      console.log(`📊 Chart suggestion: ${suggestion.kind} (${suggestion.reason})`);
+
+      if (render === 'none' || !suggestion.spec) {
+        return suggestion;
+      }
+      return { ...suggestion, image: await renderChart(suggestion.spec, render) };
+    } catch (error) {
+      throw new Error(`Failed to suggest chart: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  },
+});
@@ -1,17 +1,15 @@
 import { createTool } from '@mastra/core/tools';
 import { z } from 'zod';
-import { Client } from 'pg';
-
-const createDatabaseConnection = (connectionString: string) => {
-  return new Client({
-    connectionString,
-    connectionTimeoutMillis: 30000, // 30 seconds
-    statement_timeout: 60000, // 1 minute
-    query_timeout: 60000, // 1 minute
-  });
-};
+import type { ClientBase } from 'pg';
+import { findTablePolicy, isColumnAllowed } from '../lib/access-policy';
+import { poolRegistry } from '../lib/db-pool';
+import { numberFromEnv } from '../lib/env';
+import { summarizeJsonShape } from '../lib/json-shape';
+import { isSchemaFilterEmpty, matchesSchemaFilter, matchesSchemaPatterns, schemaFilterFromEnv } from '../lib/schema-filter';
+import type { SchemaFilter } from '../lib/schema-filter';
+import { databaseFingerprint, readCachedSchema, readSchemaVersion, writeCachedSchema } from '../lib/schema-cache';
 
-const executeQuery = async (client: Client, query: string) => {
+const executeQuery = async (client: ClientBase, query: string) => {
   try {
     const result = await client.query(query);
     return result.rows;
@@ -20,147 +18,460 @@ const executeQuery = async (client: Client, query: string) => {
   }
 };
 
+const rowCountModes = ['exact', 'estimate', 'none'] as const;
+type RowCountMode = (typeof rowCountModes)[number];
+
+interface TableRowCount {
+  schema_name: string;
+  table_name: string;
+  // null when the table could not be counted at all
+  row_count: number | null;
+  count_kind: 'exact' | 'estimate';
+  error?: string;
+}
+
+const DEFAULT_ROW_COUNT_TIMEOUT_MS = 5000; // 5 seconds per table
+const JSON_SAMPLE_ROWS = 100;
+const JSON_SAMPLE_TIMEOUT_MS = 5000; // 5 seconds per column
+
+const quoteIdent = (name: string) => `"${name.replace(/"/g, '""')}"`;
+
+// Runs `fn` in its own transaction so the timeout only applies to it
+const withStatementTimeout = async <T>(client: ClientBase, timeoutMillis: number, fn: () => Promise<T>) => {
+  await client.query('BEGIN');
+  try {
+    await client.query(`SET LOCAL statement_timeout = ${Math.floor(timeoutMillis)}`);
+    const result = await fn();
+    await client.query('COMMIT');
+    return result;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  }
+};
+
+const rowCountModeFromEnv = (): RowCountMode => {
+  const mode = process.env.INTROSPECTION_ROW_COUNT_MODE as RowCountMode | undefined;
+  return mode && rowCountModes.includes(mode) ? mode : 'estimate';
+};
+
+const rowCountTimeoutFromEnv = () => numberFromEnv('INTROSPECTION_ROW_COUNT_TIMEOUT_MS', DEFAULT_ROW_COUNT_TIMEOUT_MS);
+
+// Planner statistics: reltuples after ANALYZE, the stats collector's live tuples before that
+const estimateRowCounts = async (client: ClientBase): Promise<TableRowCount[]> => {
+  const rows = await executeQuery(
+    client,
+    `
+      SELECT
+        n.nspname as schema_name,
+        c.relname as table_name,
+        CASE WHEN c.reltuples > 0 THEN c.reltuples::bigint ELSE coalesce(s.n_live_tup, 0) END as row_count
+      FROM pg_class c
+      JOIN pg_namespace n ON n.oid = c.relnamespace
+      LEFT JOIN pg_stat_user_tables s ON s.relid = c.oid
+      WHERE c.relkind IN ('r', 'p')
+        AND n.nspname NOT IN ('information_schema', 'pg_catalog')
+        AND n.nspname NOT LIKE 'pg_toast%';
+    `,
+  );
+  return rows.map(row => ({
+    schema_name: row.schema_name,
+    table_name: row.table_name,
+    row_count: Number(row.row_count),
+    count_kind: 'estimate',
+  }));
+};
+
+// COUNT(*) per table, one at a time, each bounded by its own statement timeout. A table that times out
+// falls back to its estimate instead of being reported as empty.
+const countRowsExactly = async (
+  client: ClientBase,
+  tables: { schema_name: string; table_name: string }[],
+  timeoutMillis: number,
+): Promise<TableRowCount[]> => {
+  const estimates = await estimateRowCounts(client);
+  const rowCounts: TableRowCount[] = [];
+
+  for (const table of tables) {
+    try {
+      const result = await withStatementTimeout(client, timeoutMillis, () =>
+        executeQuery(client, `SELECT COUNT(*) as row_count FROM ${quoteIdent(table.schema_name)}.${quoteIdent(table.table_name)};`),
+      );
+      rowCounts.push({
+        schema_name: table.schema_name,
+        table_name: table.table_name,
+        row_count: parseInt(result[0].row_count),
+        count_kind: 'exact',
+      });
+    } catch (error) {
+      const estimate = estimates.find(
+        row => row.schema_name === table.schema_name && row.table_name === table.table_name,
+      );
+      rowCounts.push({
+        schema_name: table.schema_name,
+        table_name: table.table_name,
+        row_count: estimate?.row_count ?? null,
+        count_kind: 'estimate',
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  return rowCounts;
+};
+
+// Samples non-null values of each JSON/JSONB column on tables and materialized views. Columns the
+// access policy forbids are never read.
+const sampleJsonShapes = async (
+  client: ClientBase,
+  columns: { table_schema: string; table_name: string; column_name: string; data_type: string }[],
+  views: { schema_name: string; view_name: string; view_type: string }[],
+) => {
+  const plainViews = new Set(
+    views.filter(view => view.view_type === 'VIEW').map(view => `${view.schema_name}.${view.view_name}`),
+  );
+  const jsonColumns = columns.filter(column => {
+    if (!['json', 'jsonb'].includes(column.data_type) || plainViews.has(`${column.table_schema}.${column.table_name}`)) {
+      return false;
+    }
+    const restriction = findTablePolicy(column.table_name, column.table_schema);
+    return !restriction || isColumnAllowed(restriction, column.column_name);
+  });
+
+  const shapes = [];
+  for (const column of jsonColumns) {
+    try {
+      const rows = await withStatementTimeout(client, JSON_SAMPLE_TIMEOUT_MS, () =>
+        executeQuery(
+          client,
+          `SELECT ${quoteIdent(column.column_name)} as value
+           FROM ${quoteIdent(column.table_schema)}.${quoteIdent(column.table_name)}
+           WHERE ${quoteIdent(column.column_name)} IS NOT NULL
+           LIMIT ${JSON_SAMPLE_ROWS};`,
+        ),
+      );
+      if (rows.length > 0) {
+        shapes.push({
+          table_schema: column.table_schema,
+          table_name: column.table_name,
+          column_name: column.column_name,
+          ...summarizeJsonShape(rows.map(row => row.value)),
+        });
+      }
+    } catch (error) {
+      console.warn(
+        `⚠️ Could not sample ${column.table_schema}.${column.table_name}.${column.column_name}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+  return shapes;
+};
+
+// Full catalog read; the tool only runs it when the cached schema is missing or out of date
+// Include/exclude patterns are applied to every catalog result before the per-table work (JSON sampling,
+// exact row counts), so excluded tables cost nothing beyond the catalog reads.
+const introspectSchema = async (
+  client: ClientBase,
+  rowCountMode: RowCountMode,
+  rowCountTimeoutMillis: number,
+  filter: SchemaFilter,
+) => {
+  const included = (schema: string, table: string) => matchesSchemaFilter(filter, schema, table);
+
+  // Get all tables
+  const tablesQuery = `
+    SELECT
+      schemaname as schema_name,
+      tablename as table_name,
+      tableowner as table_owner,
+      obj_description(format('%I.%I', schemaname, tablename)::regclass, 'pg_class') as table_comment
+    FROM pg_tables
+    WHERE schemaname NOT IN ('information_schema', 'pg_catalog')
+    ORDER BY schemaname, tablename;
+  `;
+
+  const tables = (await executeQuery(client, tablesQuery)).filter(table => included(table.schema_name, table.table_name));
+
+  // Get detailed column information for each table
+  const columnsQuery = `
+    SELECT
+      t.table_schema,
+      t.table_name,
+      c.column_name,
+      c.data_type,
+      c.character_maximum_length,
+      c.numeric_precision,
+      c.numeric_scale,
+      c.is_nullable,
+      c.column_default,
+      CASE WHEN pk.column_name IS NOT NULL THEN true ELSE false END as is_primary_key,
+      c.udt_name,
+      col_description(format('%I.%I', c.table_schema, c.table_name)::regclass, c.ordinal_position::int) as column_comment
+    FROM information_schema.tables t
+    JOIN information_schema.columns c ON t.table_name = c.table_name
+      AND t.table_schema = c.table_schema
+    LEFT JOIN (
+      SELECT
+        ku.table_schema,
+        ku.table_name,
+        ku.column_name
+      FROM information_schema.table_constraints tc
+      JOIN information_schema.key_column_usage ku ON tc.constraint_name = ku.constraint_name
+      WHERE tc.constraint_type = 'PRIMARY KEY'
+    ) pk ON c.table_schema = pk.table_schema
+      AND c.table_name = pk.table_name
+      AND c.column_name = pk.column_name
+    WHERE t.table_schema NOT IN ('information_schema', 'pg_catalog')
+    ORDER BY t.table_schema, t.table_name, c.ordinal_position;
+  `;
+
+  // information_schema does not cover materialized views, so read their columns from pg_attribute
+  const materializedViewColumnsQuery = `
+    SELECT
+      n.nspname as table_schema,
+      c.relname as table_name,
+      a.attname as column_name,
+      format_type(a.atttypid, a.atttypmod) as data_type,
+      NULL::int as character_maximum_length,
+      NULL::int as numeric_precision,
+      NULL::int as numeric_scale,
+      CASE WHEN a.attnotnull THEN 'NO' ELSE 'YES' END as is_nullable,
+      NULL::text as column_default,
+      false as is_primary_key,
+      t.typname as udt_name,
+      col_description(c.oid, a.attnum) as column_comment
+    FROM pg_class c
+    JOIN pg_namespace n ON n.oid = c.relnamespace
+    JOIN pg_attribute a ON a.attrelid = c.oid AND a.attnum > 0 AND NOT a.attisdropped
+    JOIN pg_type t ON t.oid = a.atttypid
+    WHERE c.relkind = 'm'
+      AND n.nspname NOT IN ('information_schema', 'pg_catalog')
+    ORDER BY n.nspname, c.relname, a.attnum;
+  `;
+
+  const columns = [
+    ...(await executeQuery(client, columnsQuery)),
+    ...(await executeQuery(client, materializedViewColumnsQuery)),
+  ].filter(column => included(column.table_schema, column.table_name));
+
+  // Get views and materialized views with their definitions
+  const viewsQuery = `
+    SELECT
+      n.nspname as schema_name,
+      c.relname as view_name,
+      CASE c.relkind WHEN 'm' THEN 'MATERIALIZED VIEW' ELSE 'VIEW' END as view_type,
+      pg_get_viewdef(c.oid, true) as definition,
+      obj_description(c.oid, 'pg_class') as view_comment
+    FROM pg_class c
+    JOIN pg_namespace n ON n.oid = c.relnamespace
+    WHERE c.relkind IN ('v', 'm')
+      AND n.nspname NOT IN ('information_schema', 'pg_catalog')
+    ORDER BY n.nspname, c.relname;
+  `;
+
+  const views = (await executeQuery(client, viewsQuery)).filter(view => included(view.schema_name, view.view_name));
+
+  // Get user-defined enum types with their values in declaration order
+  const enumsQuery = `
+    SELECT
+      n.nspname as schema_name,
+      t.typname as enum_name,
+      array_agg(e.enumlabel::text ORDER BY e.enumsortorder) as enum_values
+    FROM pg_type t
+    JOIN pg_enum e ON e.enumtypid = t.oid
+    JOIN pg_namespace n ON n.oid = t.typnamespace
+    WHERE n.nspname NOT IN ('information_schema', 'pg_catalog')
+    GROUP BY n.nspname, t.typname
+    ORDER BY n.nspname, t.typname;
+  `;
+
+  const enums = (await executeQuery(client, enumsQuery)).filter(enumType =>
+    matchesSchemaPatterns(filter, enumType.schema_name),
+  );
+
+  // Get unique and check constraints
+  const constraintsQuery = `
+    SELECT
+      n.nspname as table_schema,
+      c.relname as table_name,
+      con.conname as constraint_name,
+      CASE con.contype WHEN 'u' THEN 'UNIQUE' ELSE 'CHECK' END as constraint_type,
+      pg_get_constraintdef(con.oid, true) as definition
+    FROM pg_constraint con
+    JOIN pg_class c ON c.oid = con.conrelid
+    JOIN pg_namespace n ON n.oid = c.relnamespace
+    WHERE con.contype IN ('u', 'c')
+      AND n.nspname NOT IN ('information_schema', 'pg_catalog')
+    ORDER BY n.nspname, c.relname, con.conname;
+  `;
+
+  const constraints = (await executeQuery(client, constraintsQuery)).filter(constraint =>
+    included(constraint.table_schema, constraint.table_name),
+  );
+
+  // Get foreign key relationships
+  const relationshipsQuery = `
+    SELECT
+      tc.table_schema,
+      tc.table_name,
+      kcu.column_name,
+      ccu.table_schema AS foreign_table_schema,
+      ccu.table_name AS foreign_table_name,
+      ccu.column_name AS foreign_column_name,
+      tc.constraint_name
+    FROM information_schema.table_constraints AS tc
+    JOIN information_schema.key_column_usage AS kcu
+      ON tc.constraint_name = kcu.constraint_name
+      AND tc.table_schema = kcu.table_schema
+    JOIN information_schema.constraint_column_usage AS ccu
+      ON ccu.constraint_name = tc.constraint_name
+      AND ccu.table_schema = tc.table_schema
+    WHERE tc.constraint_type = 'FOREIGN KEY'
+    ORDER BY tc.table_schema, tc.table_name, kcu.column_name;
+  `;
+
+  // Only keep relationships whose both ends are included
+  const relationships = (await executeQuery(client, relationshipsQuery)).filter(
+    relationship =>
+      included(relationship.table_schema, relationship.table_name) &&
+      included(relationship.foreign_table_schema, relationship.foreign_table_name),
+  );
+
+  // Get indexes
+  const indexesQuery = `
+    SELECT
+      schemaname as schema_name,
+      tablename as table_name,
+      indexname as index_name,
+      indexdef as index_definition
+    FROM pg_indexes
+    WHERE schemaname NOT IN ('information_schema', 'pg_catalog')
+    ORDER BY schemaname, tablename, indexname;
+  `;
+
+  const indexes = (await executeQuery(client, indexesQuery)).filter(index => included(index.schema_name, index.table_name));
+
+  // Get the key/shape structure of JSON columns from a small sample
+  const jsonShapes = await sampleJsonShapes(client, columns, views);
+
+  // Get table row counts
+  let rowCounts: TableRowCount[] = [];
+  if (rowCountMode === 'exact') {
+    rowCounts = await countRowsExactly(client, tables, rowCountTimeoutMillis);
+  } else if (rowCountMode === 'estimate') {
+    rowCounts = (await estimateRowCounts(client)).filter(rowCount => included(rowCount.schema_name, rowCount.table_name));
+  }
+
+  return {
+    tables,
+    columns,
+    relationships,
+    indexes,
+    views,
+    enums,
+    constraints,
+    jsonShapes,
+    rowCounts,
+    rowCountMode,
+    filter,
+    summary: {
+      total_tables: tables.length,
+      total_views: views.length,
+      total_columns: columns.length,
+      total_relationships: relationships.length,
+      total_indexes: indexes.length,
+      total_enums: enums.length,
+      total_constraints: constraints.length,
+    },
+  };
+};
+
+type IntrospectedSchema = Awaited<ReturnType<typeof introspectSchema>>;
+
 export const databaseIntrospectionTool = createTool({
   id: 'database-introspection',
   inputSchema: z.object({
     connectionString: z.string().optional().describe('PostgreSQL connection string. If not provided, will use NEWS_DATABASE_URL from environment variables.'),
+    forceRefresh: z.boolean().optional().describe('Ignore the cached schema and introspect the database again'),
+    rowCountMode: z
+      .enum(rowCountModes)
+      .optional()
+      .describe(
+        'How to count table rows: "exact" runs COUNT(*) per table, "estimate" reads planner statistics, "none" skips counting. Defaults to INTROSPECTION_ROW_COUNT_MODE or "estimate".',
+      ),
+    rowCountTimeoutMs: z
+      .number()
+      .int()
+      .positive()
+      .optional()
+      .describe('Statement timeout for each exact COUNT(*), in milliseconds. Tables that time out fall back to estimates.'),
+    includeSchemas: z.array(z.string()).optional().describe('Only introspect schemas matching these patterns (`*` wildcard)'),
+    excludeSchemas: z.array(z.string()).optional().describe('Skip schemas matching these patterns (`*` wildcard)'),
+    includeTables: z
+      .array(z.string())
+      .optional()
+      .describe('Only introspect tables/views matching these patterns, as `table` or `schema.table` (`*` wildcard)'),
+    excludeTables: z
+      .array(z.string())
+      .optional()
+      .describe('Skip tables/views matching these patterns, as `table` or `schema.table` (`*` wildcard)'),
   }),
-  description: 'Introspects a PostgreSQL database to understand its schema, tables, columns, and relationships. Uses NEWS_DATABASE_URL if connectionString is not provided.',
-  execute: async ({ context: { connectionString } }) => {
+  description:
+    'Introspects a PostgreSQL database to understand its schema: tables, views, materialized views, columns, comments, enums, constraints, relationships and sampled JSONB shapes. Results are cached per database until the schema changes and carry a schemaVersion. Uses NEWS_DATABASE_URL if connectionString is not provided.',
+  execute: async ({
+    context: {
+      connectionString,
+      forceRefresh,
+      rowCountMode = rowCountModeFromEnv(),
+      rowCountTimeoutMs,
+      includeSchemas,
+      excludeSchemas,
+      includeTables,
+      excludeTables,
+    },
+    tracingContext,
+  }) => {
+    // Patterns passed to the tool replace the INTROSPECTION_* defaults as a whole
+    const requestedFilter: SchemaFilter = { includeSchemas, excludeSchemas, includeTables, excludeTables };
+    const filter = isSchemaFilterEmpty(requestedFilter) ? schemaFilterFromEnv() : requestedFilter;
+
     // Use NEWS_DATABASE_URL as fallback if connectionString is not provided
     const dbUrl = connectionString || process.env.NEWS_DATABASE_URL;
     if (!dbUrl) {
       throw new Error('No connection string provided and NEWS_DATABASE_URL is not set in environment variables');
     }
-    const client = createDatabaseConnection(dbUrl);
 
     try {
-      console.log('🔌 Connecting to PostgreSQL for introspection...');
-      await client.connect();
-      console.log('✅ Connected to PostgreSQL for introspection');
-
-      // Get all tables
-      const tablesQuery = `
-        SELECT
-          schemaname as schema_name,
-          tablename as table_name,
-          tableowner as table_owner
-        FROM pg_tables
-        WHERE schemaname NOT IN ('information_schema', 'pg_catalog')
-        ORDER BY schemaname, tablename;
-      `;
-
-      const tables = await executeQuery(client, tablesQuery);
-
-      // Get detailed column information for each table
-      const columnsQuery = `
-        SELECT
-          t.table_schema,
-          t.table_name,
-          c.column_name,
-          c.data_type,
-          c.character_maximum_length,
-          c.numeric_precision,
-          c.numeric_scale,
-          c.is_nullable,
-          c.column_default,
-          CASE WHEN pk.column_name IS NOT NULL THEN true ELSE false END as is_primary_key
-        FROM information_schema.tables t
-        JOIN information_schema.columns c ON t.table_name = c.table_name
-          AND t.table_schema = c.table_schema
-        LEFT JOIN (
-          SELECT
-            ku.table_schema,
-            ku.table_name,
-            ku.column_name
-          FROM information_schema.table_constraints tc
-          JOIN information_schema.key_column_usage ku ON tc.constraint_name = ku.constraint_name
-          WHERE tc.constraint_type = 'PRIMARY KEY'
-        ) pk ON c.table_schema = pk.table_schema
-          AND c.table_name = pk.table_name
-          AND c.column_name = pk.column_name
-        WHERE t.table_schema NOT IN ('information_schema', 'pg_catalog')
-        ORDER BY t.table_schema, t.table_name, c.ordinal_position;
-      `;
-
-      const columns = await executeQuery(client, columnsQuery);
-
-      // Get foreign key relationships
-      const relationshipsQuery = `
-        SELECT
-          tc.table_schema,
-          tc.table_name,
-          kcu.column_name,
-          ccu.table_schema AS foreign_table_schema,
-          ccu.table_name AS foreign_table_name,
-          ccu.column_name AS foreign_column_name,
-          tc.constraint_name
-        FROM information_schema.table_constraints AS tc
-        JOIN information_schema.key_column_usage AS kcu
-          ON tc.constraint_name = kcu.constraint_name
-          AND tc.table_schema = kcu.table_schema
-        JOIN information_schema.constraint_column_usage AS ccu
-          ON ccu.constraint_name = tc.constraint_name
-          AND ccu.table_schema = tc.table_schema
-        WHERE tc.constraint_type = 'FOREIGN KEY'
-        ORDER BY tc.table_schema, tc.table_name, kcu.column_name;
-      `;
-
-      const relationships = await executeQuery(client, relationshipsQuery);
-
-      // Get indexes
-      const indexesQuery = `
-        SELECT
-          schemaname as schema_name,
-          tablename as table_name,
-          indexname as index_name,
-          indexdef as index_definition
-        FROM pg_indexes
-        WHERE schemaname NOT IN ('information_schema', 'pg_catalog')
-        ORDER BY schemaname, tablename, indexname;
-      `;
-
-      const indexes = await executeQuery(client, indexesQuery);
-
-      // Get table row counts (sample)
-      const rowCountsPromises = tables.map(async table => {
-        try {
-          const countQuery = `SELECT COUNT(*) as row_count FROM "${table.schema_name}"."${table.table_name}";`;
-          const result = await executeQuery(client, countQuery);
-          return {
-            schema_name: table.schema_name,
-            table_name: table.table_name,
-            row_count: parseInt(result[0].row_count),
-          };
-        } catch (error) {
-          return {
-            schema_name: table.schema_name,
-            table_name: table.table_name,
-            row_count: 0,
-            error: error instanceof Error ? error.message : String(error),
-          };
+      return await poolRegistry.withClient(dbUrl, async client => {
+        console.log('🔌 Borrowed a pooled PostgreSQL connection for introspection');
+
+        // The schema version is a hash of the catalogs, so a cached schema is reused until DDL changes it
+        // (or a different row count mode or filter is requested)
+        const fingerprint = databaseFingerprint(dbUrl);
+        const schemaVersion = await readSchemaVersion(client);
+        const cached = forceRefresh ? null : await readCachedSchema<IntrospectedSchema>(fingerprint);
+        const sameOptions =
+          cached?.schema.rowCountMode === rowCountMode && JSON.stringify(cached.schema.filter) === JSON.stringify(filter);
+        if (cached && cached.schemaVersion === schemaVersion && sameOptions) {
+          console.log(`♻️ Using cached schema ${schemaVersion} (cached at ${cached.cachedAt})`);
+          return { ...cached.schema, fingerprint, schemaVersion, cached: true };
         }
-      });
 
-      const rowCounts = await Promise.all(rowCountsPromises);
-
-      return {
-        tables,
-        columns,
-        relationships,
-        indexes,
-        rowCounts,
-        summary: {
-          total_tables: tables.length,
-          total_columns: columns.length,
-          total_relationships: relationships.length,
-          total_indexes: indexes.length,
-        },
-      };
+        const schema = await introspectSchema(
+          client,
+          rowCountMode,
+          rowCountTimeoutMs ?? rowCountTimeoutFromEnv(),
+          filter,
+        );
+        await writeCachedSchema({ fingerprint, schemaVersion, schema, cachedAt: new Date().toISOString() });
+        console.log(`✅ Introspected schema ${schemaVersion}`);
+
+        return { ...schema, fingerprint, schemaVersion, cached: false };
+      });
     } catch (error) {
       throw new Error(`Failed to introspect database: ${error instanceof Error ? error.message : String(error)}`);
     } finally {
-      await client.end();
+      poolRegistry.reportMetrics(dbUrl, tracingContext);
     }
   },
 });
@@ -1,7 +1,27 @@
 import { createTool } from '@mastra/core/tools';
 import { z } from 'zod';
-import { Client } from 'pg';
-import { randomInt } from 'crypto';
+import type { ClientBase } from 'pg';
+import { insertRows } from '../lib/bulk-insert';
+import { poolRegistry } from '../lib/db-pool';
+import {
+  DEFAULT_NEWS_ARTICLES,
+  DEFAULT_NEWS_DATE_SPREAD_DAYS,
+  NEWS_TABLES,
+  createNewsTables,
+  newsSchemaNote,
+  seedNewsData,
+} from '../lib/news-seed';
+import type { NewsSeedOptions } from '../lib/news-seed';
+import {
+  DEFAULT_SEED_SCHEMA,
+  SEED_SCHEMA_PATTERN,
+  describeSeedPlan,
+  lockAndPlanSeeding,
+  planSeeding,
+  useSeedSchema,
+} from '../lib/seed-safety';
+import type { SeedPlan } from '../lib/seed-safety';
+import { SeededRandom, MAX_SEED, randomSeed } from '../lib/seeded-random';
 
 // Type definitions for the dataset
 interface Company {
@@ -262,8 +282,58 @@ const SKILLS = [
   { id: 20, name: 'Redis', category: 'Database', difficulty: 'Intermediate' },
 ];
 
+export interface SeedScale {
+  // Companies beyond the built-in five repeat a built-in profile (locations, departments) under a numbered name
+  companies: number;
+  // Employees per department; by default 80% of the department's head count
+  employeesPerDepartment?: number;
+  // Projects per company; by default 5-12 at random
+  projectsPerCompany?: number;
+}
+
+export const DEFAULT_SEED_SCALE: SeedScale = { companies: COMPANIES.length };
+
+// business: the HR dataset below; news: an articles table like the one sqlAgent reads (see lib/news-seed.ts)
+export const seedProfiles = ['business', 'news'] as const;
+export type SeedProfile = (typeof seedProfiles)[number];
+
+interface CompanyPlan {
+  companies: Company[];
+  locations: Location[];
+  departments: Department[];
+}
+
+// Companies with their locations and departments, ids numbered from 1 so the built-in five keep their ids
+function planCompanies(count: number): CompanyPlan {
+  const plan: CompanyPlan = { companies: [], locations: [], departments: [] };
+
+  for (let index = 0; index < count; index++) {
+    const template = COMPANIES[index % COMPANIES.length];
+    const copy = Math.floor(index / COMPANIES.length);
+    const companyId = index + 1;
+
+    plan.companies.push({
+      ...template,
+      id: companyId,
+      name: copy === 0 ? template.name : `${template.name} ${copy + 1}`,
+    });
+    LOCATIONS.filter(l => l.company_id === template.id).forEach(location =>
+      plan.locations.push({ ...location, id: plan.locations.length + 1, company_id: companyId }),
+    );
+    DEPARTMENTS.filter(d => d.company_id === template.id).forEach(dept =>
+      plan.departments.push({ ...dept, id: plan.departments.length + 1, company_id: companyId }),
+    );
+  }
+
+  return plan;
+}
+
+// Dates are built in UTC so the same seed gives the same dates in every time zone
+const isoDate = (year: number, month: number, day: number) =>
+  new Date(Date.UTC(year, month, day)).toISOString().split('T')[0];
+
 // Generate employees with realistic data
-function generateEmployees(): Employee[] {
+function generateEmployees(random: SeededRandom, plan: CompanyPlan, employeesPerDepartment?: number): Employee[] {
   const employees: Employee[] = [];
   const firstNames = [
     'John',
@@ -330,44 +400,47 @@ function generateEmployees(): Employee[] {
     'Robinson',
   ];
 
+  // Department multipliers
+  const deptMultipliers: { [key: string]: number } = {
+    Engineering: 1.2,
+    'Investment Banking': 1.8,
+    'Product Management': 1.3,
+    Sales: 1.1,
+    'Clinical Research': 1.4,
+    'Risk Management': 1.3,
+    'Research & Development': 1.3,
+  };
+
+  const companiesById = new Map(plan.companies.map(company => [company.id, company]));
+  const firstLocations = new Map<number, Location>();
+  plan.locations.forEach(location => {
+    if (!firstLocations.has(location.company_id)) {
+      firstLocations.set(location.company_id, location);
+    }
+  });
+
   let employeeId = 1;
 
   // Generate employees for each department
-  DEPARTMENTS.forEach(dept => {
-    const employeeCount = Math.floor(dept.head_count * 0.8); // 80% of head count
+  plan.departments.forEach(dept => {
+    const employeeCount = employeesPerDepartment ?? Math.floor(dept.head_count * 0.8); // 80% of head count
+    const companyName = companiesById.get(dept.company_id)?.name.toLowerCase().replace(/\s+/g, '') || 'company';
+
+    // Get appropriate job title for department
+    const deptJobTitles = JOB_TITLES.filter(
+      jt =>
+        jt.department_type === dept.name ||
+        (dept.name === 'Software Development' && jt.department_type === 'Engineering'),
+    );
+
+    const location = firstLocations.get(dept.company_id) || LOCATIONS[0];
 
     for (let i = 0; i < employeeCount; i++) {
-      const firstName = firstNames[Math.floor(Math.random() * firstNames.length)];
-      const lastName = lastNames[Math.floor(Math.random() * lastNames.length)];
-      const companyName =
-        COMPANIES.find(c => c.id === dept.company_id)
-          ?.name.toLowerCase()
-          .replace(/\s+/g, '') || 'company';
+      const firstName = random.pick(firstNames);
+      const lastName = random.pick(lastNames);
       const email = `${firstName.toLowerCase()}.${lastName.toLowerCase()}.${employeeId}@${companyName}.com`;
 
-      // Get appropriate job title for department
-      const deptJobTitles = JOB_TITLES.filter(
-        jt =>
-          jt.department_type === dept.name ||
-          (dept.name === 'Engineering' && jt.department_type === 'Engineering') ||
-          (dept.name === 'Product Management' && jt.department_type === 'Product Management') ||
-          (dept.name === 'Sales' && jt.department_type === 'Sales') ||
-          (dept.name === 'Marketing' && jt.department_type === 'Marketing') ||
-          (dept.name === 'Human Resources' && jt.department_type === 'Human Resources') ||
-          (dept.name === 'Investment Banking' && jt.department_type === 'Investment Banking') ||
-          (dept.name === 'Risk Management' && jt.department_type === 'Risk Management') ||
-          (dept.name === 'Research & Development' && jt.department_type === 'Research & Development') ||
-          (dept.name === 'Clinical Research' && jt.department_type === 'Clinical Research') ||
-          (dept.name === 'Software Development' && jt.department_type === 'Engineering') ||
-          (dept.name === 'Content Creation' && jt.department_type === 'Content Creation'),
-      );
-
-      const jobTitle =
-        deptJobTitles.length > 0
-          ? deptJobTitles[Math.floor(Math.random() * deptJobTitles.length)]
-          : JOB_TITLES[Math.floor(Math.random() * JOB_TITLES.length)];
-
-      const location = LOCATIONS.find(l => l.company_id === dept.company_id) || LOCATIONS[0];
+      const jobTitle = deptJobTitles.length > 0 ? random.pick(deptJobTitles) : random.pick(JOB_TITLES);
 
       // Generate salary based on level and department
       let baseSalary = 50000;
@@ -375,18 +448,7 @@ function generateEmployees(): Employee[] {
       else if (jobTitle.level === 'Staff') baseSalary = 120000;
       else if (jobTitle.level === 'Management') baseSalary = 130000;
 
-      // Department multipliers
-      const deptMultipliers: { [key: string]: number } = {
-        Engineering: 1.2,
-        'Investment Banking': 1.8,
-        'Product Management': 1.3,
-        Sales: 1.1,
-        'Clinical Research': 1.4,
-        'Risk Management': 1.3,
-        'Research & Development': 1.3,
-      };
-
-      const salary = Math.floor(baseSalary * (deptMultipliers[dept.name] || 1.0) * (0.9 + Math.random() * 0.2));
+      const salary = Math.floor(baseSalary * (deptMultipliers[dept.name] || 1.0) * (0.9 + random.next() * 0.2));
 
       employees.push({
         id: employeeId++,
@@ -397,24 +459,12 @@ function generateEmployees(): Employee[] {
         first_name: firstName,
         last_name: lastName,
         email: email,
-        phone: `+1-${Math.floor(Math.random() * 900) + 100}-${Math.floor(Math.random() * 900) + 100}-${Math.floor(Math.random() * 9000) + 1000}`,
-        hire_date: new Date(
-          2018 + Math.floor(Math.random() * 6),
-          Math.floor(Math.random() * 12),
-          Math.floor(Math.random() * 28) + 1,
-        )
-          .toISOString()
-          .split('T')[0],
+        phone: `+1-${random.int(100, 1000)}-${random.int(100, 1000)}-${random.int(1000, 10000)}`,
+        hire_date: isoDate(random.int(2018, 2024), random.int(0, 12), random.int(1, 29)),
         salary: salary,
         manager_id: null, // Will be set later
-        status: Math.random() > 0.05 ? 'Active' : 'Inactive',
-        birth_date: new Date(
-          1985 + Math.floor(Math.random() * 15),
-          Math.floor(Math.random() * 12),
-          Math.floor(Math.random() * 28) + 1,
-        )
-          .toISOString()
-          .split('T')[0],
+        status: random.next() > 0.05 ? 'Active' : 'Inactive',
+        birth_date: isoDate(random.int(1985, 2000), random.int(0, 12), random.int(1, 29)),
       });
     }
   });
@@ -426,7 +476,7 @@ function generateEmployees(): Employee[] {
 }
 
 // Generate projects
-function generateProjects(): Project[] {
+function generateProjects(random: SeededRandom, companies: Company[], projectsPerCompany?: number): Project[] {
   const projects: Project[] = [];
   const projectNames = [
     'Customer Portal Redesign',
@@ -455,28 +505,24 @@ function generateProjects(): Project[] {
 
   let projectId = 1;
 
-  COMPANIES.forEach(company => {
-    const projectCount = Math.floor(Math.random() * 8) + 5; // 5-12 projects per company
+  companies.forEach(company => {
+    const projectCount = projectsPerCompany ?? random.int(5, 13); // 5-12 projects per company
 
     for (let i = 0; i < projectCount; i++) {
-      const startDate = new Date(
-        2022 + Math.floor(Math.random() * 3),
-        Math.floor(Math.random() * 12),
-        Math.floor(Math.random() * 28) + 1,
-      );
-      const endDate = new Date(startDate.getTime() + Math.random() * 365 * 24 * 60 * 60 * 1000 * 2); // Up to 2 years later
+      const startDate = new Date(Date.UTC(random.int(2022, 2025), random.int(0, 12), random.int(1, 29)));
+      const endDate = new Date(startDate.getTime() + random.next() * 365 * 24 * 60 * 60 * 1000 * 2); // Up to 2 years later
 
       projects.push({
         id: projectId++,
         company_id: company.id,
-        name: projectNames[Math.floor(Math.random() * projectNames.length)],
+        name: random.pick(projectNames),
         description: `Strategic project for ${company.name} focusing on business improvement and innovation`,
         start_date: startDate.toISOString().split('T')[0],
         end_date: endDate.toISOString().split('T')[0],
-        budget: Math.floor(Math.random() * 2000000) + 100000, // $100K - $2M
-        status: statuses[Math.floor(Math.random() * statuses.length)],
-        priority: Math.random() > 0.5 ? 'High' : Math.random() > 0.5 ? 'Medium' : 'Low',
-        progress: Math.floor(Math.random() * 100),
+        budget: random.int(100000, 2100000), // $100K - $2M
+        status: random.pick(statuses),
+        priority: random.next() > 0.5 ? 'High' : random.next() > 0.5 ? 'Medium' : 'Low',
+        progress: random.int(0, 100),
       });
     }
   });
@@ -484,7 +530,86 @@ function generateProjects(): Project[] {
   return projects;
 }
 
-async function createTables(client: Client): Promise<void> {
+// Generate employee skills, one row at a time so large seeds never hold them all in memory
+function* generateEmployeeSkills(random: SeededRandom, employees: Employee[]) {
+  const proficiencyLevels = ['Beginner', 'Intermediate', 'Advanced', 'Expert'];
+
+  for (const employee of employees) {
+    const skillCount = random.int(2, 7); // 2-6 skills per employee
+    for (const skill of random.sample(SKILLS, skillCount)) {
+      yield {
+        employee_id: employee.id,
+        skill_id: skill.id,
+        proficiency_level: random.pick(proficiencyLevels),
+        years_experience: random.int(1, 9),
+        certified: random.next() > 0.7,
+      };
+    }
+  }
+}
+
+// Generate project assignments from the employees of each project's company
+function* generateProjectAssignments(random: SeededRandom, projects: Project[], employees: Employee[]) {
+  const roles = [
+    'Lead Developer',
+    'Developer',
+    'Designer',
+    'Project Manager',
+    'QA Engineer',
+    'Business Analyst',
+    'DevOps Engineer',
+  ];
+
+  const employeesByCompany = new Map<number, Employee[]>();
+  employees.forEach(employee => {
+    const companyEmployees = employeesByCompany.get(employee.company_id);
+    if (companyEmployees) {
+      companyEmployees.push(employee);
+    } else {
+      employeesByCompany.set(employee.company_id, [employee]);
+    }
+  });
+
+  for (const project of projects) {
+    const teamSize = random.int(3, 11); // 3-10 people per project
+    for (const employee of random.sample(employeesByCompany.get(project.company_id) ?? [], teamSize)) {
+      yield {
+        project_id: project.id,
+        employee_id: employee.id,
+        role: random.pick(roles),
+        allocation_percentage: random.int(25, 75),
+        start_date: project.start_date,
+        end_date: project.end_date,
+      };
+    }
+  }
+}
+
+// Generate salary history
+function* generateSalaryHistory(random: SeededRandom, employees: Employee[]) {
+  const reasons = ['Annual Review', 'Promotion', 'Market Adjustment', 'Performance Bonus', 'Cost of Living Adjustment'];
+
+  for (const employee of employees) {
+    const historyCount = random.int(1, 4); // 1-3 salary changes
+    let currentSalary = Math.floor(employee.salary * 0.8); // Start with 80% of current
+
+    for (let i = 0; i < historyCount; i++) {
+      const effectiveDate = new Date(employee.hire_date);
+      effectiveDate.setUTCFullYear(effectiveDate.getUTCFullYear() + i);
+
+      yield {
+        employee_id: employee.id,
+        salary: currentSalary,
+        effective_date: effectiveDate.toISOString().split('T')[0],
+        reason: random.pick(reasons),
+      };
+
+      currentSalary = Math.floor(currentSalary * (1.05 + random.int(0, 1001) / 10000)); // 5-15% increase
+    }
+  }
+}
+
+async function createTables(client: ClientBase): Promise<void> {
   // Drop existing tables in reverse order to handle foreign key constraints
   const dropQueries = [
     'DROP TABLE IF EXISTS salary_history CASCADE',
@@ -621,351 +746,176 @@ async function createTables(client: Client): Promise<void> {
   console.log('All tables created successfully');
 }
 
-async function seedData(client: Client): Promise<number> {
-  let totalRecords = 0;
+const MANAGER_UPDATE_BATCH_SIZE = 10000;
 
-  try {
-    // Tables are already dropped and recreated, so we can start inserting data
-    await client.query('BEGIN');
-
-    // Insert companies
-    await Promise.all(
-      COMPANIES.map(company =>
-        client.query(
-          `
-			INSERT INTO companies (id, name, industry, founded, employees_count, revenue, headquarters)
-			VALUES ($1, $2, $3, $4, $5, $6, $7)
-		`,
-          [
-            company.id,
-            company.name,
-            company.industry,
-            company.founded,
-            company.employees_count,
-            company.revenue,
-            company.headquarters,
-          ],
-        ),
-      ),
-    );
+const SEEDED_TABLES = [
+  'companies',
+  'locations',
+  'departments',
+  'job_titles',
+  'employees',
+  'skills',
+  'employee_skills',
+  'projects',
+  'project_assignments',
+  'salary_history',
+] as const;
 
-    totalRecords += COMPANIES.length;
-
-    // Insert locations
-    await Promise.all(
-      LOCATIONS.map(location =>
-        client.query(
-          `
-			INSERT INTO locations (id, company_id, name, address, city, state, country, office_type)
-			VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
-		`,
-          [
-            location.id,
-            location.company_id,
-            location.name,
-            location.address,
-            location.city,
-            location.state,
-            location.country,
-            location.office_type,
-          ],
-        ),
-      ),
-    );
+type SeedCounts = Record<(typeof SEEDED_TABLES)[number], number>;
 
-    totalRecords += LOCATIONS.length;
-
-    // Insert departments
-    await Promise.all(
-      DEPARTMENTS.map(dept =>
-        client.query(
-          `
-			INSERT INTO departments (id, company_id, name, budget, head_count)
-			VALUES ($1, $2, $3, $4, $5)
-		`,
-          [dept.id, dept.company_id, dept.name, dept.budget, dept.head_count],
-        ),
-      ),
-    );
+async function seedData(client: ClientBase, random: SeededRandom, scale: SeedScale): Promise<SeedCounts> {
+  const counts = Object.fromEntries(SEEDED_TABLES.map(table => [table, 0])) as SeedCounts;
+  const plan = planCompanies(scale.companies);
 
-    totalRecords += DEPARTMENTS.length;
-
-    // Insert job titles
-    await Promise.all(
-      JOB_TITLES.map(jobTitle =>
-        client.query(
-          `
-			INSERT INTO job_titles (id, title, level, department_type)
-			VALUES ($1, $2, $3, $4)
-		`,
-          [jobTitle.id, jobTitle.title, jobTitle.level, jobTitle.department_type],
-        ),
-      ),
+  try {
+    // Runs inside the seeding transaction, right after the tables were recreated
+    counts.companies = await insertRows(
+      client,
+      'companies',
+      ['id', 'name', 'industry', 'founded', 'employees_count', 'revenue', 'headquarters'],
+      plan.companies,
     );
-
-    totalRecords += JOB_TITLES.length;
-
-    // Insert skills
-    await Promise.all(
-      SKILLS.map(skill =>
-        client.query(
-          `
-			INSERT INTO skills (id, name, category, difficulty)
-			VALUES ($1, $2, $3, $4)
-		`,
-          [skill.id, skill.name, skill.category, skill.difficulty],
-        ),
-      ),
+    counts.locations = await insertRows(
+      client,
+      'locations',
+      ['id', 'company_id', 'name', 'address', 'city', 'state', 'country', 'office_type'],
+      plan.locations,
     );
+    counts.departments = await insertRows(
+      client,
+      'departments',
+      ['id', 'company_id', 'name', 'budget', 'head_count'],
+      plan.departments,
+    );
+    counts.job_titles = await insertRows(client, 'job_titles', ['id', 'title', 'level', 'department_type'], JOB_TITLES);
+    counts.skills = await insertRows(client, 'skills', ['id', 'name', 'category', 'difficulty'], SKILLS);
 
-    totalRecords += SKILLS.length;
-
-    await client.query('COMMIT');
     console.log('✅ Core data inserted');
 
     // Generate and insert employees in batches
-    const employees = generateEmployees();
+    const employees = generateEmployees(random, plan, scale.employeesPerDepartment);
     console.log(`📊 Generated ${employees.length} employees`);
 
-    await client.query('BEGIN');
-    const batchSize = 50;
-    for (let i = 0; i < employees.length; i += batchSize) {
-      const batch = employees.slice(i, i + batchSize);
-      await Promise.all(
-        batch.map(employee =>
-          client.query(
-            `
-				INSERT INTO employees (id, company_id, department_id, location_id, job_title_id, first_name, last_name, email, phone, hire_date, salary, manager_id, status, birth_date)
-				VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14)
-			`,
-            [
-              employee.id,
-              employee.company_id,
-              employee.department_id,
-              employee.location_id,
-              employee.job_title_id,
-              employee.first_name,
-              employee.last_name,
-              employee.email,
-              employee.phone,
-              employee.hire_date,
-              employee.salary,
-              employee.manager_id,
-              employee.status,
-              employee.birth_date,
-            ],
-          ),
-        ),
-      );
-
-      console.log(
-        `✅ Inserted employees batch ${Math.floor(i / batchSize) + 1}/${Math.ceil(employees.length / batchSize)}`,
-      );
-    }
-    totalRecords += employees.length;
-    await client.query('COMMIT');
+    counts.employees = await insertRows(
+      client,
+      'employees',
+      [
+        'id',
+        'company_id',
+        'department_id',
+        'location_id',
+        'job_title_id',
+        'first_name',
+        'last_name',
+        'email',
+        'phone',
+        'hire_date',
+        'salary',
+        'manager_id',
+        'status',
+        'birth_date',
+      ],
+      employees,
+    );
     console.log('✅ All employees inserted');
 
     // Now set up manager relationships
     console.log('📊 Setting up manager relationships...');
-    await client.query('BEGIN');
-    let managerUpdates = 0;
+    const managementTitles = new Set(JOB_TITLES.filter(jt => jt.level === 'Management').map(jt => jt.id));
+    const managersByDepartment = new Map<number, Employee[]>();
+    employees
+      .filter(e => managementTitles.has(e.job_title_id))
+      .forEach(manager => {
+        const departmentManagers = managersByDepartment.get(manager.department_id);
+        if (departmentManagers) {
+          departmentManagers.push(manager);
+        } else {
+          managersByDepartment.set(manager.department_id, [manager]);
+        }
+      });
 
+    const managed: Employee[] = [];
     for (const employee of employees) {
-      if (Math.random() > 0.85) {
+      if (random.next() > 0.85) {
         // 15% chance of having a manager
-        const potentialManagers = employees.filter(
-          e =>
-            e.department_id === employee.department_id &&
-            e.id !== employee.id &&
-            JOB_TITLES.find(jt => jt.id === e.job_title_id)?.level === 'Management',
+        const potentialManagers = (managersByDepartment.get(employee.department_id) ?? []).filter(
+          e => e.id !== employee.id,
         );
         if (potentialManagers.length > 0) {
-          const managerId = potentialManagers[Math.floor(Math.random() * potentialManagers.length)].id;
-          await client.query(
-            `
-            UPDATE employees SET manager_id = $1 WHERE id = $2
-          `,
-            [managerId, employee.id],
-          );
-          managerUpdates++;
+          employee.manager_id = random.pick(potentialManagers).id;
+          managed.push(employee);
         }
       }
     }
 
-    await client.query('COMMIT');
-    console.log(`✅ Manager relationships set up (${managerUpdates} assignments)`);
-
-    // Generate employee skills in batches
-    console.log('📊 Generating employee skills...');
-    await client.query('BEGIN');
-    let skillRecords = 0;
-    let processedEmployees = 0;
-
-    for (const employee of employees) {
-      const skillCount = Math.floor(Math.random() * 5) + 2; // 2-6 skills per employee
-      const employeeSkills = SKILLS.sort(() => 0.5 - Math.random()).slice(0, skillCount);
-
-      const proficiencyLevels = ['Beginner', 'Intermediate', 'Advanced', 'Expert'];
-      await Promise.all(
-        employeeSkills.map(skill =>
-          client.query(
-            `
-				INSERT INTO employee_skills (employee_id, skill_id, proficiency_level, years_experience, certified)
-				VALUES ($1, $2, $3, $4, $5)
-			`,
-            [
-              employee.id,
-              skill.id,
-              proficiencyLevels[Math.floor(Math.random() * proficiencyLevels.length)],
-              Math.floor(Math.random() * 8) + 1,
-              Math.random() > 0.7,
-            ],
-          ),
-        ),
+    for (let i = 0; i < managed.length; i += MANAGER_UPDATE_BATCH_SIZE) {
+      const batch = managed.slice(i, i + MANAGER_UPDATE_BATCH_SIZE);
+      await client.query(
+        `
+        UPDATE employees AS e SET manager_id = m.manager_id
+        FROM unnest($1::int[], $2::int[]) AS m(id, manager_id)
+        WHERE e.id = m.id
+      `,
+        [batch.map(e => e.id), batch.map(e => e.manager_id)],
       );
-
-      skillRecords += employeeSkills.length;
-      processedEmployees++;
-      if (processedEmployees % 100 === 0) {
-        console.log(`✅ Processed skills for ${processedEmployees}/${employees.length} employees`);
-      }
     }
-    totalRecords += skillRecords;
-    await client.query('COMMIT');
+    console.log(`✅ Manager relationships set up (${managed.length} assignments)`);
+
+    // Generate employee skills
+    console.log('📊 Generating employee skills...');
+    counts.employee_skills = await insertRows(
+      client,
+      'employee_skills',
+      ['employee_id', 'skill_id', 'proficiency_level', 'years_experience', 'certified'],
+      generateEmployeeSkills(random, employees),
+    );
     console.log('✅ Employee skills inserted');
 
     // Generate and insert projects
-    const projects = generateProjects();
+    const projects = generateProjects(random, plan.companies, scale.projectsPerCompany);
     console.log(`📊 Generated ${projects.length} projects`);
 
-    await client.query('BEGIN');
-    await Promise.all(
-      projects.map(project =>
-        client.query(
-          `
-			INSERT INTO projects (id, company_id, name, description, start_date, end_date, budget, status, priority, progress)
-			VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
-		`,
-          [
-            project.id,
-            project.company_id,
-            project.name,
-            project.description,
-            project.start_date,
-            project.end_date,
-            project.budget,
-            project.status,
-            project.priority,
-            project.progress,
-          ],
-        ),
-      ),
+    counts.projects = await insertRows(
+      client,
+      'projects',
+      ['id', 'company_id', 'name', 'description', 'start_date', 'end_date', 'budget', 'status', 'priority', 'progress'],
+      projects,
     );
-
-    totalRecords += projects.length;
-    await client.query('COMMIT');
     console.log('✅ Projects inserted');
 
     // Generate project assignments
     console.log('📊 Generating project assignments...');
-    await client.query('BEGIN');
-    let assignmentRecords = 0;
-
-    for (const project of projects) {
-      const companyEmployees = employees.filter(e => e.company_id === project.company_id);
-      const teamSize = Math.floor(Math.random() * 8) + 3; // 3-10 people per project
-      const projectTeam = companyEmployees
-        .sort(() => 0.5 - Math.random())
-        .slice(0, Math.min(teamSize, companyEmployees.length));
-
-      const roles = [
-        'Lead Developer',
-        'Developer',
-        'Designer',
-        'Project Manager',
-        'QA Engineer',
-        'Business Analyst',
-        'DevOps Engineer',
-      ];
-
-      await Promise.all(
-        projectTeam.map(employee =>
-          client.query(
-            `
-			INSERT INTO project_assignments (project_id, employee_id, role, allocation_percentage, start_date, end_date)
-			VALUES ($1, $2, $3, $4, $5, $6)
-		`,
-            [
-              project.id,
-              employee.id,
-              roles[Math.floor(Math.random() * roles.length)],
-              Math.floor(Math.random() * 50) + 25,
-              project.start_date,
-              project.end_date,
-            ],
-          ),
-        ),
-      );
-
-      assignmentRecords += projectTeam.length;
-    }
-    totalRecords += assignmentRecords;
-    await client.query('COMMIT');
+    counts.project_assignments = await insertRows(
+      client,
+      'project_assignments',
+      ['project_id', 'employee_id', 'role', 'allocation_percentage', 'start_date', 'end_date'],
+      generateProjectAssignments(random, projects, employees),
+    );
     console.log('✅ Project assignments inserted');
 
     // Generate salary history
     console.log('📊 Generating salary history...');
-    await client.query('BEGIN');
-    let historyRecords = 0;
-
-    for (const employee of employees) {
-      const historyCount = Math.floor(Math.random() * 3) + 1; // 1-3 salary changes
-      let currentSalary = Math.floor(employee.salary * 0.8); // Start with 80% of current
-
-      for (let i = 0; i < historyCount; i++) {
-        const effectiveDate = new Date(employee.hire_date);
-        effectiveDate.setFullYear(effectiveDate.getFullYear() + i);
-
-        const reasons = [
-          'Annual Review',
-          'Promotion',
-          'Market Adjustment',
-          'Performance Bonus',
-          'Cost of Living Adjustment',
-        ];
-
-        await client.query(
-          `
-          INSERT INTO salary_history (employee_id, salary, effective_date, reason)
-          VALUES ($1, $2, $3, $4)
-        `,
-          [
-            employee.id,
-            currentSalary,
-            effectiveDate.toISOString().split('T')[0],
-            reasons[randomInt(0, reasons.length)],
-          ],
-        );
-
-        currentSalary = Math.floor(currentSalary * (1.05 + randomInt(0, 1001) / 10000)); // 5-15% increase
-        historyRecords++;
-      }
-    }
-    totalRecords += historyRecords;
-    await client.query('COMMIT');
+    counts.salary_history = await insertRows(
+      client,
+      'salary_history',
+      ['employee_id', 'salary', 'effective_date', 'reason'],
+      generateSalaryHistory(random, employees),
+    );
     console.log('✅ Salary history inserted');
 
+    const totalRecords = Object.values(counts).reduce((sum, count) => sum + count, 0);
     console.log(`🎉 Database seeded successfully with ${totalRecords} total records`);
 
-    return totalRecords;
+    return counts;
   } catch (error: any) {
     console.error('❌ Error during seeding:', error);
 
     // Specific handling for constraint violations
     if (error.code === '23505') {
       console.error('❌ Unique constraint violation:', error.detail);
-      console.error('💡 This usually means data already exists. The tool now auto-drops tables to prevent this.');
+      console.error(
+        '💡 This usually means data already exists. The tables are recreated before seeding to prevent this.',
+      );
     } else if (error.code === '23503') {
       console.error('❌ Foreign key constraint violation:', error.detail);
       console.error(
@@ -973,11 +923,6 @@ async function seedData(client: Client): Promise<number> {
       );
     }
 
-    try {
-      await client.query('ROLLBACK');
-    } catch (rollbackError) {
-      console.error('❌ Error during rollback:', rollbackError);
-    }
     throw error;
   }
 }
@@ -986,60 +931,235 @@ export const databaseSeedingTool = createTool({
   id: 'database-seeding',
   inputSchema: z.object({
     connectionString: z.string().describe('PostgreSQL connection string'),
+    schema: z
+      .string()
+      .regex(SEED_SCHEMA_PATTERN)
+      .optional()
+      .describe(
+        `Schema to seed into (default ${DEFAULT_SEED_SCHEMA}); created if missing, other schemas are never touched`,
+      ),
+    force: z
+      .boolean()
+      .optional()
+      .describe('Replace seeded tables that already contain rows. Without it, seeding refuses to drop them'),
+    confirmationToken: z
+      .string()
+      .optional()
+      .describe(
+        'Token returned by a first call without it. Seeding only runs when the token matches the current plan of tables to drop',
+      ),
+    profile: z
+      .enum(seedProfiles)
+      .optional()
+      .describe(
+        'business (default): companies, employees, projects and skills; news: a Vietnamese stock-news articles table like the one the agent reads',
+      ),
+    seed: z
+      .number()
+      .int()
+      .min(0)
+      .max(MAX_SEED)
+      .optional()
+      .describe(
+        'Random seed; the same seed and scale always produce the same data. A random seed is used (and returned) when omitted',
+      ),
+    scale: z
+      .object({
+        companies: z.number().int().min(1).optional().describe('Number of companies (default 5)'),
+        employeesPerDepartment: z
+          .number()
+          .int()
+          .min(0)
+          .optional()
+          .describe("Employees per department (default 80% of the department's head count)"),
+        projectsPerCompany: z
+          .number()
+          .int()
+          .min(0)
+          .optional()
+          .describe('Projects per company (default 5-12 at random)'),
+        articles: z
+          .number()
+          .int()
+          .min(0)
+          .optional()
+          .describe(`Articles for the news profile (default ${DEFAULT_NEWS_ARTICLES})`),
+      })
+      .optional()
+      .describe('Dataset size, from tiny fixtures to benchmark databases'),
+    dateSpreadDays: z
+      .number()
+      .positive()
+      .optional()
+      .describe(
+        `News profile: articles are published over this many days before endDate (default ${DEFAULT_NEWS_DATE_SPREAD_DAYS})`,
+      ),
+    endDate: z
+      .string()
+      .optional()
+      .describe(
+        'News profile: ISO date or timestamp of the newest possible article (default the start of the current hour). Set it for identical datasets across runs',
+      ),
   }),
   description:
-    'Seeds the database with comprehensive business data including companies, employees, projects, skills, and their relationships',
-  execute: async ({ context: { connectionString } }) => {
-    const client = new Client({
+    'Seeds the database with sample data: comprehensive business data including companies, employees, projects, skills, and their relationships (profile business), or Vietnamese stock-market news articles (profile news). Pass seed for a reproducible dataset and scale to change its size. Seeds the demo_seed schema unless told otherwise, refuses to replace tables that hold rows without force, and only runs when called again with the confirmationToken returned by the first call',
+  execute: async ({
+    context: {
       connectionString,
-      connectionTimeoutMillis: 30000, // 30 seconds
-      statement_timeout: 180000, // 3 minutes
-      query_timeout: 180000, // 3 minutes
-    });
+      profile = 'business',
+      schema = DEFAULT_SEED_SCHEMA,
+      force = false,
+      confirmationToken,
+      seed = randomSeed(),
+      scale,
+      dateSpreadDays,
+      endDate,
+    },
+    tracingContext,
+  }) => {
+    const seedScale: SeedScale = {
+      companies: scale?.companies ?? DEFAULT_SEED_SCALE.companies,
+      employeesPerDepartment: scale?.employeesPerDepartment,
+      projectsPerCompany: scale?.projectsPerCompany,
+    };
+    const newsOptions: NewsSeedOptions = {
+      articles: scale?.articles ?? DEFAULT_NEWS_ARTICLES,
+      dateSpreadDays: dateSpreadDays ?? DEFAULT_NEWS_DATE_SPREAD_DAYS,
+      endDate: endDate ? new Date(endDate) : new Date(Math.floor(Date.now() / 3600000) * 3600000),
+    };
+    if (Number.isNaN(newsOptions.endDate.getTime())) {
+      throw new Error(`Invalid endDate "${endDate}"`);
+    }
+    if (!SEED_SCHEMA_PATTERN.test(schema)) {
+      throw new Error(`Invalid schema "${schema}": use a lower-case identifier such as ${DEFAULT_SEED_SCHEMA}`);
+    }
+    const tables = profile === 'news' ? NEWS_TABLES : SEEDED_TABLES;
 
     try {
-      console.log('🔌 Connecting to PostgreSQL for seeding...');
-      await client.connect();
-      console.log('✅ Connected to PostgreSQL for seeding');
-
-      console.log('🏗️ Creating tables...');
-      await createTables(client);
-      console.log('✅ Tables created');
-
-      console.log('📊 Starting data seeding process...');
-      const recordCount = await seedData(client);
-
-      return {
-        success: true,
-        message: `Database seeded successfully with ${recordCount} records across multiple related tables`,
-        recordCount,
-        tablesCreated: [
-          'companies',
-          'locations',
-          'departments',
-          'job_titles',
-          'employees',
-          'skills',
-          'employee_skills',
-          'projects',
-          'project_assignments',
-          'salary_history',
-        ],
-        summary: {
-          companies: COMPANIES.length,
-          locations: LOCATIONS.length,
-          departments: DEPARTMENTS.length,
-          jobTitles: JOB_TITLES.length,
-          skills: SKILLS.length,
-          employees: '~400-500 (varies by department)',
-          projects: '~40-60 (varies by company)',
-          relationships: 'Multiple many-to-many relationships between employees, skills, and projects',
-        },
-      };
+      return await poolRegistry.withClient(connectionString, async client => {
+        console.log('🔌 Borrowed a pooled PostgreSQL connection for seeding');
+
+        const planOptions = { connectionString, schema, profile, force, tables };
+        const refuseNonEmpty = (plan: SeedPlan) => {
+          console.warn(`⛔ ${describeSeedPlan(plan)}; refusing without force`);
+          return {
+            success: false,
+            message: `Refusing to seed: ${plan.nonEmptyTables.map(table => `${schema}.${table}`).join(', ')} already contain rows. Choose another schema, or pass force: true to replace them`,
+            plan,
+          };
+        };
+
+        const plan = await planSeeding(client, planOptions);
+        if (plan.nonEmptyTables.length > 0 && !force) {
+          return refuseNonEmpty(plan);
+        }
+        if (confirmationToken !== plan.confirmationToken) {
+          return {
+            success: false,
+            requiresConfirmation: true,
+            message: `${describeSeedPlan(plan)}. ${confirmationToken ? 'The confirmation token does not match this plan (the options or the database changed). ' : ''}Call again with confirmationToken "${plan.confirmationToken}" to proceed`,
+            confirmationToken: plan.confirmationToken,
+            plan,
+          };
+        }
+
+        // Schema, tables and data in one transaction: a failure halfway leaves the database as it was
+        await client.query('BEGIN');
+        try {
+          // Seeding runs larger statements than the agent queries, so lift the pool's statement timeout for this transaction
+          await client.query("SET LOCAL statement_timeout = '3min'");
+
+          // Rows may have arrived since the plan was confirmed; check again with the tables locked
+          const lockedPlan = await lockAndPlanSeeding(client, planOptions);
+          if (lockedPlan.confirmationToken !== plan.confirmationToken) {
+            await client.query('ROLLBACK');
+            if (lockedPlan.nonEmptyTables.length > 0 && !force) {
+              return refuseNonEmpty(lockedPlan);
+            }
+            return {
+              success: false,
+              requiresConfirmation: true,
+              message: `${describeSeedPlan(lockedPlan)}. The database changed since this plan was confirmed. Call again with confirmationToken "${lockedPlan.confirmationToken}" to proceed`,
+              confirmationToken: lockedPlan.confirmationToken,
+              plan: lockedPlan,
+            };
+          }
+
+          await useSeedSchema(client, schema);
+
+          const random = new SeededRandom(seed);
+          let result;
+          if (profile === 'news') {
+            console.log('🏗️ Creating news tables...');
+            await createNewsTables(client);
+
+            console.log(`📊 Seeding ${newsOptions.articles} articles with seed ${seed}...`);
+            const counts = await seedNewsData(client, random, newsOptions);
+            const from = new Date(newsOptions.endDate.getTime() - newsOptions.dateSpreadDays * 24 * 60 * 60 * 1000);
+
+            const note = newsSchemaNote(schema);
+            result = {
+              success: true,
+              message: `Database seeded successfully with ${counts.articles} news articles in schema "${schema}"${note ? `. ${note}` : ''}`,
+              recordCount: counts.articles,
+              profile,
+              schema,
+              seed,
+              scale: { articles: newsOptions.articles },
+              tablesCreated: [...NEWS_TABLES],
+              summary: {
+                articles: counts.articles,
+                publishedFrom: from.toISOString(),
+                publishedTo: newsOptions.endDate.toISOString(),
+              },
+            };
+          } else {
+            console.log('🏗️ Creating tables...');
+            await createTables(client);
+            console.log('✅ Tables created');
+
+            console.log(`📊 Starting data seeding process with seed ${seed}...`);
+            const counts = await seedData(client, random, seedScale);
+            const recordCount = Object.values(counts).reduce((sum, count) => sum + count, 0);
+
+            result = {
+              success: true,
+              message: `Database seeded successfully with ${recordCount} records across multiple related tables in schema "${schema}"`,
+              recordCount,
+              profile,
+              schema,
+              seed,
+              scale: seedScale,
+              tablesCreated: [...SEEDED_TABLES],
+              summary: {
+                companies: counts.companies,
+                locations: counts.locations,
+                departments: counts.departments,
+                jobTitles: counts.job_titles,
+                skills: counts.skills,
+                employees: counts.employees,
+                projects: counts.projects,
+                relationships: 'Multiple many-to-many relationships between employees, skills, and projects',
+              },
+            };
+          }
+
+          await client.query('COMMIT');
+          return result;
+        } catch (error) {
+          try {
+            await client.query('ROLLBACK');
+            console.error('❌ Seeding failed; all changes were rolled back');
+          } catch (rollbackError) {
+            console.error('❌ Error during rollback:', rollbackError);
+          }
+          throw error;
+        }
+      });
     } catch (error) {
       throw new Error(`Failed to seed database: ${error instanceof Error ? error.message : String(error)}`);
     } finally {
-      await client.end();
+      poolRegistry.reportMetrics(connectionString, tracingContext);
     }
   },
 });
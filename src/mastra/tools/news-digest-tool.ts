@@ -0,0 +1,106 @@
+import { createTool } from '@mastra/core/tools';
+import { z } from 'zod';
+import { ISO_DATE_PATTERN, articlesTableName, articlesTablePolicy } from '../lib/article-search';
+import { recordAuditEntry } from '../lib/audit-log';
+import { poolRegistry } from '../lib/db-pool';
+import { planNewsDigest, runNewsDigest } from '../lib/news-digest';
+import type { NewsDigestPlan } from '../lib/news-digest';
+import { resolveReadOnlyConnectionString, withReadOnlyTransaction } from '../lib/read-only-query';
+import { databaseFingerprint } from '../lib/schema-cache';
+import { formatPgError, pgErrorDetails } from '../lib/sql-validation';
+
+export const newsDigestTool = createTool({
+  id: 'news-digest',
+  inputSchema: z.object({
+    connectionString: z
+      .string()
+      .optional()
+      .describe(
+        'PostgreSQL connection string. If not provided, will use NEWS_DATABASE_READONLY_URL, then NEWS_DATABASE_URL from environment variables.',
+      ),
+    from: z.string().regex(ISO_DATE_PATTERN).optional().describe('First day, YYYY-MM-DD in Vietnamese time'),
+    to: z
+      .string()
+      .regex(ISO_DATE_PATTERN)
+      .optional()
+      .describe('Last day (inclusive), YYYY-MM-DD in Vietnamese time. Defaults to today'),
+    days: z
+      .number()
+      .int()
+      .min(1)
+      .max(31)
+      .optional()
+      .describe('Window length in days ending on `to` when `from` is not given, e.g. 1 for today, 7 for this week'),
+    sector: z
+      .string()
+      .optional()
+      .describe('Sector id from symbol-resolver (e.g. "ngan-hang"); whole market if omitted'),
+    symbols: z.array(z.string().min(1).max(20)).max(50).optional().describe('Only count these stock symbols'),
+    articleLimit: z.number().int().min(0).optional().describe('Latest article cards to include (default 5)'),
+    question: z.string().optional().describe('The natural language question being answered, recorded in the audit log'),
+  }),
+  description:
+    'Builds a news digest for a window of days: article counts per day, per sector and per symbol, trending tickers compared with the previous window of the same length, and the latest article cards. Use it for overview questions such as "thị trường hôm nay có gì" or "tin ngân hàng tuần này" instead of listing articles. Uses NEWS_DATABASE_READONLY_URL or NEWS_DATABASE_URL if connectionString is not provided.',
+  execute: async ({
+    context: { connectionString, question, ...options },
+    tracingContext,
+    threadId,
+    resourceId,
+    runId,
+  }) => {
+    const dbUrl = resolveReadOnlyConnectionString(connectionString);
+    if (!dbUrl) {
+      throw new Error(
+        'No connection string provided and neither NEWS_DATABASE_READONLY_URL nor NEWS_DATABASE_URL is set in environment variables',
+      );
+    }
+
+    let plan: NewsDigestPlan;
+    try {
+      plan = planNewsDigest(options);
+    } catch (error) {
+      throw new Error(`Failed to build the news digest: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    const sql = Object.values(plan.queries)
+      .map(query => query.text)
+      .join(';\n\n');
+    const startedAt = Date.now();
+    const audit = (success: boolean, result: { rowCount?: number; error?: unknown }) => {
+      const failure = result.error === undefined ? undefined : pgErrorDetails(result.error);
+      return recordAuditEntry({
+        event: 'execution',
+        userId: resourceId,
+        threadId,
+        runId,
+        database: databaseFingerprint(dbUrl),
+        question,
+        generatedSql: sql,
+        sanitizedSql: sql,
+        tables: [articlesTableName(articlesTablePolicy())],
+        durationMs: Date.now() - startedAt,
+        rowCount: result.rowCount,
+        success,
+        errorCode: failure?.code,
+        errorMessage: failure?.message,
+      });
+    };
+
+    try {
+      const digest = await poolRegistry.withClient(dbUrl, client =>
+        withReadOnlyTransaction(client, transaction => runNewsDigest(transaction, plan)),
+      );
+      console.log(
+        `🗞️ Digest ${digest.window.from}..${digest.window.to}: ${digest.totalArticles} articles, ${digest.trending.length} trending symbols`,
+      );
+      await audit(true, { rowCount: digest.totalArticles });
+
+      return { success: true, ...digest };
+    } catch (error) {
+      await audit(false, { error });
+      throw new Error(`Failed to build the news digest: ${formatPgError(pgErrorDetails(error), sql)}`);
+    } finally {
+      poolRegistry.reportMetrics(dbUrl, tracingContext);
+    }
+  },
+});
@@ -0,0 +1,136 @@
+import { createTool } from '@mastra/core/tools';
+import { z } from 'zod';
+import { poolRegistry } from '../lib/db-pool';
+import { queryCursors } from '../lib/query-cursor';
+import {
+  HeldQueryError,
+  describeBlockedQuery,
+  heldQueryResult,
+  reviewAndApprove,
+  startQueryAudit,
+  staticBlock,
+} from '../lib/query-review';
+import type { QueryReviewRequest } from '../lib/query-review';
+import { resolveReadOnlyConnectionString, withReadOnlyTransaction } from '../lib/read-only-query';
+import { exportFormats, exportQueryResult } from '../lib/result-export';
+import { databaseFingerprint } from '../lib/schema-cache';
+import { formatPgError, pgErrorDetails } from '../lib/sql-validation';
+
+export const resultExportTool = createTool({
+  id: 'result-export',
+  inputSchema: z.object({
+    connectionString: z
+      .string()
+      .optional()
+      .describe(
+        'PostgreSQL connection string. If not provided, will use NEWS_DATABASE_READONLY_URL, then NEWS_DATABASE_URL from environment variables.',
+      ),
+    query: z.string().optional().describe('SQL query whose full result is exported, e.g. the finalSQL of the workflow'),
+    cursorToken: z
+      .string()
+      .optional()
+      .describe('cursorToken from sql-execution; exports the whole result of that query instead of a query string'),
+    format: z.enum(exportFormats).describe('File format: csv, jsonl, parquet or xlsx'),
+    fileName: z.string().optional().describe('File name without extension (defaults to a timestamped name)'),
+    overwrite: z
+      .boolean()
+      .optional()
+      .describe(
+        'Replace an existing file of that name; otherwise the export gets a numbered name. Only when the user asks',
+      ),
+    confidence: z
+      .number()
+      .min(0)
+      .max(1)
+      .optional()
+      .describe('Confidence reported by sql-generation; queries without it always need approval'),
+    approvalId: z
+      .string()
+      .optional()
+      .describe(
+        'approvalId from a previous requiresApproval result, once the user has approved the query in the app. Only works with the same query',
+      ),
+  }),
+  description:
+    'Exports the full result of a read-only SQL query to a CSV, JSON Lines, Parquet or XLSX file in EXPORT_OUTPUT_DIR, keeping PostgreSQL types (numeric precision, timestamptz, JSONB). Returns the file path, row count and sha256 checksum. The query goes through the same review policy as sql-execution: a held query returns requiresApproval and an approvalId, and blocked statements are refused.',
+  execute: async ({
+    context: { connectionString, query, cursorToken, format, fileName, overwrite, confidence, approvalId },
+    tracingContext,
+    threadId,
+    resourceId,
+    runId,
+  }) => {
+    // A result handle stands for its query; the export reads the whole result again from the first row
+    const sql = (cursorToken ? queryCursors.queryFor(cursorToken) : undefined) ?? query;
+    if (!sql) {
+      throw new Error(
+        cursorToken
+          ? `Unknown or expired cursor token "${cursorToken}"; pass the query instead`
+          : 'Either query or cursorToken must be provided',
+      );
+    }
+
+    const dbUrl =
+      (cursorToken ? queryCursors.connectionStringFor(cursorToken) : undefined) ??
+      resolveReadOnlyConnectionString(connectionString);
+    if (!dbUrl) {
+      throw new Error(
+        'No connection string provided and neither NEWS_DATABASE_READONLY_URL nor NEWS_DATABASE_URL is set in environment variables',
+      );
+    }
+
+    const blocked = staticBlock(sql);
+    if (blocked) {
+      throw new Error(`Failed to export result: ${describeBlockedQuery(blocked)}`);
+    }
+
+    const request: QueryReviewRequest = {
+      sql,
+      database: databaseFingerprint(dbUrl),
+      confidence,
+      approvalId,
+      userId: resourceId,
+      threadId,
+    };
+    let executedQuery = sql;
+    let appliedRules: string[] = [];
+    const audit = startQueryAudit({
+      event: 'export',
+      userId: resourceId,
+      threadId,
+      runId,
+      database: request.database,
+      generatedSql: sql,
+    });
+
+    try {
+      console.log(`📤 Exporting query result as ${format}...`);
+      const result = await poolRegistry.withClient(dbUrl, client =>
+        withReadOnlyTransaction(client, async client => {
+          // Exports are held to the same access policy and review as executed queries, so a query that would be
+          // held by sql-execution cannot be read through an export
+          const { guard, review } = await reviewAndApprove(client, request);
+          executedQuery = guard.sql;
+          appliedRules = guard.appliedRules;
+
+          const exported = await exportQueryResult(client, guard.sql, { format, fileName, overwrite });
+          return { ...exported, executedQuery: guard.sql, review };
+        }),
+      );
+      console.log(`✅ Exported ${result.rowCount} rows to ${result.path}${result.truncated ? ' (truncated)' : ''}`);
+      await audit(true, { executedQuery, appliedRules, rowCount: result.rowCount });
+      return { success: true, ...result };
+    } catch (error) {
+      if (error instanceof HeldQueryError) {
+        if (error.review.decision === 'block') {
+          throw new Error(`Failed to export result: ${describeBlockedQuery(error.review)}`);
+        }
+        return heldQueryResult(error, request);
+      }
+      await audit(false, { executedQuery, appliedRules, error });
+      throw new Error(`Failed to export result: ${formatPgError(pgErrorDetails(error), sql)}`);
+    } finally {
+      poolRegistry.reportMetrics(dbUrl, tracingContext);
+    }
+  },
+});
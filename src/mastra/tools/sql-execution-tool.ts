@@ -1,157 +1,205 @@
 import { createTool } from '@mastra/core/tools';
 import { z } from 'zod';
-import { Client } from 'pg';
-
-// Forbidden columns that must never be selected from the news table
-const FORBIDDEN_COLUMNS = ['content', 'body', 'full_text', 'html', 'raw_content'];
-const NEWS_TABLE_NAME = 'news';
-
-// Helper function to check if a SQL query contains forbidden columns
-function containsForbiddenColumns(sql: string): { hasForbidden: boolean; forbiddenColumns: string[] } {
-  const sqlLower = sql.toLowerCase();
-  const foundForbidden: string[] = [];
-
-  // Check if query targets the news table
-  const newsTableMatch = sqlLower.match(/from\s+([\w.]+)/i);
-  const isNewsTable = newsTableMatch && newsTableMatch[1].toLowerCase().includes(NEWS_TABLE_NAME);
+import { presentRows } from '../lib/article-presenter';
+import { poolRegistry } from '../lib/db-pool';
+import { queryCursors } from '../lib/query-cursor';
+import type { ResultPage } from '../lib/query-cursor';
+import {
+  HeldQueryError,
+  describeBlockedQuery,
+  heldQueryResult,
+  reviewAndApprove,
+  startQueryAudit,
+  staticBlock,
+} from '../lib/query-review';
+import type { QueryReviewRequest } from '../lib/query-review';
+import { resolveReadOnlyConnectionString } from '../lib/read-only-query';
+import { describeReview, reviewDecisions } from '../lib/review-policy';
+import type { ReviewResult } from '../lib/review-policy';
+import { databaseFingerprint } from '../lib/schema-cache';
+import { formatPgError, pgErrorDetails } from '../lib/sql-validation';
+
+// Database errors keep SQLSTATE, position and hint so the query can be repaired; policy errors pass through as is
+const describeExecutionError = (error: unknown, sql?: string) => {
+  const details = pgErrorDetails(error);
+  return details.code ? `Failed to execute query: ${formatPgError(details, sql)}` : details.message;
+};
 
-  if (isNewsTable) {
-    // Check for forbidden columns in SELECT clause
-    const selectMatch = sqlLower.match(/select\s+([^from]+?)\s+from/i);
-    if (selectMatch) {
-      const selectClause = selectMatch[1];
-      FORBIDDEN_COLUMNS.forEach((col) => {
-        // Check for column name (with word boundaries to avoid partial matches)
-        const regex = new RegExp(`\\b${col}\\b`, 'i');
-        if (regex.test(selectClause)) {
-          foundForbidden.push(col);
-        }
-      });
-    }
-  }
+export const queryReviewSchema = z.object({
+  decision: z.enum(reviewDecisions),
+  reasons: z.array(z.string()),
+});
 
+// Page fields shared by the first page and every page read through a cursor token. Source URLs are dropped and
+// article rows come with ready-made cards, so the model never builds links or dates itself
+const pageOutput = (page: ResultPage) => {
+  const presented = presentRows(page.rows, page.columns);
   return {
-    hasForbidden: foundForbidden.length > 0,
-    forbiddenColumns: foundForbidden,
+    data: presented.rows,
+    columns: presented.columns,
+    articles: presented.articles,
+    rowCount: page.rows.length,
+    totalRowCount: page.totalRows,
+    hasMore: page.hasMore,
+    cursorToken: page.cursorToken,
+    truncated: page.truncated,
+    truncatedReason: page.truncatedReason,
   };
-}
-
-// Helper function to sanitize SQL by removing forbidden columns from SELECT clause
-function sanitizeSQL(sql: string): string {
-  const sqlLower = sql.toLowerCase();
-  const selectMatch = sql.match(/select\s+([^from]+?)\s+from/i);
-  
-  if (!selectMatch) {
-    return sql; // Return as-is if we can't parse it
-  }
-
-  const originalSelect = selectMatch[1];
-  const selectClause = originalSelect;
-  
-  // Split by comma and filter out forbidden columns
-  const columns = selectClause.split(',').map((col) => col.trim());
-  const ALLOWED_COLUMNS = ['id', 'title', 'slug', 'symbol', 'url', 'published_at'];
-  const sanitizedColumns = columns.filter((col) => {
-    const colLower = col.toLowerCase();
-    // Remove table qualifiers and quotes for comparison
-    const colName = colLower
-      .replace(/^[\w.]+\./, '') // Remove table prefix
-      .replace(/^["']|["']$/g, '') // Remove quotes
-      .trim();
-    
-    return !FORBIDDEN_COLUMNS.includes(colName);
-  });
-
-  if (sanitizedColumns.length === 0) {
-    // If all columns were removed, add allowed columns as fallback
-    sanitizedColumns.push(...ALLOWED_COLUMNS);
-  }
-
-  // Reconstruct the SQL with sanitized columns
-  const sanitizedSelect = sanitizedColumns.join(', ');
-  return sql.replace(/select\s+[^from]+?\s+from/i, `SELECT ${sanitizedSelect} FROM`);
-}
-
-const createDatabaseConnection = (connectionString: string) => {
-  return new Client({
-    connectionString,
-    connectionTimeoutMillis: 30000, // 30 seconds
-    statement_timeout: 60000, // 1 minute
-    query_timeout: 60000, // 1 minute
-  });
-};
-
-const executeQuery = async (client: Client, query: string) => {
-  try {
-    console.log('Executing query:', query);
-    const result = await client.query(query);
-    console.log('Query result:', result.rows);
-    return result.rows;
-  } catch (error) {
-    throw new Error(`Failed to execute query: ${error instanceof Error ? error.message : String(error)}`);
-  }
 };
 
 export const sqlExecutionTool = createTool({
   id: 'sql-execution',
   inputSchema: z.object({
-    connectionString: z.string().optional().describe('PostgreSQL connection string. If not provided, will use NEWS_DATABASE_URL from environment variables.'),
-    query: z.string().describe('SQL query to execute'),
+    connectionString: z
+      .string()
+      .optional()
+      .describe(
+        'PostgreSQL connection string. If not provided, will use NEWS_DATABASE_READONLY_URL, then NEWS_DATABASE_URL from environment variables.',
+      ),
+    query: z.string().optional().describe('SQL query to execute. Not needed when cursorToken is given'),
+    pageSize: z
+      .number()
+      .int()
+      .min(1)
+      .max(1000)
+      .optional()
+      .describe('Rows per page (defaults to SQL_RESULT_PAGE_SIZE, 100)'),
+    cursorToken: z
+      .string()
+      .optional()
+      .describe('cursorToken from a previous result with hasMore: true; returns the next page without re-running the query'),
+    question: z
+      .string()
+      .optional()
+      .describe('The natural language question the query answers, recorded in the audit log'),
+    confidence: z
+      .number()
+      .min(0)
+      .max(1)
+      .optional()
+      .describe('Confidence reported by sql-generation; queries without it always need approval'),
+    approvalId: z
+      .string()
+      .optional()
+      .describe(
+        'approvalId from a previous requiresApproval result, once the user has approved the query in the app. Only works with the same query',
+      ),
   }),
-  description: 'Executes SQL queries against a PostgreSQL database. Uses NEWS_DATABASE_URL if connectionString is not provided.',
-  execute: async ({ context: { connectionString, query } }) => {
-    // Use NEWS_DATABASE_URL as fallback if connectionString is not provided
-    const dbUrl = connectionString || process.env.NEWS_DATABASE_URL;
-    if (!dbUrl) {
-      throw new Error('No connection string provided and NEWS_DATABASE_URL is not set in environment variables');
+  description:
+    'Executes a single read-only SQL query against a PostgreSQL database inside a READ ONLY transaction and returns the first page of rows. When hasMore is true, call again with cursorToken for the next page. Queries are checked by the review policy first: low confidence, high cost, missing LIMIT or sensitive tables return requiresApproval and an approvalId instead of rows, and run only after the user approves that approvalId in the app; non-SELECT statements are blocked. Article results also come back as cards with public_url and a dd/mm/yyyy published_at; the source url column is never returned. Uses NEWS_DATABASE_READONLY_URL or NEWS_DATABASE_URL if connectionString is not provided.',
+  execute: async ({
+    context: { connectionString, query, pageSize, cursorToken, question, confidence, approvalId },
+    tracingContext,
+    threadId,
+    resourceId,
+    runId,
+  }) => {
+    if (cursorToken) {
+      const executedQuery = queryCursors.queryFor(cursorToken) ?? query;
+      const cursorUrl = queryCursors.connectionStringFor(cursorToken);
+      try {
+        const page = await queryCursors.next(cursorToken, pageSize);
+        console.log(`Fetched ${page.rows.length} more rows (${page.totalRows} so far)`);
+        return { success: true, ...pageOutput(page), executedQuery };
+      } catch (error) {
+        return {
+          success: false,
+          error: describeExecutionError(error, executedQuery),
+          executedQuery,
+        };
+      } finally {
+        if (cursorUrl) {
+          poolRegistry.reportMetrics(cursorUrl, tracingContext);
+        }
+      }
     }
-    const client = createDatabaseConnection(dbUrl);
 
-    try {
-      console.log('🔌 Connecting to PostgreSQL for query execution...');
-      await client.connect();
-      console.log('✅ Connected to PostgreSQL for query execution');
+    if (!query) {
+      throw new Error('Either query or cursorToken must be provided');
+    }
 
-      const trimmedQuery = query.trim().toLowerCase();
-      if (!trimmedQuery.startsWith('select')) {
-        throw new Error('Only SELECT queries are allowed for security reasons');
-      }
+    const blocked = staticBlock(query);
+    if (blocked) {
+      console.warn(`⛔ Query blocked by the review policy: ${describeReview(blocked)}`);
+      return { success: false, error: describeBlockedQuery(blocked), review: blocked, executedQuery: query };
+    }
 
-      // Validate for forbidden columns
-      const validation = containsForbiddenColumns(query);
-      if (validation.hasForbidden) {
-        console.warn(`⚠️ Query contains forbidden columns: ${validation.forbiddenColumns.join(', ')}. Sanitizing...`);
-        const sanitizedQuery = sanitizeSQL(query);
-        console.log('Sanitized query:', sanitizedQuery);
-        
-        // Execute the sanitized query instead
-        const result = await executeQuery(client, sanitizedQuery);
-        
-        return {
-          success: true,
-          data: result,
-          rowCount: result.length,
-          executedQuery: sanitizedQuery,
-          warning: `Forbidden columns (${validation.forbiddenColumns.join(', ')}) were automatically removed from the query.`,
-        };
-      }
+    // Prefer the read-only role when no connectionString is provided
+    const dbUrl = resolveReadOnlyConnectionString(connectionString);
+    if (!dbUrl) {
+      throw new Error(
+        'No connection string provided and neither NEWS_DATABASE_READONLY_URL nor NEWS_DATABASE_URL is set in environment variables',
+      );
+    }
 
-      const result = await executeQuery(client, query);
+    const request: QueryReviewRequest = {
+      sql: query,
+      database: databaseFingerprint(dbUrl),
+      confidence,
+      approvalId,
+      userId: resourceId,
+      threadId,
+    };
+    let executedQuery = query;
+    let warning: string | undefined;
+    let appliedRules: string[] = [];
+    let review: ReviewResult | undefined;
+    // Only the first page is audited; pages read through a cursor token belong to the same entry
+    const audit = startQueryAudit({
+      event: 'execution',
+      userId: resourceId,
+      threadId,
+      runId,
+      database: request.database,
+      question,
+      generatedSql: query,
+    });
 
-      return {
-        success: true,
-        data: result,
-        rowCount: result.length,
-        executedQuery: query,
-      };
+    try {
+      // Every query runs in a READ ONLY transaction, so writes fail in the database even if the guard misses them.
+      // Rows are read through a cursor, one page at a time, instead of being loaded all at once
+      const page = await queryCursors.open(
+        dbUrl,
+        async client => {
+          // Validate the query against the access policy, then review it as it will run
+          const approved = await reviewAndApprove(client, request);
+          const guard = approved.guard;
+          review = approved.review;
+
+          appliedRules = guard.appliedRules;
+          if (guard.rewritten) {
+            console.warn(`⚠️ Query does not follow the access policy (${guard.appliedRules.join('; ')}). Sanitizing...`);
+            console.log('Sanitized query:', guard.sql);
+
+            // Execute the sanitized query instead
+            executedQuery = guard.sql;
+            warning = `The query was adjusted to the access policy: ${guard.appliedRules.join('; ')}.`;
+          }
+
+          console.log('Executing query:', executedQuery);
+          return executedQuery;
+        },
+        pageSize,
+      );
+      console.log(
+        `Query returned ${page.rows.length} rows${page.hasMore ? ' (more available)' : ''}${page.truncated ? ' (truncated)' : ''}`,
+      );
+
+      await audit(true, { executedQuery, appliedRules, rowCount: page.rows.length });
+
+      return { success: true, ...pageOutput(page), executedQuery, warning, review };
     } catch (error) {
+      if (error instanceof HeldQueryError) {
+        return heldQueryResult(error, request);
+      }
+      await audit(false, { executedQuery, appliedRules, error });
       return {
         success: false,
-        error: error instanceof Error ? error.message : String(error),
-        executedQuery: query,
+        error: describeExecutionError(error, executedQuery),
+        executedQuery,
       };
     } finally {
-      await client.end();
+      poolRegistry.reportMetrics(dbUrl, tracingContext);
     }
   },
 });
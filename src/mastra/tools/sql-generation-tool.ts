@@ -1,72 +1,21 @@
 import { createTool } from '@mastra/core/tools';
 import { z } from 'zod';
-import { openai } from '@ai-sdk/openai';
 import { generateObject } from 'ai';
-
-// Forbidden columns that must never be selected from the articles table
-const FORBIDDEN_COLUMNS = ['content', 'body', 'full_text', 'html', 'raw_content'];
-const ALLOWED_COLUMNS = ['id', 'title', 'slug', 'symbols', 'url', 'published_at'];
-const ARTICLES_TABLE_NAME = 'articles';
-
-// Helper function to check if a SQL query contains forbidden columns
-function containsForbiddenColumns(sql: string): { hasForbidden: boolean; forbiddenColumns: string[] } {
-  const sqlLower = sql.toLowerCase();
-  const foundForbidden: string[] = [];
-
-  // Check for forbidden columns in SELECT clause
-  // Match patterns like: SELECT content, SELECT articles.content, SELECT "content", etc.
-  const selectMatch = sqlLower.match(/select\s+([^from]+?)\s+from/i);
-  if (selectMatch) {
-    const selectClause = selectMatch[1];
-    FORBIDDEN_COLUMNS.forEach((col) => {
-      // Check for column name (with word boundaries to avoid partial matches)
-      const regex = new RegExp(`\\b${col}\\b`, 'i');
-      if (regex.test(selectClause)) {
-        foundForbidden.push(col);
-      }
-    });
-  }
-
-  return {
-    hasForbidden: foundForbidden.length > 0,
-    forbiddenColumns: foundForbidden,
-  };
-}
-
-// Helper function to sanitize SQL by removing forbidden columns from SELECT clause
-function sanitizeSQL(sql: string): string {
-  const sqlLower = sql.toLowerCase();
-  const selectMatch = sql.match(/select\s+([^from]+?)\s+from/i);
-  
-  if (!selectMatch) {
-    return sql; // Return as-is if we can't parse it
-  }
-
-  const originalSelect = selectMatch[1];
-  const selectClause = originalSelect;
-  
-  // Split by comma and filter out forbidden columns
-  const columns = selectClause.split(',').map((col) => col.trim());
-  const sanitizedColumns = columns.filter((col) => {
-    const colLower = col.toLowerCase();
-    // Remove table qualifiers and quotes for comparison
-    const colName = colLower
-      .replace(/^[\w.]+\./, '') // Remove table prefix
-      .replace(/^["']|["']$/g, '') // Remove quotes
-      .trim();
-    
-    return !FORBIDDEN_COLUMNS.includes(colName);
-  });
-
-  if (sanitizedColumns.length === 0) {
-    // If all columns were removed, add allowed columns as fallback
-    sanitizedColumns.push(...ALLOWED_COLUMNS);
-  }
-
-  // Reconstruct the SQL with sanitized columns
-  const sanitizedSelect = sanitizedColumns.join(', ');
-  return sql.replace(/select\s+[^from]+?\s+from/i, `SELECT ${sanitizedSelect} FROM`);
-}
+import { describeAccessPolicy, findTablePolicy, formatOrderBy, formatQueryPattern, isColumnAllowed } from '../lib/access-policy';
+import { describeTitleSearch, isTitleSearchAvailable } from '../lib/article-text-search';
+import { recordAuditEntry } from '../lib/audit-log';
+import type { AuditEntry } from '../lib/audit-log';
+import { poolRegistry } from '../lib/db-pool';
+import { describeJsonShape } from '../lib/json-shape';
+import { toolModelConfig, withModelFallback } from '../lib/model-registry';
+import { resolveReadOnlyConnectionString } from '../lib/read-only-query';
+import { databaseFingerprint } from '../lib/schema-cache';
+import { selectRelevantSchema } from '../lib/schema-relevance';
+import { describeViolations, guardSQL, referencedTables } from '../lib/sql-guard';
+import { describeSymbolResolution, resolveSymbols } from '../lib/symbol-resolver';
+import { explainQuery, formatPgError } from '../lib/sql-validation';
+import { findSimilarVerifiedQueries } from '../lib/verified-queries';
+import type { VerifiedQuery } from '../lib/verified-queries';
 
 // Define the schema for SQL generation output
 const sqlGenerationSchema = z.object({
@@ -77,6 +26,56 @@ const sqlGenerationSchema = z.object({
   tables_used: z.array(z.string()).describe('List of tables used in the query'),
 });
 
+// One generate -> access policy -> EXPLAIN round, kept in the output so reviewers can see how the final query was reached
+export const sqlGenerationAttemptSchema = z.object({
+  attempt: z.number(),
+  sql: z.string(),
+  status: z.enum(['valid', 'policy_violation', 'invalid']),
+  error: z
+    .object({
+      message: z.string(),
+      code: z.string().optional(),
+      position: z.number().optional(),
+      hint: z.string().optional(),
+      detail: z.string().optional(),
+    })
+    .optional(),
+  estimatedCost: z.number().optional(),
+  // Access policy rules the guard applied to make the query acceptable
+  appliedRules: z.array(z.string()).optional(),
+});
+
+type SqlGenerationAttempt = z.infer<typeof sqlGenerationAttemptSchema>;
+
+type SqlGenerationMessage = { role: 'system' | 'user' | 'assistant'; content: string };
+
+const DEFAULT_REPAIR_ATTEMPTS = 2;
+
+const repairAttemptsFromEnv = () => {
+  const value = Number(process.env.SQL_MAX_REPAIR_ATTEMPTS);
+  return Number.isInteger(value) && value >= 0 ? value : DEFAULT_REPAIR_ATTEMPTS;
+};
+
+const createRepairPrompt = (error: string) => `That query failed validation: ${error}
+
+Return a corrected query for the same question. Fix this error and keep following every rule and the ACCESS POLICY above.`;
+
+const formatVerifiedExamples = (examples: VerifiedQuery[]) => `
+VERIFIED EXAMPLES (questions answered correctly before - follow their patterns, adapted to the question):
+${examples
+  .map(example => {
+    const note = example.notes ? `\nNote: ${example.notes}` : '';
+    return `Question: ${example.question}\nSQL:\n${example.sql.trim()}${note}`;
+  })
+  .join('\n\n')}
+`;
+
+const jsonKeySummarySchema = z.object({
+  key: z.string(),
+  types: z.array(z.string()),
+  frequency: z.number(),
+});
+
 export const sqlGenerationTool = createTool({
   id: 'sql-generation',
   inputSchema: z.object({
@@ -87,6 +86,7 @@ export const sqlGenerationTool = createTool({
           schema_name: z.string(),
           table_name: z.string(),
           table_owner: z.string(),
+          table_comment: z.string().nullable().optional(),
         }),
       ),
       columns: z.array(
@@ -101,6 +101,8 @@ export const sqlGenerationTool = createTool({
           is_nullable: z.string(),
           column_default: z.string().nullable(),
           is_primary_key: z.boolean(),
+          udt_name: z.string().optional(),
+          column_comment: z.string().nullable().optional(),
         }),
       ),
       relationships: z.array(
@@ -122,87 +124,191 @@ export const sqlGenerationTool = createTool({
           index_definition: z.string(),
         }),
       ),
+      views: z
+        .array(
+          z.object({
+            schema_name: z.string(),
+            view_name: z.string(),
+            view_type: z.enum(['VIEW', 'MATERIALIZED VIEW']),
+            definition: z.string().nullable(),
+            view_comment: z.string().nullable().optional(),
+          }),
+        )
+        .optional(),
+      enums: z
+        .array(
+          z.object({
+            schema_name: z.string(),
+            enum_name: z.string(),
+            enum_values: z.array(z.string()),
+          }),
+        )
+        .optional(),
+      constraints: z
+        .array(
+          z.object({
+            table_schema: z.string(),
+            table_name: z.string(),
+            constraint_name: z.string(),
+            constraint_type: z.enum(['UNIQUE', 'CHECK']),
+            definition: z.string(),
+          }),
+        )
+        .optional(),
+      jsonShapes: z
+        .array(
+          z.object({
+            table_schema: z.string(),
+            table_name: z.string(),
+            column_name: z.string(),
+            sampled_rows: z.number(),
+            value_types: z.array(z.string()),
+            keys: z.array(jsonKeySummarySchema).optional(),
+            element_types: z.array(z.string()).optional(),
+            element_keys: z.array(jsonKeySummarySchema).optional(),
+            sample_elements: z.array(z.string()).optional(),
+          }),
+        )
+        .optional(),
       rowCounts: z.array(
         z.object({
           schema_name: z.string(),
           table_name: z.string(),
-          row_count: z.number(),
+          row_count: z.number().nullable(),
+          count_kind: z.enum(['exact', 'estimate']).optional(),
           error: z.string().optional(),
         }),
       ),
+      schemaVersion: z.string().optional().describe('Schema version reported by the introspection tool'),
     }),
+    connectionString: z
+      .string()
+      .optional()
+      .describe(
+        'Database used to validate the generated SQL with EXPLAIN. Defaults to NEWS_DATABASE_READONLY_URL, then NEWS_DATABASE_URL; validation is skipped when none is set.',
+      ),
+    maxRepairAttempts: z
+      .number()
+      .int()
+      .min(0)
+      .max(5)
+      .optional()
+      .describe('How many times a query rejected by the access policy or by EXPLAIN is sent back for repair (default 2)'),
+    previousAttempt: z
+      .object({
+        sql: z.string(),
+        error: z.string(),
+      })
+      .optional()
+      .describe('A query that already failed, e.g. at execution, with its error; the new query repairs it'),
+    pruneSchema: z
+      .boolean()
+      .optional()
+      .describe('Only describe the tables relevant to the question (plus their foreign-key neighbours). Defaults to true.'),
   }),
   description: 'Generates SQL queries from natural language descriptions using database schema information',
-  execute: async ({ context: { naturalLanguageQuery, databaseSchema } }) => {
+  execute: async ({
+    context: { naturalLanguageQuery, databaseSchema, connectionString, maxRepairAttempts, previousAttempt, pruneSchema = true },
+    threadId,
+    resourceId,
+    runId,
+  }) => {
+    const startedAt = Date.now();
+    const dbUrl = resolveReadOnlyConnectionString(connectionString);
+    const attempts: SqlGenerationAttempt[] = [];
+    const audit = (entry: Pick<AuditEntry, 'success'> & Partial<AuditEntry>) =>
+      recordAuditEntry({
+        event: 'generation',
+        userId: resourceId,
+        threadId,
+        runId,
+        database: dbUrl ? databaseFingerprint(dbUrl) : undefined,
+        question: naturalLanguageQuery,
+        durationMs: Date.now() - startedAt,
+        ...entry,
+      });
+
     try {
       console.log('🔌 Generating SQL query for:', naturalLanguageQuery);
+
+      // Keep the prompt to the tables the question is likely about on large databases
+      const relevant = pruneSchema
+        ? selectRelevantSchema(databaseSchema, naturalLanguageQuery)
+        : { schema: databaseSchema, pruned: false, selectedTables: [] };
+      if (relevant.pruned) {
+        console.log(`✂️ Describing ${relevant.selectedTables.length} relevant tables:`, relevant.selectedTables.join(', '));
+      }
+
       // Create a comprehensive schema description for the AI
-      const schemaDescription = createSchemaDescription(databaseSchema);
+      const schemaDescription = createSchemaDescription(relevant.schema);
+      // Verified examples for similar questions replace the generic query patterns when there are any
+      const examples = await findSimilarVerifiedQueries(naturalLanguageQuery);
+      if (examples.length > 0) {
+        console.log(`📚 Using ${examples.length} verified examples:`, examples.map(example => example.id).join(', '));
+      }
+      // Company names, lowercase tickers and sector words in the question, mapped to ticker symbols
+      const resolvedSymbols = describeSymbolResolution(resolveSymbols(naturalLanguageQuery));
+      if (resolvedSymbols) {
+        console.log(`🏷️ Resolved symbols:\n${resolvedSymbols}`);
+      }
+      const symbolHints = resolvedSymbols
+        ? `
+RESOLVED STOCK SYMBOLS (from the ticker reference - use exactly these codes, never guess others):
+${resolvedSymbols}
+For a sector, match any of its symbols (one symbols @> condition per symbol, combined with OR). For an ambiguous name, match every candidate and list the ambiguity in the assumptions.
+`
+        : '';
+      const articlesPolicy = findTablePolicy('articles');
+      // Keyword searches on titles use the accent-insensitive index once an operator has built it
+      const titleSearch = articlesPolicy && dbUrl && (await isTitleSearchAvailable(dbUrl));
+      const titleSearchHints = titleSearch ? `\n${describeTitleSearch(articlesPolicy)}\n` : '';
+      const articlesPatterns = examples.length > 0
+        ? formatVerifiedExamples(examples)
+        : articlesPolicy
+        ? `
+ALWAYS generate SQL in this pattern for the "articles" table:
+
+**General articles query:**
+${formatQueryPattern(articlesPolicy)}
+
+**Stock-specific query (when filtering by stock symbol):**
+${formatQueryPattern(articlesPolicy, `symbols @> '["STOCK_CODE"]'::jsonb`)}
+`
+        : '';
 
       const systemPrompt = `You are an expert PostgreSQL query generator. Your task is to convert natural language questions into accurate SQL queries.
 
 DATABASE SCHEMA:
 ${schemaDescription}
 
-CRITICAL RULE - CONTENT COLUMN RESTRICTION:
-⚠️ NEVER SELECT THE "content" COLUMN OR RELATED TEXT COLUMNS FROM THE "articles" TABLE ⚠️
+ACCESS POLICY (enforced on every query - violating queries are rewritten or rejected):
+${describeAccessPolicy()}
 
-When querying the "articles" table (or any table named "articles"), you MUST NOT select or reference these forbidden columns:
-- content
-- body
-- full_text
-- html
-- raw_content
-- (or any column that contains long article text)
+Never reference a forbidden column in SELECT, WHERE, JOIN, ORDER BY, subqueries or any other query part, and never use SELECT * on a table that has forbidden columns.
 
-You are ONLY allowed to query these columns from the "articles" table (in this order):
-- id
-- title
-- slug
-- symbols
-- url
-- published_at
-
-If a user asks for article details or summaries, you must NOT fetch the "content" column. Instead, rely on:
+If a user asks for article details or summaries, you must NOT fetch forbidden columns. Instead, rely on:
 - title
 - slug
 - summary (if exists)
 - metadata
 - or simply indicate that detailed content is not available in the database
-
-ALWAYS generate SQL in this pattern for the "articles" table:
-
-**General articles query:**
-SELECT id, title, slug, symbols, url, published_at
-FROM articles
-ORDER BY published_at DESC
-LIMIT 10;
-
-**Stock-specific query (when filtering by stock symbol):**
-SELECT id, title, slug, symbols, url, published_at
-FROM articles
-WHERE symbols @> '["STOCK_CODE"]'::jsonb
-ORDER BY published_at DESC
-LIMIT 10;
-
-CRITICAL: Every query for the "articles" table MUST include LIMIT 10. This is mandatory.
-
+${articlesPatterns}
 For stock-specific queries: When the user asks about a specific stock code (e.g., "FPT", "VPB", "VCB"), you MUST use the exact condition: WHERE symbols @> '["STOCK_CODE"]'::jsonb where STOCK_CODE is replaced with the actual stock code from the user's query. Note: The symbols column is of type JSONB, so you must use JSONB operators, not array operators.
-
-Never include "content" in SELECT, WHERE, or any query part when working with the "articles" table.
-
+${symbolHints}${titleSearchHints}
 RULES:
-1. Only generate SELECT queries for data retrieval
+1. Only generate a single SELECT (or WITH ... SELECT) statement for data retrieval - no semicolon-separated statements
 2. Use proper PostgreSQL syntax
 3. Always qualify column names with table names when joining tables
 4. Use appropriate JOINs when data from multiple tables is needed
-5. Be case-insensitive for text searches using ILIKE
+5. Be case-insensitive for text searches using ILIKE${titleSearch ? ', except keyword searches on article titles, which use the TITLE SEARCH INDEX above' : ''}
 6. Use proper data types for comparisons
 7. Format queries with proper indentation and line breaks
 8. Include appropriate WHERE clauses to filter results
-9. CRITICAL: For "articles" table queries, ALWAYS include LIMIT 10 (this is mandatory)
+9. CRITICAL: For tables listed in the ACCESS POLICY, ALWAYS include their mandatory LIMIT and ORDER BY
 10. CRITICAL: For stock-specific queries on "articles" table, use WHERE symbols @> '["STOCK_CODE"]'::jsonb (replace STOCK_CODE with the actual stock code). The symbols column is JSONB type, so use JSONB operators, not array operators.
 11. Consider performance implications of the query
+12. Views and materialized views can be queried like tables; prefer them when their definition already answers the question
+13. Compare enum columns only against their listed values, and use the keys and element types from "JSON shape" lines for JSON/JSONB columns
 
 QUERY ANALYSIS:
 - Analyze the user's question carefully
@@ -211,7 +317,7 @@ QUERY ANALYSIS:
 - Consider aggregation functions if needed
 - Think about appropriate filtering conditions
 - Consider ordering and limiting results
-- CRITICAL: If querying "articles" table, only use allowed columns (id, title, slug, symbols, url, published_at) and ALWAYS include LIMIT 10
+- CRITICAL: If querying a table listed in the ACCESS POLICY, only use its allowed columns and ALWAYS include its mandatory LIMIT
 - CRITICAL: If filtering by stock symbol in "articles" table, use WHERE symbols @> '["STOCK_CODE"]'::jsonb where STOCK_CODE is the actual stock code from the user's query. The symbols column is JSONB type, so use JSONB operators, not array operators.
 
 Provide a high-confidence SQL query that accurately answers the user's question.`;
@@ -225,50 +331,136 @@ Please provide:
 4. Any assumptions you made
 5. List of tables used`;
 
-      // Get model from environment or use default
-      const modelString = process.env.MODEL || 'gpt-4o';
-      // Extract model name if it includes provider prefix (e.g., 'openai/gpt-4o' -> 'gpt-4o')
-      const modelName = modelString.includes('/') ? modelString.split('/')[1] : modelString;
-
-      const result = await generateObject({
-        model: openai(modelName) as any,
-        messages: [
-          { role: 'system', content: systemPrompt },
-          { role: 'user', content: userPrompt },
-        ],
-        schema: sqlGenerationSchema,
-        temperature: 0.1, // Low temperature for more deterministic results
-      });
+      // SQL_GENERATION_MODEL overrides the agent's MODEL; SQL_GENERATION_FALLBACK_MODEL is tried when it errors
+      const modelConfig = toolModelConfig('SQL_GENERATION');
+
+      // Generate, check against the access policy, then EXPLAIN; failures are fed back to the model for repair
+      const messages: SqlGenerationMessage[] = [
+        { role: 'system', content: systemPrompt },
+        { role: 'user', content: userPrompt },
+      ];
+      if (previousAttempt) {
+        messages.push(
+          { role: 'assistant', content: previousAttempt.sql },
+          { role: 'user', content: createRepairPrompt(previousAttempt.error) },
+        );
+      }
 
-      // Validate and sanitize the generated SQL
-      const generatedSQL = result.object.sql;
-      const validation = containsForbiddenColumns(generatedSQL);
-      
-      if (validation.hasForbidden) {
-        console.warn(`⚠️ Generated SQL contains forbidden columns: ${validation.forbiddenColumns.join(', ')}. Sanitizing...`);
-        const sanitizedSQL = sanitizeSQL(generatedSQL);
-        
-        // Update the result with sanitized SQL
-        return {
-          ...result.object,
-          sql: sanitizedSQL,
-          explanation: `${result.object.explanation} [Note: Forbidden columns (${validation.forbiddenColumns.join(', ')}) were automatically removed from the query.]`,
-          assumptions: [
-            ...result.object.assumptions,
-            `Forbidden columns (${validation.forbiddenColumns.join(', ')}) were detected and removed from the SELECT clause.`,
-          ],
+      const maxAttempts = 1 + (maxRepairAttempts ?? repairAttemptsFromEnv());
+      const schemaVersion = databaseSchema.schemaVersion ?? 'unknown';
+
+      for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+        const { result, modelString } = await withModelFallback(modelConfig, async (model, modelString) => ({
+          result: await generateObject({
+            model,
+            messages,
+            schema: sqlGenerationSchema,
+            temperature: 0.1, // Low temperature for more deterministic results
+          }),
+          modelString,
+        }));
+
+        // Validate and sanitize the generated SQL
+        const generatedSQL = result.object.sql;
+        console.log(`🧾 Generated SQL (attempt ${attempt}) against schema ${schemaVersion}:`, generatedSQL);
+        const guard = guardSQL(generatedSQL, { schemaColumns: databaseSchema.columns });
+
+        if (!guard.allowed) {
+          const error = { message: `The query violates the access policy: ${describeViolations(guard.violations)}` };
+          console.warn(`⚠️ Attempt ${attempt} rejected: ${error.message}`);
+          attempts.push({ attempt, sql: generatedSQL, status: 'policy_violation', error });
+          messages.push(
+            { role: 'assistant', content: generatedSQL },
+            { role: 'user', content: createRepairPrompt(error.message) },
+          );
+          continue;
+        }
+
+        // Plan the query without running it; skipped when there is no database to validate against
+        const explain = dbUrl
+          ? await poolRegistry.withClient(dbUrl, client => explainQuery(client, guard.sql))
+          : undefined;
+        if (explain && !explain.valid) {
+          const error = explain.error ?? { message: 'EXPLAIN failed' };
+          console.warn(`⚠️ Attempt ${attempt} failed EXPLAIN: ${formatPgError(error)}`);
+          attempts.push({ attempt, sql: guard.sql, status: 'invalid', error });
+          messages.push(
+            { role: 'assistant', content: guard.sql },
+            { role: 'user', content: createRepairPrompt(formatPgError(error, guard.sql)) },
+          );
+          continue;
+        }
+
+        attempts.push({
+          attempt,
+          sql: guard.sql,
+          status: 'valid',
+          estimatedCost: explain?.estimatedCost,
+          appliedRules: guard.rewritten ? guard.appliedRules : undefined,
+        });
+        const validation = {
+          model: modelString,
+          schema_version: schemaVersion,
+          validated: Boolean(explain),
+          estimated_cost: explain?.estimatedCost,
+          estimated_rows: explain?.estimatedRows,
+          attempts,
         };
+        await audit({
+          success: true,
+          generatedSql: generatedSQL,
+          sanitizedSql: guard.sql,
+          sanitizationWarnings: guard.appliedRules,
+          confidence: result.object.confidence,
+          tables: referencedTables(guard.sql),
+        });
+
+        if (guard.rewritten) {
+          const appliedRules = guard.appliedRules.join('; ');
+          console.warn(`⚠️ Generated SQL does not follow the access policy (${appliedRules}). Sanitizing...`);
+
+          // Update the result with sanitized SQL
+          return {
+            ...result.object,
+            sql: guard.sql,
+            explanation: `${result.object.explanation} [Note: The query was adjusted to the access policy: ${appliedRules}.]`,
+            assumptions: [...result.object.assumptions, `The access policy was applied to the query: ${appliedRules}.`],
+            ...validation,
+          };
+        }
+
+        return { ...result.object, ...validation };
       }
 
-      return result.object;
+      const lastError = attempts[attempts.length - 1]?.error;
+      throw new Error(
+        `No valid query after ${attempts.length} attempt(s). Last error: ${lastError ? formatPgError(lastError) : 'unknown'}`,
+      );
     } catch (error) {
+      const lastAttempt = attempts[attempts.length - 1];
+      await audit({
+        success: false,
+        generatedSql: lastAttempt?.sql,
+        errorCode: lastAttempt?.error?.code ?? lastAttempt?.status,
+        errorMessage: error instanceof Error ? error.message : String(error),
+      });
       throw new Error(`Failed to generate SQL query: ${error instanceof Error ? error.message : String(error)}`);
     }
   },
 });
 
+const MAX_VIEW_DEFINITION_LENGTH = 600;
+
+const compactDefinition = (definition: string) => {
+  const compact = definition.replace(/\s+/g, ' ').trim();
+  return compact.length > MAX_VIEW_DEFINITION_LENGTH ? `${compact.slice(0, MAX_VIEW_DEFINITION_LENGTH)}...` : compact;
+};
+
 function createSchemaDescription(databaseSchema: any): string {
   let description = '';
+  const enums: any[] = databaseSchema.enums ?? [];
+  const constraints: any[] = databaseSchema.constraints ?? [];
+  const jsonShapes: any[] = databaseSchema.jsonShapes ?? [];
 
   // Group columns by table
   const tableColumns = new Map<string, any[]>();
@@ -280,39 +472,71 @@ function createSchemaDescription(databaseSchema: any): string {
     tableColumns.get(tableKey)?.push(column);
   });
 
+  // Views and materialized views are described like tables, with their definition
+  const relations = [
+    ...databaseSchema.tables.map((table: any) => ({ ...table, kind: 'Table' })),
+    ...(databaseSchema.views ?? []).map((view: any) => ({
+      schema_name: view.schema_name,
+      table_name: view.view_name,
+      table_comment: view.view_comment,
+      definition: view.definition,
+      kind: view.view_type === 'MATERIALIZED VIEW' ? 'Materialized view' : 'View',
+    })),
+  ];
+
   // Create table descriptions
-  databaseSchema.tables.forEach((table: any) => {
+  relations.forEach((table: any) => {
     const tableKey = `${table.schema_name}.${table.table_name}`;
     const columns = tableColumns.get(tableKey) || [];
     const rowCount = databaseSchema.rowCounts.find(
       (rc: any) => rc.schema_name === table.schema_name && rc.table_name === table.table_name,
     );
 
-    const isArticlesTable = table.table_name.toLowerCase() === ARTICLES_TABLE_NAME.toLowerCase();
+    const restriction = findTablePolicy(table.table_name, table.schema_name);
     
-    description += `\nTable: ${table.schema_name}.${table.table_name}`;
-    if (rowCount) {
-      description += ` (${rowCount.row_count} rows)`;
+    description += `\n${table.kind}: ${table.schema_name}.${table.table_name}`;
+    if (rowCount && rowCount.row_count !== null) {
+      // Estimates come from planner statistics and can be well off on recently loaded tables
+      description +=
+        rowCount.count_kind === 'estimate'
+          ? ` (~${rowCount.row_count} rows, approximate)`
+          : ` (${rowCount.row_count} rows)`;
+    }
+    if (table.table_comment) {
+      description += `\nDescription: ${table.table_comment}`;
+    }
+    if (table.definition) {
+      description += `\nDefinition: ${compactDefinition(table.definition)}`;
     }
     
-    if (isArticlesTable) {
+    if (restriction) {
       description += '\n⚠️ RESTRICTED TABLE - Content column access is forbidden ⚠️';
-      description += '\nAllowed columns only: id, title, slug, symbols, url, published_at';
-      description += '\nForbidden columns: content, body, full_text, html, raw_content (and any long text columns)';
-      description += '\nMANDATORY: Every query MUST include LIMIT 10';
+      description += `\nAllowed columns only: ${restriction.allowedColumns.join(', ')}`;
+      description += `\nForbidden columns: ${restriction.forbiddenColumns.join(', ')} (and any long text columns)`;
+      if (restriction.maxRows) {
+        description += `\nMANDATORY: Every query MUST include LIMIT ${restriction.maxRows}`;
+      }
+      const orderBy = formatOrderBy(restriction);
+      if (orderBy) {
+        description += `\nMANDATORY: Order rows by ${orderBy}`;
+      }
     }
     
     description += '\nColumns:\n';
 
     columns.forEach((column: any) => {
-      // Skip forbidden columns when describing the articles table
-      if (isArticlesTable && FORBIDDEN_COLUMNS.includes(column.column_name.toLowerCase())) {
+      // Flag restricted columns instead of describing them
+      if (restriction && !isColumnAllowed(restriction, column.column_name)) {
         description += `  - ${column.column_name}: ${column.data_type} [FORBIDDEN - DO NOT SELECT]`;
       } else {
         description += `  - ${column.column_name}: ${column.data_type}`;
         if (column.character_maximum_length) {
           description += `(${column.character_maximum_length})`;
         }
+        const enumType = column.data_type === 'USER-DEFINED' && enums.find(e => e.enum_name === column.udt_name);
+        if (enumType) {
+          description += ` (enum ${enumType.enum_name}: ${enumType.enum_values.map((value: string) => `'${value}'`).join(', ')})`;
+        }
         if (column.is_primary_key) {
           description += ' [PRIMARY KEY]';
         }
@@ -322,11 +546,41 @@ function createSchemaDescription(databaseSchema: any): string {
         if (column.column_default) {
           description += ` [DEFAULT: ${column.column_default}]`;
         }
+        if (column.column_comment) {
+          description += ` -- ${column.column_comment}`;
+        }
+        const shape = jsonShapes.find(
+          s =>
+            s.table_schema === column.table_schema &&
+            s.table_name === column.table_name &&
+            s.column_name === column.column_name,
+        );
+        if (shape) {
+          description += `\n      JSON shape: ${describeJsonShape(shape)}`;
+        }
       }
       description += '\n';
     });
+
+    const tableConstraints = constraints.filter(
+      constraint => constraint.table_schema === table.schema_name && constraint.table_name === table.table_name,
+    );
+    if (tableConstraints.length > 0) {
+      description += 'Constraints:\n';
+      tableConstraints.forEach(constraint => {
+        description += `  - ${constraint.constraint_name}: ${constraint.definition}\n`;
+      });
+    }
   });
 
+  // Add enum types, so filters use valid values
+  if (enums.length > 0) {
+    description += '\nEnum types:\n';
+    enums.forEach(enumType => {
+      description += `  - ${enumType.schema_name}.${enumType.enum_name}: ${enumType.enum_values.map((value: string) => `'${value}'`).join(', ')}\n`;
+    });
+  }
+
   // Add relationship information
   if (databaseSchema.relationships.length > 0) {
     description += '\nRelationships:\n';
@@ -0,0 +1,26 @@
+import { createTool } from '@mastra/core/tools';
+import { z } from 'zod';
+import { resolveSymbols } from '../lib/symbol-resolver';
+
+export const symbolResolverTool = createTool({
+  id: 'symbol-resolver',
+  inputSchema: z.object({
+    text: z.string().min(1).describe("The user's question or the company, ticker or sector names in it"),
+  }),
+  description:
+    'Maps Vietnamese company names, tickers in any case and sector words (e.g. "Vietcombank", "hoa phat", "fpt", "cổ phiếu ngân hàng") to HOSE/HNX/UPCoM ticker symbols using the local reference table. Returns the symbols, the symbol lists of sectors mentioned, and names that match several tickers as ambiguities to ask the user about.',
+  execute: async ({ context: { text } }) => {
+    const resolution = resolveSymbols(text);
+    const allSymbols = [...new Set([...resolution.symbols, ...resolution.sectors.flatMap(sector => sector.symbols)])];
+    console.log(
+      `🏷️ Resolved ${allSymbols.length} symbols${resolution.ambiguities.length > 0 ? `, ${resolution.ambiguities.length} ambiguous names` : ''}`,
+    );
+
+    return {
+      ...resolution,
+      // Directly named tickers plus every ticker of the sectors mentioned, for article-search
+      allSymbols,
+      needsClarification: resolution.ambiguities.length > 0,
+    };
+  },
+});
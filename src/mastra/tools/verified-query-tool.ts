@@ -0,0 +1,67 @@
+import { createTool } from '@mastra/core/tools';
+import { z } from 'zod';
+import {
+  findSimilarVerifiedQueries,
+  listVerifiedQueries,
+  promoteVerifiedQuery,
+  retireVerifiedQuery,
+  updateVerifiedQuery,
+  verifiedQueryStatuses,
+} from '../lib/verified-queries';
+
+// Examples steer every later generation, so only operators change them, through `npm run ops -- verified`
+export const verifiedQueryTool = createTool({
+  id: 'verified-query-library',
+  inputSchema: z.object({
+    action: z
+      .enum(['list', 'search', 'promote', 'edit', 'retire'])
+      .describe('list or search examples, promote a new one, edit one, or retire one so it is no longer used'),
+    id: z.string().optional().describe('Example id; required for edit and retire, optional for promote'),
+    question: z.string().optional().describe('Question text; required for promote and search'),
+    sql: z.string().optional().describe('Verified SQL answering the question; required for promote'),
+    notes: z.string().optional().describe('Remarks shown to the model with the example'),
+    status: z.enum(verifiedQueryStatuses).optional().describe('Filter for list, or the new status for edit'),
+  }),
+  description:
+    'Manages the library of verified question/SQL pairs that SQL generation uses as few-shot examples: list, search by question similarity, promote, edit and retire examples. SQL must pass the access policy.',
+  execute: async ({ context: { action, id, question, sql, notes, status } }) => {
+    try {
+      switch (action) {
+        case 'list': {
+          const examples = await listVerifiedQueries(status);
+          return { action, examples, count: examples.length };
+        }
+        case 'search': {
+          if (!question) {
+            throw new Error('question is required to search');
+          }
+          const examples = await findSimilarVerifiedQueries(question, { limit: 10, minScore: 0 });
+          return { action, examples, count: examples.length };
+        }
+        case 'promote': {
+          if (!question || !sql) {
+            throw new Error('question and sql are required to promote an example');
+          }
+          const example = await promoteVerifiedQuery({ id, question, sql, notes, source: 'manual' });
+          return { action, examples: [example], count: 1 };
+        }
+        case 'edit': {
+          if (!id) {
+            throw new Error('id is required to edit an example');
+          }
+          const example = await updateVerifiedQuery(id, { question, sql, notes, status });
+          return { action, examples: [example], count: 1 };
+        }
+        case 'retire': {
+          if (!id) {
+            throw new Error('id is required to retire an example');
+          }
+          const example = await retireVerifiedQuery(id);
+          return { action, examples: [example], count: 1 };
+        }
+      }
+    } catch (error) {
+      throw new Error(`Failed to ${action} verified query: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  },
+});
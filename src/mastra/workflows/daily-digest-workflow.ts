@@ -0,0 +1,100 @@
+import { createWorkflow, createStep } from '@mastra/core/workflows';
+import { z } from 'zod';
+import { ISO_DATE_PATTERN } from '../lib/article-search';
+import { addDays, saveNewsDigest, vietnamToday } from '../lib/news-digest';
+import type { NewsDigest } from '../lib/news-digest';
+import { resolveReadOnlyConnectionString } from '../lib/read-only-query';
+import { databaseFingerprint } from '../lib/schema-cache';
+import { newsDigestTool } from '../tools/news-digest-tool';
+
+// Produces the market-wide digest of one day and keeps it in the news_digests table. Started once a day by the
+// digest schedule (NEWS_DIGEST_TIME), or by hand for any day.
+
+const digestSummarySchema = z.object({
+  id: z.number(),
+  date: z.string(),
+  totalArticles: z.number(),
+  previousTotalArticles: z.number(),
+  topSectors: z.array(z.object({ id: z.string(), name: z.string(), count: z.number() })),
+  trending: z.array(z.object({ symbol: z.string(), count: z.number(), previousCount: z.number() })),
+});
+
+// The news digest tool either throws or returns the digest with `success: true`; invalid input comes back as a
+// validation error result instead
+const isDigestResult = (result: unknown): result is NewsDigest & { success: true } =>
+  typeof result === 'object' && result !== null && 'success' in result && result.success === true;
+
+// Step 1: Count the day's articles
+const buildDigestStep = createStep({
+  id: 'build-digest',
+  inputSchema: z.object({
+    date: z.string().regex(ISO_DATE_PATTERN).optional(),
+    connectionString: z.string().optional(),
+  }),
+  outputSchema: z.object({
+    database: z.string(),
+    digest: z.any(),
+  }),
+  execute: async ({ inputData, runtimeContext, tracingContext }) => {
+    const dbUrl = resolveReadOnlyConnectionString(inputData.connectionString);
+    if (!dbUrl) {
+      throw new Error(
+        'No connection string provided and neither NEWS_DATABASE_READONLY_URL nor NEWS_DATABASE_URL is set in environment variables',
+      );
+    }
+    // The run after midnight digests the day that just ended
+    const date = inputData.date ?? addDays(vietnamToday(), -1);
+
+    if (!newsDigestTool.execute) {
+      throw new Error('News digest tool is not available');
+    }
+    const digest = await newsDigestTool.execute({
+      context: { connectionString: dbUrl, from: date, to: date, question: `Daily news digest for ${date}` },
+      runtimeContext,
+      tracingContext,
+    });
+    if (!isDigestResult(digest)) {
+      throw new Error('Invalid digest returned from news digest tool');
+    }
+
+    const { success: _success, ...rest } = digest;
+    return { database: databaseFingerprint(dbUrl), digest: rest };
+  },
+});
+
+// Step 2: Store the digest, replacing an earlier one for the same day
+const saveDigestStep = createStep({
+  id: 'save-digest',
+  inputSchema: z.object({
+    database: z.string(),
+    digest: z.any(),
+  }),
+  outputSchema: digestSummarySchema,
+  execute: async ({ inputData }) => {
+    const digest = inputData.digest as NewsDigest;
+    const stored = await saveNewsDigest(digest, inputData.database);
+    console.log(`🗞️ Saved the daily digest for ${digest.window.to} (${digest.totalArticles} articles)`);
+
+    return {
+      id: stored.id,
+      date: digest.window.to,
+      totalArticles: digest.totalArticles,
+      previousTotalArticles: digest.previousTotalArticles,
+      topSectors: digest.bySector.slice(0, 3).map(({ id, name, count }) => ({ id, name, count })),
+      trending: digest.trending.map(({ symbol, count, previousCount }) => ({ symbol, count, previousCount })),
+    };
+  },
+});
+
+export const dailyDigestWorkflow = createWorkflow({
+  id: 'daily-digest-workflow',
+  inputSchema: z.object({
+    // Day to digest, YYYY-MM-DD in Vietnamese time; defaults to yesterday
+    date: z.string().regex(ISO_DATE_PATTERN).optional(),
+    connectionString: z.string().optional(),
+  }),
+  outputSchema: digestSummarySchema,
+  steps: [buildDigestStep, saveDigestStep],
+});
+
+dailyDigestWorkflow.then(buildDigestStep).then(saveDigestStep).commit();
@@ -1,9 +1,17 @@
 import { createWorkflow, createStep } from '@mastra/core/workflows';
 import { z } from 'zod';
 import { databaseIntrospectionTool } from '../tools/database-introspection-tool';
-import { sqlGenerationTool } from '../tools/sql-generation-tool';
-import { sqlExecutionTool } from '../tools/sql-execution-tool';
-import { databaseSeedingTool } from '../tools/database-seeding-tool';
+import { sqlGenerationAttemptSchema, sqlGenerationTool } from '../tools/sql-generation-tool';
+import { queryReviewSchema, sqlExecutionTool } from '../tools/sql-execution-tool';
+import { databaseSeedingTool, seedProfiles } from '../tools/database-seeding-tool';
+import { chartSuggestionSchema } from '../tools/chart-suggestion-tool';
+import { resultExportTool } from '../tools/result-export-tool';
+import { suggestChart } from '../lib/chart-spec';
+import { exportFormats } from '../lib/result-export';
+import { promoteVerifiedQuery } from '../lib/verified-queries';
+import { queryApprovals } from '../lib/query-approval';
+import { databaseFingerprint } from '../lib/schema-cache';
+import { reviewQuery } from '../lib/review-policy';
 
 // Step 1: Get connection string
 const getConnectionStep = createStep({
@@ -55,9 +63,14 @@ const seedDatabaseStep = createStep({
   }),
   resumeSchema: z.object({
     seedDatabase: z.boolean().optional(),
+    profile: z.enum(seedProfiles).optional(),
+    schema: z.string().optional(),
+    force: z.boolean().optional(),
+    confirmationToken: z.string().optional(),
   }),
   suspendSchema: z.object({
     message: z.string(),
+    confirmationToken: z.string().optional(),
   }),
   execute: async ({ inputData, resumeData, suspend, requestContext }) => {
     const { connectionString } = inputData;
@@ -65,7 +78,7 @@ const seedDatabaseStep = createStep({
     if (resumeData === undefined) {
       await suspend({
         message:
-          "Would you like to seed the database with sample cities data? This will create a 'cities' table with sample data for testing. (true/false):",
+          "Would you like to seed the database with sample data? (seedDatabase: true/false, profile: 'business' for companies, employees and projects or 'news' for a Vietnamese stock-news articles table, schema: where to create the sample tables (default demo_seed; the agent reads articles from the schema policy.yaml names, public by default, so use schema: 'public' on a local database to query seeded news), force: true to replace sample tables that already hold rows)",
       });
 
       return {
@@ -74,7 +87,7 @@ const seedDatabaseStep = createStep({
       };
     }
 
-    const { seedDatabase } = resumeData;
+    const { seedDatabase, profile, schema, force, confirmationToken } = resumeData;
 
     if (!seedDatabase) {
       return {
@@ -90,7 +103,7 @@ const seedDatabaseStep = createStep({
       }
 
       const seedResult = await databaseSeedingTool.execute({
-        context: { connectionString },
+        context: { connectionString, profile, schema, force, confirmationToken },
       });
 
       // Type guard to ensure we have seed result
@@ -98,10 +111,24 @@ const seedDatabaseStep = createStep({
         throw new Error('Invalid seed result returned from seeding tool');
       }
 
+      // Nothing is dropped until the user confirms the plan of tables the seeding replaces
+      const seeding = seedResult as any;
+      if (seeding.requiresConfirmation) {
+        await suspend({
+          message: `${seeding.message}. Resume with seedDatabase: true, the same profile, schema and force, and this confirmationToken (or seedDatabase: false to skip)`,
+          confirmationToken: seeding.confirmationToken,
+        });
+
+        return {
+          connectionString,
+          seeded: false,
+        };
+      }
+
       return {
         connectionString,
-        seeded: true,
-        seedResult: seedResult as any,
+        seeded: seeding.success,
+        seedResult: seeding,
       };
     } catch (error) {
       throw new Error(`Failed to seed database: ${error instanceof Error ? error.message : String(error)}`);
@@ -198,6 +225,11 @@ const generateSQLStep = createStep({
       confidence: z.number(),
       assumptions: z.array(z.string()),
       tables_used: z.array(z.string()),
+      schema_version: z.string().optional(),
+      validated: z.boolean().optional(),
+      estimated_cost: z.number().optional(),
+      estimated_rows: z.number().optional(),
+      attempts: z.array(sqlGenerationAttemptSchema).optional(),
     }),
     schemaPresentation: z.string(),
     seeded: z.boolean(),
@@ -224,7 +256,7 @@ const generateSQLStep = createStep({
     if (!resumeData?.naturalLanguageQuery) {
       await suspend({
         schemaPresentation,
-        message: "Please enter your natural language query (e.g., 'Show me the top 10 cities by population'):",
+        message: "Please enter your natural language query (e.g., 'Tin tức về FPT tuần này'):",
         seeded,
         seedResult,
       });
@@ -252,10 +284,12 @@ const generateSQLStep = createStep({
         throw new Error('SQL generation tool is not available');
       }
 
+      // The tool validates each candidate with EXPLAIN against this database and repairs failures
       const generatedSQL = await sqlGenerationTool.execute({
         context: {
           naturalLanguageQuery,
           databaseSchema: schema,
+          connectionString,
         },
       });
 
@@ -289,6 +323,11 @@ const reviewAndExecuteStep = createStep({
       confidence: z.number(),
       assumptions: z.array(z.string()),
       tables_used: z.array(z.string()),
+      schema_version: z.string().optional(),
+      validated: z.boolean().optional(),
+      estimated_cost: z.number().optional(),
+      estimated_rows: z.number().optional(),
+      attempts: z.array(sqlGenerationAttemptSchema).optional(),
     }),
     schemaPresentation: z.string(),
     seeded: z.boolean(),
@@ -297,13 +336,21 @@ const reviewAndExecuteStep = createStep({
     success: z.boolean(),
     finalSQL: z.string(),
     queryResult: z.any(),
+    chart: chartSuggestionSchema.optional(),
+    verifiedQueryId: z.string().optional(),
+    review: queryReviewSchema.optional(),
     modifications: z.string().optional(),
     rowCount: z.number().optional(),
+    hasMore: z.boolean().optional(),
+    cursorToken: z.string().optional(),
+    truncated: z.boolean().optional(),
     error: z.string().optional(),
+    attempts: z.array(sqlGenerationAttemptSchema).optional(),
   }),
   resumeSchema: z.object({
     approved: z.boolean().optional(),
     modifiedSQL: z.string().optional(),
+    saveAsExample: z.boolean().optional(),
   }),
   suspendSchema: z.object({
     generatedSQL: z.object({
@@ -312,27 +359,52 @@ const reviewAndExecuteStep = createStep({
       confidence: z.number(),
       assumptions: z.array(z.string()),
       tables_used: z.array(z.string()),
+      schema_version: z.string().optional(),
+      validated: z.boolean().optional(),
+      estimated_cost: z.number().optional(),
+      estimated_rows: z.number().optional(),
+      attempts: z.array(sqlGenerationAttemptSchema).optional(),
     }),
+    review: queryReviewSchema,
     message: z.string(),
   }),
   execute: async ({ inputData, resumeData, suspend, requestContext }) => {
     const { connectionString, naturalLanguageQuery, generatedSQL } = inputData;
 
-    if (!resumeData) {
+    // Confident, cheap, LIMITed queries on non-sensitive tables run without asking; anything else waits for a person
+    const review = reviewQuery({
+      sql: generatedSQL.sql,
+      confidence: generatedSQL.confidence,
+      estimatedCost: generatedSQL.estimated_cost,
+    });
+
+    if (review.decision === 'block') {
+      return {
+        success: false,
+        finalSQL: generatedSQL.sql,
+        queryResult: null,
+        review,
+        error: `The query is blocked by the review policy: ${review.reasons.join('; ')}`,
+        attempts: generatedSQL.attempts,
+      };
+    }
+
+    if (!resumeData && review.decision === 'require_approval') {
       await suspend({
         generatedSQL,
-        message:
-          "Do you want to approve this SQL query or make modifications? (approved: true/false, modifiedSQL: 'your modified query' if needed)",
+        review,
+        message: `This query needs approval (${review.reasons.join('; ')}). Do you want to approve this SQL query or make modifications? (approved: true/false, modifiedSQL: 'your modified query' if needed, saveAsExample: true to add it to the verified query library once it runs)`,
       });
 
       return {
         success: false,
         finalSQL: generatedSQL.sql,
         queryResult: null,
+        review,
       };
     }
 
-    const { approved, modifiedSQL } = resumeData;
+    const { approved, modifiedSQL, saveAsExample } = resumeData ?? { approved: true };
     const finalSQL = modifiedSQL || generatedSQL.sql;
 
     if (!approved) {
@@ -340,6 +412,7 @@ const reviewAndExecuteStep = createStep({
         success: false,
         finalSQL,
         queryResult: null,
+        review,
         modifications: modifiedSQL ? 'Query was modified but not approved' : 'Query was not approved',
       };
     }
@@ -350,10 +423,19 @@ const reviewAndExecuteStep = createStep({
         throw new Error('SQL execution tool is not available');
       }
 
+      // The user approved this query by resuming the step, so the workflow grants the one-time approval itself
+      const approval = queryApprovals.approve({
+        sql: finalSQL,
+        database: databaseFingerprint(connectionString),
+      });
       const result = await sqlExecutionTool.execute({
         context: {
           connectionString,
           query: finalSQL,
+          question: naturalLanguageQuery,
+          // A modified query is reviewed again by the tool; approval never lifts a block
+          confidence: modifiedSQL ? undefined : generatedSQL.confidence,
+          approvalId: approval.id,
         },
       });
 
@@ -364,20 +446,151 @@ const reviewAndExecuteStep = createStep({
 
       const executionResult = result as any;
 
+      // A reviewed query that ran becomes a few-shot example for similar questions
+      let verifiedQueryId: string | undefined;
+      if (saveAsExample && executionResult.success) {
+        try {
+          const example = await promoteVerifiedQuery({
+            question: naturalLanguageQuery,
+            sql: executionResult.executedQuery ?? finalSQL,
+            source: 'approved-run',
+          });
+          verifiedQueryId = example.id;
+        } catch (error) {
+          console.warn(
+            `⚠️ Could not save the verified query: ${error instanceof Error ? error.message : String(error)}`,
+          );
+        }
+      }
+
       return {
         success: executionResult.success || false,
         finalSQL,
         queryResult: executionResult.data || null,
+        // Chart for the first page, from the column types sql-execution reports
+        chart: executionResult.success ? suggestChart(executionResult.data, executionResult.columns) : undefined,
+        verifiedQueryId,
+        review: executionResult.review ?? review,
         modifications: modifiedSQL ? 'Query was modified by user' : undefined,
         rowCount: executionResult.rowCount || 0,
+        // First page only; pass cursorToken to sql-execution for the next page
+        hasMore: executionResult.hasMore,
+        cursorToken: executionResult.cursorToken,
+        truncated: executionResult.truncated,
+        error: executionResult.error,
+        attempts: generatedSQL.attempts,
       };
     } catch (error) {
       return {
         success: false,
         finalSQL,
         queryResult: null,
+        review,
         modifications: modifiedSQL ? 'Query was modified by user' : undefined,
         error: `Failed to execute SQL: ${error instanceof Error ? error.message : String(error)}`,
+        attempts: generatedSQL.attempts,
+      };
+    }
+  },
+});
+
+const exportResultSchema = z.object({
+  path: z.string(),
+  format: z.enum(exportFormats),
+  rowCount: z.number(),
+  bytes: z.number(),
+  checksum: z.string(),
+  truncated: z.boolean(),
+});
+
+// Step 6: Optionally export the full result to a file
+const exportResultStep = createStep({
+  id: 'export-result',
+  inputSchema: z.object({
+    success: z.boolean(),
+    finalSQL: z.string(),
+    queryResult: z.any(),
+    chart: chartSuggestionSchema.optional(),
+    verifiedQueryId: z.string().optional(),
+    review: queryReviewSchema.optional(),
+    modifications: z.string().optional(),
+    rowCount: z.number().optional(),
+    hasMore: z.boolean().optional(),
+    cursorToken: z.string().optional(),
+    truncated: z.boolean().optional(),
+    error: z.string().optional(),
+    attempts: z.array(sqlGenerationAttemptSchema).optional(),
+  }),
+  outputSchema: z.object({
+    success: z.boolean(),
+    finalSQL: z.string(),
+    queryResult: z.any(),
+    chart: chartSuggestionSchema.optional(),
+    verifiedQueryId: z.string().optional(),
+    review: queryReviewSchema.optional(),
+    modifications: z.string().optional(),
+    rowCount: z.number().optional(),
+    hasMore: z.boolean().optional(),
+    cursorToken: z.string().optional(),
+    truncated: z.boolean().optional(),
+    error: z.string().optional(),
+    attempts: z.array(sqlGenerationAttemptSchema).optional(),
+    export: exportResultSchema.optional(),
+  }),
+  resumeSchema: z.object({
+    format: z.enum(exportFormats).optional(),
+    fileName: z.string().optional(),
+    overwrite: z.boolean().optional(),
+  }),
+  suspendSchema: z.object({
+    rowCount: z.number().optional(),
+    message: z.string(),
+  }),
+  execute: async ({ inputData, resumeData, suspend, getStepResult, runtimeContext }) => {
+    // Nothing to export when the query was not approved or failed
+    if (!inputData.success) {
+      return inputData;
+    }
+
+    if (resumeData === undefined) {
+      await suspend({
+        rowCount: inputData.rowCount,
+        message: `Would you like to export the full result to a file? (format: ${exportFormats.join(' | ')}, fileName: optional, overwrite: true to replace an existing file; leave format empty to skip)`,
+      });
+
+      return inputData;
+    }
+
+    const { format, fileName, overwrite } = resumeData;
+    if (!format) {
+      return inputData;
+    }
+
+    try {
+      if (!resultExportTool.execute) {
+        throw new Error('Result export tool is not available');
+      }
+
+      // The connection string is not part of the query result, so take it from the first step
+      const { connectionString } = getStepResult(getConnectionStep);
+      // The query already passed review in step 5 and the user asked for the export by resuming this step
+      const approval = queryApprovals.approve({
+        sql: inputData.finalSQL,
+        database: databaseFingerprint(connectionString),
+      });
+      const exported = await resultExportTool.execute({
+        context: { connectionString, query: inputData.finalSQL, format, fileName, overwrite, approvalId: approval.id },
+        runtimeContext,
+      });
+
+      return {
+        ...inputData,
+        export: exported as z.infer<typeof exportResultSchema>,
+      };
+    } catch (error) {
+      return {
+        ...inputData,
+        error: `Failed to export result: ${error instanceof Error ? error.message : String(error)}`,
       };
     }
   },
@@ -391,10 +604,26 @@ export const databaseQueryWorkflow = createWorkflow({
     success: z.boolean(),
     finalSQL: z.string(),
     queryResult: z.any(),
+    chart: chartSuggestionSchema.optional(),
+    verifiedQueryId: z.string().optional(),
+    review: queryReviewSchema.optional(),
     modifications: z.string().optional(),
     rowCount: z.number().optional(),
+    hasMore: z.boolean().optional(),
+    cursorToken: z.string().optional(),
+    truncated: z.boolean().optional(),
+    error: z.string().optional(),
+    attempts: z.array(sqlGenerationAttemptSchema).optional(),
+    export: exportResultSchema.optional(),
   }),
-  steps: [getConnectionStep, seedDatabaseStep, introspectDatabaseStep, generateSQLStep, reviewAndExecuteStep],
+  steps: [
+    getConnectionStep,
+    seedDatabaseStep,
+    introspectDatabaseStep,
+    generateSQLStep,
+    reviewAndExecuteStep,
+    exportResultStep,
+  ],
 });
 
 databaseQueryWorkflow
@@ -403,6 +632,7 @@ databaseQueryWorkflow
   .then(introspectDatabaseStep)
   .then(generateSQLStep)
   .then(reviewAndExecuteStep)
+  .then(exportResultStep)
   .commit();
 
 // Helper function to create human-readable schema presentation
@@ -411,6 +641,9 @@ function createSchemaPresentation(schema: any): string {
 
   presentation += `## Summary\n`;
   presentation += `- **Tables**: ${schema.summary.total_tables}\n`;
+  if (schema.summary.total_views !== undefined) {
+    presentation += `- **Views**: ${schema.summary.total_views}\n`;
+  }
   presentation += `- **Columns**: ${schema.summary.total_columns}\n`;
   presentation += `- **Relationships**: ${schema.summary.total_relationships}\n`;
   presentation += `- **Indexes**: ${schema.summary.total_indexes}\n\n`;
@@ -435,8 +668,11 @@ function createSchemaPresentation(schema: any): string {
     );
 
     presentation += `### ${table.table_name}`;
-    if (rowCount) {
-      presentation += ` (${rowCount.row_count.toLocaleString()} rows)`;
+    if (rowCount && rowCount.row_count !== null) {
+      presentation +=
+        rowCount.count_kind === 'estimate'
+          ? ` (~${rowCount.row_count.toLocaleString()} rows, estimated)`
+          : ` (${rowCount.row_count.toLocaleString()} rows)`;
     }
     presentation += `\n\n`;
 
@@ -465,6 +701,26 @@ function createSchemaPresentation(schema: any): string {
     presentation += `\n`;
   }
 
+  if (schema.views?.length > 0) {
+    presentation += `## Views\n\n`;
+    schema.views.forEach((view: any) => {
+      presentation += `- **${view.view_name}** (${view.view_type.toLowerCase()})`;
+      if (view.view_comment) {
+        presentation += `: ${view.view_comment}`;
+      }
+      presentation += `\n`;
+    });
+    presentation += `\n`;
+  }
+
+  if (schema.enums?.length > 0) {
+    presentation += `## Enum Types\n\n`;
+    schema.enums.forEach((enumType: any) => {
+      presentation += `- **${enumType.enum_name}**: ${enumType.enum_values.join(', ')}\n`;
+    });
+    presentation += `\n`;
+  }
+
   if (schema.indexes.length > 0) {
     presentation += `## Indexes\n\n`;
     schema.indexes.forEach((index: any) => {
@@ -0,0 +1,146 @@
+import 'dotenv/config';
+import { RuntimeContext } from '@mastra/core/runtime-context';
+import { parseArgs } from 'util';
+import { auditEvents } from '../mastra/lib/audit-log';
+import type { AuditEvent } from '../mastra/lib/audit-log';
+import { poolRegistry } from '../mastra/lib/db-pool';
+import { verifiedQueryStatuses } from '../mastra/lib/verified-queries';
+import type { VerifiedQueryStatus } from '../mastra/lib/verified-queries';
+import { articleSearchIndexTool } from '../mastra/tools/article-search-index-tool';
+import { auditLogSearchTool } from '../mastra/tools/audit-log-search-tool';
+import { verifiedQueryTool } from '../mastra/tools/verified-query-tool';
+
+// Operator-only tools: they are not given to the SQL agent, so this script is the way to reach them
+
+const USAGE = `Usage:
+  npm run ops -- audit [--from <date>] [--to <date>] [--user <id>] [--thread <id>] [--table <name>]
+                       [--event ${auditEvents.join('|')}] [--success | --failed] [--limit <n>]
+  npm run ops -- verified list [--status ${verifiedQueryStatuses.join('|')}]
+  npm run ops -- verified search --question <text>
+  npm run ops -- verified promote --question <text> --sql <query> [--id <id>] [--notes <text>]
+  npm run ops -- verified edit --id <id> [--question <text>] [--sql <query>] [--notes <text>] [--status <status>]
+  npm run ops -- verified retire --id <id>
+  npm run ops -- search-index status|build|rebuild [--connection <url>]
+
+audit  searches the query audit log, newest entries first. --from and --to take ISO dates or timestamps; a bare
+       date as --to means the whole day.
+verified  manages the verified question/SQL examples given to SQL generation. SQL must pass the access policy.
+search-index  checks or builds the article title search index. Needs a role that can create extensions and indexes;
+              defaults to NEWS_DATABASE_URL.
+
+Commands that read the app's LibSQL tables need MASTRA_STORAGE_URL pointing at the same database as the server.`;
+
+// An in-memory store belongs to this process alone, so searching it would always come back empty
+function requireSharedStorage() {
+  if (!process.env.MASTRA_STORAGE_URL) {
+    throw new Error(
+      'Set MASTRA_STORAGE_URL to the LibSQL database the server writes to (e.g. file:/srv/app/mastra.db)',
+    );
+  }
+}
+
+// Tools report invalid input as a result instead of throwing
+async function runTool(tool: { execute?: (...args: any[]) => Promise<any> }, context: Record<string, unknown>) {
+  const result = await tool.execute!({ context, runtimeContext: new RuntimeContext() });
+  if (result?.error === true) {
+    throw new Error(result.message);
+  }
+  return result;
+}
+
+async function audit(args: string[]) {
+  const { values } = parseArgs({
+    args,
+    options: {
+      from: { type: 'string' },
+      to: { type: 'string' },
+      user: { type: 'string' },
+      thread: { type: 'string' },
+      table: { type: 'string' },
+      event: { type: 'string' },
+      success: { type: 'boolean', default: false },
+      failed: { type: 'boolean', default: false },
+      limit: { type: 'string' },
+    },
+  });
+  if (values.success && values.failed) {
+    throw new Error('--success and --failed cannot be combined');
+  }
+  requireSharedStorage();
+
+  const result = await runTool(auditLogSearchTool, {
+    from: values.from,
+    to: values.to,
+    userId: values.user,
+    threadId: values.thread,
+    table: values.table,
+    event: values.event as AuditEvent | undefined,
+    success: values.success ? true : values.failed ? false : undefined,
+    limit: values.limit === undefined ? undefined : Number(values.limit),
+  });
+  console.log(JSON.stringify(result.entries, null, 2));
+}
+
+async function verified(args: string[]) {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      id: { type: 'string' },
+      question: { type: 'string' },
+      sql: { type: 'string' },
+      notes: { type: 'string' },
+      status: { type: 'string' },
+    },
+  });
+  if (positionals.length !== 1) {
+    throw new Error('verified needs one action: list, search, promote, edit or retire');
+  }
+  requireSharedStorage();
+
+  const result = await runTool(verifiedQueryTool, {
+    action: positionals[0],
+    ...values,
+    status: values.status as VerifiedQueryStatus | undefined,
+  });
+  console.log(JSON.stringify(result.examples, null, 2));
+}
+
+async function searchIndex(args: string[]) {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      connection: { type: 'string' },
+    },
+  });
+  if (positionals.length !== 1) {
+    throw new Error('search-index needs one action: status, build or rebuild');
+  }
+
+  const result = await runTool(articleSearchIndexTool, { action: positionals[0], connectionString: values.connection });
+  console.log(JSON.stringify(result, null, 2));
+}
+
+async function main() {
+  const [command, ...args] = process.argv.slice(2);
+  try {
+    if (command === 'audit') {
+      await audit(args);
+    } else if (command === 'verified') {
+      await verified(args);
+    } else if (command === 'search-index') {
+      await searchIndex(args);
+    } else {
+      console.log(USAGE);
+      process.exitCode = command ? 1 : 0;
+    }
+  } catch (error) {
+    console.error(`❌ ${error instanceof Error ? error.message : String(error)}`);
+    process.exitCode = 1;
+  } finally {
+    await poolRegistry.closeAll();
+  }
+}
+
+main();